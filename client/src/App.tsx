@@ -13,6 +13,9 @@ import PropertyDetail from "@/pages/property-detail";
 import SellerDashboard from "@/pages/seller-dashboard";
 import ChatInbox from "@/pages/chat-inbox";
 import AdminPanel from "@/pages/admin-panel";
+import SavedSearches from "@/pages/saved-searches";
+import SavedHomes from "@/pages/saved-homes";
+import ComparePage from "@/pages/compare-page";
 
 function Router() {
   return (
@@ -23,6 +26,9 @@ function Router() {
       <ProtectedRoute path="/seller/dashboard" component={SellerDashboard} />
       <ProtectedRoute path="/inbox" component={ChatInbox} />
       <ProtectedRoute path="/admin" component={AdminPanel} />
+      <ProtectedRoute path="/saved-searches" component={SavedSearches} />
+      <ProtectedRoute path="/saved-homes" component={SavedHomes} />
+      <ProtectedRoute path="/compare" component={ComparePage} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -0,0 +1,297 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { statusLabels } from "@/components/property/status-badge";
+import { formatCompactPrice } from "@/lib/map";
+import { formatCurrency, formatDate } from "@/lib/utils";
+import { AdminAnalytics } from "@shared/schema";
+import { Loader2 } from "lucide-react";
+
+const growthConfig = {
+  users: { label: "New users", color: "hsl(var(--primary))" },
+  listings: { label: "New listings", color: "#f59e0b" },
+} satisfies ChartConfig;
+
+const conversationConfig = {
+  chats: { label: "Chats started", color: "#10b981" },
+  messages: { label: "Messages", color: "#6366f1" },
+} satisfies ChartConfig;
+
+const countConfig = {
+  count: { label: "Listings", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const priceConfig = {
+  medianPrice: { label: "Median price", color: "#0ea5e9" },
+} satisfies ChartConfig;
+
+// Range presets, in days up to and including today
+const presets = [7, 30, 90, 365];
+
+const toDay = (date: Date) => date.toISOString().slice(0, 10);
+
+function daysEndingToday(days: number) {
+  const today = new Date();
+  return {
+    from: toDay(new Date(today.getTime() - (days - 1) * 24 * 60 * 60 * 1000)),
+    to: toDay(today),
+  };
+}
+
+// "2024-01-31" drawn as a date in UTC, the zone the figures are bucketed in
+const formatDay = (day: string) => formatDate(new Date(`${day}T12:00:00Z`));
+
+function formatMinutes(minutes: number | null): string {
+  if (minutes === null) return "—";
+  if (minutes < 60) return `${Math.round(minutes)} min`;
+  if (minutes < 48 * 60) return `${(minutes / 60).toFixed(1)} h`;
+  return `${(minutes / (24 * 60)).toFixed(1)} days`;
+}
+
+interface AnalyticsDashboardProps {
+  enabled: boolean;
+}
+
+export default function AnalyticsDashboard({ enabled }: AnalyticsDashboardProps) {
+  const [range, setRange] = useState(() => daysEndingToday(30));
+
+  const { data, isLoading, error } = useQuery<AdminAnalytics>({
+    queryKey: ["/api/admin/analytics", range.from, range.to],
+    queryFn: async () => {
+      const params = new URLSearchParams(range);
+      const res = await fetch(`/api/admin/analytics?${params.toString()}`, {
+        credentials: "include",
+      });
+
+      if (!res.ok) {
+        throw new Error((await res.json()).message || "Failed to load analytics");
+      }
+
+      return res.json();
+    },
+    enabled: enabled && !!range.from && !!range.to,
+  });
+
+  const conversionRate = data && data.conversion.viewers
+    ? `${((data.conversion.converted / data.conversion.viewers) * 100).toFixed(1)}%`
+    : "—";
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white shadow sm:rounded-md p-4 flex flex-wrap items-end gap-4">
+        <div className="space-y-1">
+          <Label htmlFor="analytics-from">From</Label>
+          <Input
+            id="analytics-from"
+            type="date"
+            className="w-[160px]"
+            value={range.from}
+            max={range.to}
+            onChange={(e) => setRange({ ...range, from: e.target.value })}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="analytics-to">To</Label>
+          <Input
+            id="analytics-to"
+            type="date"
+            className="w-[160px]"
+            value={range.to}
+            min={range.from}
+            onChange={(e) => setRange({ ...range, to: e.target.value })}
+          />
+        </div>
+        <div className="flex gap-2">
+          {presets.map((days) => (
+            <Button key={days} variant="outline" size="sm" onClick={() => setRange(daysEndingToday(days))}>
+              {days} days
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="bg-white p-12 rounded-md shadow flex justify-center">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : error ? (
+        <div className="bg-red-50 p-6 rounded-lg">
+          <h2 className="text-lg font-semibold text-red-800 mb-2">Error</h2>
+          <p className="text-red-700">{(error as Error).message}</p>
+        </div>
+      ) : data && (
+        <>
+          <div className="grid grid-cols-1 gap-5 sm:grid-cols-2 lg:grid-cols-4">
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-muted-foreground">Median first reply</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{formatMinutes(data.responseTimes.medianMinutes)}</div>
+                <p className="text-xs text-muted-foreground">
+                  Average {formatMinutes(data.responseTimes.averageMinutes)}
+                </p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-muted-foreground">Buyers awaiting a reply</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{data.responseTimes.unanswered}</div>
+                <p className="text-xs text-muted-foreground">
+                  of {data.responseTimes.answered + data.responseTimes.unanswered} new conversations
+                </p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-muted-foreground">Listing views</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{data.conversion.views}</div>
+                <p className="text-xs text-muted-foreground">
+                  {data.conversion.viewers} by signed-in users
+                </p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-muted-foreground">View to chat</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{conversionRate}</div>
+                <p className="text-xs text-muted-foreground">
+                  {data.conversion.converted} chats after viewing
+                </p>
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="grid grid-cols-1 gap-5 lg:grid-cols-2">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">New users and listings</CardTitle>
+                <CardDescription>Per day</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={growthConfig} className="h-64 w-full">
+                  <LineChart data={data.daily} margin={{ left: 8, right: 8, top: 8 }}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="date" tickFormatter={formatDay} tickLine={false} axisLine={false} minTickGap={40} />
+                    <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                    <ChartTooltip content={<ChartTooltipContent labelFormatter={formatDay} />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Line dataKey="users" stroke="var(--color-users)" strokeWidth={2} dot={false} isAnimationActive={false} />
+                    <Line dataKey="listings" stroke="var(--color-listings)" strokeWidth={2} dot={false} isAnimationActive={false} />
+                  </LineChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Chats and messages</CardTitle>
+                <CardDescription>Per day</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={conversationConfig} className="h-64 w-full">
+                  <BarChart data={data.daily} margin={{ left: 8, right: 8, top: 8 }}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="date" tickFormatter={formatDay} tickLine={false} axisLine={false} minTickGap={40} />
+                    <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                    <ChartTooltip content={<ChartTooltipContent labelFormatter={formatDay} />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Bar dataKey="chats" fill="var(--color-chats)" radius={2} isAnimationActive={false} />
+                    <Bar dataKey="messages" fill="var(--color-messages)" radius={2} isAnimationActive={false} />
+                  </BarChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Listings by type</CardTitle>
+                <CardDescription>Listed in this period</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={countConfig} className="h-64 w-full">
+                  <BarChart data={data.listingsByType} margin={{ left: 8, right: 8, top: 8 }}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="propertyType" tickLine={false} axisLine={false} className="capitalize" />
+                    <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Bar dataKey="count" fill="var(--color-count)" radius={2} isAnimationActive={false} />
+                  </BarChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Listings by status</CardTitle>
+                <CardDescription>Where listings from this period are now</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={countConfig} className="h-64 w-full">
+                  <BarChart
+                    data={data.listingsByStatus.map((entry) => ({ ...entry, label: statusLabels[entry.status] }))}
+                    margin={{ left: 8, right: 8, top: 8 }}
+                  >
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                    <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Bar dataKey="count" fill="var(--color-count)" radius={2} isAnimationActive={false} />
+                  </BarChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+
+            <Card className="lg:col-span-2">
+              <CardHeader>
+                <CardTitle className="text-base">Median asking price by area</CardTitle>
+                <CardDescription>The areas with the most listings in this period</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {data.medianPriceByArea.length ? (
+                  <ChartContainer config={priceConfig} className="h-72 w-full">
+                    <BarChart data={data.medianPriceByArea} layout="vertical" margin={{ left: 8, right: 16, top: 8 }}>
+                      <CartesianGrid horizontal={false} />
+                      <XAxis type="number" dataKey="medianPrice" tickFormatter={formatCompactPrice} tickLine={false} axisLine={false} />
+                      <YAxis type="category" dataKey="area" tickLine={false} axisLine={false} width={140} />
+                      <ChartTooltip
+                        content={
+                          <ChartTooltipContent
+                            formatter={(value, _, item) =>
+                              `${formatCurrency(Number(value))} across ${item.payload.listings} listings`
+                            }
+                          />
+                        }
+                      />
+                      <Bar dataKey="medianPrice" fill="var(--color-medianPrice)" radius={2} isAnimationActive={false} />
+                    </BarChart>
+                  </ChartContainer>
+                ) : (
+                  <p className="text-sm text-muted-foreground py-6 text-center">No listings with a known area in this period</p>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
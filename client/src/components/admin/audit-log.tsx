@@ -0,0 +1,284 @@
+import { useState } from "react";
+import { useInfiniteQuery, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { formatDate, formatTime } from "@/lib/utils";
+import { AuditAction, AuditLogEntry, SafeUser, auditActions } from "@shared/schema";
+import { Download, Loader2 } from "lucide-react";
+
+const actionLabels: Record<AuditAction, string> = {
+  "auth.register": "Signed up",
+  "auth.login": "Signed in",
+  "auth.login_failed": "Failed sign-in",
+  "auth.logout": "Signed out",
+  "auth.password_change": "Changed password",
+  "property.create": "Created listing",
+  "property.update": "Edited listing",
+  "property.status_change": "Changed listing status",
+  "property.renew": "Renewed listing",
+  "property.delete": "Deleted listing",
+  "chat.start": "Started chat",
+  "moderation.decision": "Moderated listing",
+  "user.role_change": "Changed role",
+  "user.suspend": "Suspended account",
+  "user.unsuspend": "Unsuspended account",
+  "user.password_reset": "Forced password reset",
+  "user.delete": "Deleted account",
+  "impersonation.start": "Started viewing as user",
+  "impersonation.stop": "Stopped viewing as user",
+};
+
+const actionStyles: Record<string, string> = {
+  auth: "bg-neutral-100 text-neutral-800",
+  property: "bg-blue-100 text-blue-800",
+  chat: "bg-green-100 text-green-800",
+  moderation: "bg-amber-100 text-amber-800",
+  user: "bg-red-100 text-red-800",
+  impersonation: "bg-purple-100 text-purple-800",
+};
+
+interface AuditLogPage {
+  entries: AuditLogEntry[];
+  nextCursor: number | null;
+}
+
+interface AuditLogProps {
+  enabled: boolean;
+}
+
+export default function AuditLog({ enabled }: AuditLogProps) {
+  const [actorId, setActorId] = useState("all");
+  const [action, setAction] = useState("all");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [selectedEntry, setSelectedEntry] = useState<AuditLogEntry | null>(null);
+
+  const filterParams = new URLSearchParams();
+  if (actorId !== "all") filterParams.set("actorId", actorId);
+  if (action !== "all") filterParams.set("action", action);
+  if (from) filterParams.set("from", from);
+  if (to) filterParams.set("to", to);
+  const filterQuery = filterParams.toString();
+
+  const { data: users } = useQuery<SafeUser[]>({
+    queryKey: ["/api/admin/users"],
+    enabled,
+  });
+
+  const {
+    data,
+    isLoading,
+    error,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = useInfiniteQuery({
+    queryKey: ["/api/admin/audit", filterQuery],
+    queryFn: async ({ pageParam }): Promise<AuditLogPage> => {
+      const params = new URLSearchParams(filterQuery);
+      if (pageParam) params.set("before", String(pageParam));
+
+      const res = await fetch(`/api/admin/audit?${params.toString()}`, {
+        credentials: "include",
+      });
+
+      if (!res.ok) {
+        throw new Error((await res.json()).message || "Failed to load the audit log");
+      }
+
+      return res.json();
+    },
+    initialPageParam: null as number | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    // New entries are written all the time
+    staleTime: 0,
+    enabled,
+  });
+
+  const entries = data?.pages.flatMap((page) => page.entries) ?? [];
+
+  const clearFilters = () => {
+    setActorId("all");
+    setAction("all");
+    setFrom("");
+    setTo("");
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white shadow sm:rounded-md p-4 flex flex-wrap items-end gap-4">
+        <div className="space-y-1">
+          <Label>Actor</Label>
+          <Select value={actorId} onValueChange={setActorId}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Anyone</SelectItem>
+              {users?.map((member) => (
+                <SelectItem key={member.id} value={member.id.toString()}>
+                  {member.username}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label>Action</Label>
+          <Select value={action} onValueChange={setAction}>
+            <SelectTrigger className="w-[220px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Any action</SelectItem>
+              {auditActions.map((value) => (
+                <SelectItem key={value} value={value}>
+                  {actionLabels[value]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="audit-from">From</Label>
+          <Input id="audit-from" type="date" className="w-[160px]" value={from} onChange={(e) => setFrom(e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="audit-to">To</Label>
+          <Input id="audit-to" type="date" className="w-[160px]" value={to} onChange={(e) => setTo(e.target.value)} />
+        </div>
+        <Button variant="ghost" onClick={clearFilters}>
+          Clear
+        </Button>
+        <Button variant="outline" className="ml-auto" asChild>
+          <a href={`/api/admin/audit/export?${filterQuery}`} download>
+            <Download className="mr-2 h-4 w-4" />
+            Export CSV
+          </a>
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="bg-white p-12 rounded-md shadow flex justify-center">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : error ? (
+        <div className="bg-red-50 p-6 rounded-lg">
+          <h2 className="text-lg font-semibold text-red-800 mb-2">Error</h2>
+          <p className="text-red-700">{(error as Error).message}</p>
+        </div>
+      ) : (
+        <div className="bg-white shadow overflow-hidden sm:rounded-md">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>When</TableHead>
+                <TableHead>Actor</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>Target</TableHead>
+                <TableHead>IP</TableHead>
+                <TableHead className="text-right">Details</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {!entries.length ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-6">
+                    No entries match these filters
+                  </TableCell>
+                </TableRow>
+              ) : (
+                entries.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="text-sm text-neutral-500 whitespace-nowrap">
+                      {formatDate(entry.createdAt)} {formatTime(entry.createdAt)}
+                    </TableCell>
+                    <TableCell className="text-sm text-neutral-900">
+                      {entry.actorUsername ?? <span className="text-neutral-400">Anonymous</span>}
+                    </TableCell>
+                    <TableCell>
+                      <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${actionStyles[entry.action.split(".")[0]]}`}>
+                        {actionLabels[entry.action] ?? entry.action}
+                      </span>
+                    </TableCell>
+                    <TableCell className="text-sm text-neutral-700">
+                      {entry.targetType ? `${entry.targetType} #${entry.targetId}` : "—"}
+                    </TableCell>
+                    <TableCell className="text-sm text-neutral-500">{entry.ip ?? "—"}</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" onClick={() => setSelectedEntry(entry)}>
+                        View
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+          {hasNextPage && (
+            <div className="p-4 flex justify-center border-t">
+              <Button variant="outline" disabled={isFetchingNextPage} onClick={() => fetchNextPage()}>
+                {isFetchingNextPage && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Load more
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+
+      <Dialog open={!!selectedEntry} onOpenChange={(open) => !open && setSelectedEntry(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{selectedEntry && (actionLabels[selectedEntry.action] ?? selectedEntry.action)}</DialogTitle>
+            <DialogDescription>
+              {selectedEntry && (
+                <>
+                  {selectedEntry.actorUsername ?? "Anonymous"} on {formatDate(selectedEntry.createdAt)}{" "}
+                  {formatTime(selectedEntry.createdAt)} from {selectedEntry.ip ?? "an unknown address"}
+                </>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+          {selectedEntry && (
+            <div className="space-y-4 text-sm">
+              <p className="text-neutral-500 break-all">{selectedEntry.userAgent ?? "No user agent"}</p>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {(["before", "after"] as const).map((side) => (
+                  <div key={side}>
+                    <h4 className="font-medium text-neutral-900 mb-1 capitalize">{side}</h4>
+                    <pre className="bg-neutral-50 rounded-md p-3 text-xs overflow-auto max-h-80">
+                      {selectedEntry[side] ? JSON.stringify(selectedEntry[side], null, 2) : "—"}
+                    </pre>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+import { useEffect } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { switchSessionUser, useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatTime } from "@/lib/utils";
+import { SessionUser } from "@shared/schema";
+import { Eye, Loader2 } from "lucide-react";
+
+// Shown while an admin is viewing the app as another user
+export default function ImpersonationBanner() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const impersonation = user?.impersonation;
+
+  const stopMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/admin/impersonation/stop");
+      return (await res.json()) as SessionUser | null;
+    },
+    onSuccess: (admin) => {
+      switchSessionUser(admin, admin ? "/admin" : "/auth");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // The server switches back on its own once time's up; reload to pick that up
+  useEffect(() => {
+    if (!impersonation) return;
+    const timer = setTimeout(() => {
+      switchSessionUser(null, "/admin");
+    }, new Date(impersonation.expiresAt).getTime() - Date.now());
+    return () => clearTimeout(timer);
+  }, [impersonation]);
+
+  if (!user || !impersonation) {
+    return null;
+  }
+
+  return (
+    <div className="bg-amber-500 text-white">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-2 flex flex-wrap items-center justify-between gap-2 text-sm">
+        <div className="flex items-center">
+          <Eye className="h-4 w-4 mr-2" />
+          <span>
+            Viewing as <strong>{user.username}</strong> ({impersonation.admin.username}). Read-only until{" "}
+            {formatTime(impersonation.expiresAt)}.
+          </span>
+        </div>
+        <Button
+          size="sm"
+          variant="secondary"
+          disabled={stopMutation.isPending}
+          onClick={() => stopMutation.mutate()}
+        >
+          {stopMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Stop viewing
+        </Button>
+      </div>
+    </div>
+  );
+}
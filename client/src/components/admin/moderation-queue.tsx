@@ -0,0 +1,303 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency, formatDate, formatTime } from "@/lib/utils";
+import { ModerationDecisionType, ModerationLogEntry, ModerationQueueItem, Property } from "@shared/schema";
+import { Check, Loader2, MessageSquareWarning, X } from "lucide-react";
+
+const decisionLabels: Record<ModerationDecisionType, string> = {
+  approved: "Approved",
+  rejected: "Rejected",
+  changes_requested: "Changes requested",
+};
+
+const decisionStyles: Record<ModerationDecisionType, string> = {
+  approved: "bg-green-100 text-green-800",
+  rejected: "bg-red-100 text-red-800",
+  changes_requested: "bg-amber-100 text-amber-800",
+};
+
+// "propertyType" -> "property type"
+const fieldLabel = (field: string) => field.replace(/([A-Z])/g, " $1").toLowerCase();
+
+// Why the listing is in the queue
+function submissionLabel(item: ModerationQueueItem): string {
+  if (item.submittedFrom === null) return "New listing";
+  if (item.submittedFrom === "draft") return "Submitted from draft";
+  return item.changedFields.length
+    ? `Edited: ${item.changedFields.map(fieldLabel).join(", ")}`
+    : "Edited while live";
+}
+
+interface ModerationQueueProps {
+  enabled: boolean;
+}
+
+export default function ModerationQueue({ enabled }: ModerationQueueProps) {
+  const { toast } = useToast();
+  const [pendingDecision, setPendingDecision] = useState<{
+    item: ModerationQueueItem;
+    decision: Exclude<ModerationDecisionType, "approved">;
+  } | null>(null);
+  const [reason, setReason] = useState("");
+
+  const {
+    data: queue,
+    isLoading: isQueueLoading,
+    error: queueError,
+  } = useQuery<ModerationQueueItem[]>({
+    queryKey: ["/api/admin/moderation"],
+    enabled,
+  });
+
+  const { data: log } = useQuery<ModerationLogEntry[]>({
+    queryKey: ["/api/admin/moderation/log"],
+    enabled,
+  });
+
+  const decideMutation = useMutation({
+    mutationFn: async ({ propertyId, decision, reason }: {
+      propertyId: number;
+      decision: ModerationDecisionType;
+      reason?: string;
+    }) => {
+      const res = await apiRequest("POST", `/api/admin/moderation/${propertyId}`, { decision, reason });
+      return (await res.json()) as Property;
+    },
+    onSuccess: (property, { decision }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/moderation"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/moderation/log"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/properties"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/properties"] });
+      toast({
+        title: decisionLabels[decision],
+        description: property.title,
+      });
+      setPendingDecision(null);
+      setReason("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isQueueLoading) {
+    return (
+      <div className="bg-white p-12 rounded-md shadow flex justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (queueError) {
+    return (
+      <div className="bg-red-50 p-6 rounded-lg">
+        <h2 className="text-lg font-semibold text-red-800 mb-2">Error</h2>
+        <p className="text-red-700">Failed to load the moderation queue. Please try again.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="bg-white shadow overflow-hidden sm:rounded-md">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Property</TableHead>
+              <TableHead>Seller</TableHead>
+              <TableHead>Submitted</TableHead>
+              <TableHead className="text-right">Decision</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {!queue?.length ? (
+              <TableRow>
+                <TableCell colSpan={4} className="text-center py-6">
+                  Nothing waiting for review
+                </TableCell>
+              </TableRow>
+            ) : (
+              queue.map((item) => (
+                <TableRow key={item.id}>
+                  <TableCell>
+                    <div className="flex items-center">
+                      <div className="flex-shrink-0 h-10 w-10 rounded overflow-hidden bg-neutral-100">
+                        {item.images[0] && (
+                          <img src={item.images[0]} alt={item.title} className="h-10 w-10 object-cover" />
+                        )}
+                      </div>
+                      <div className="ml-4">
+                        <Link href={`/property/${item.id}`} className="text-sm font-medium text-neutral-900 hover:text-primary">
+                          {item.title}
+                        </Link>
+                        <div className="text-sm text-neutral-500">
+                          {formatCurrency(item.price)} · {item.address}
+                        </div>
+                      </div>
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="text-sm text-neutral-900">{item.sellerName}</div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="text-sm text-neutral-900">{submissionLabel(item)}</div>
+                    <div className="text-sm text-neutral-500">{formatDate(item.statusChangedAt)}</div>
+                  </TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    <Button
+                      size="sm"
+                      className="mr-1"
+                      disabled={decideMutation.isPending}
+                      onClick={() => decideMutation.mutate({ propertyId: item.id, decision: "approved" })}
+                    >
+                      <Check className="h-4 w-4 mr-1" />
+                      Approve
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="mr-1"
+                      onClick={() => setPendingDecision({ item, decision: "changes_requested" })}
+                    >
+                      <MessageSquareWarning className="h-4 w-4 mr-1" />
+                      Request changes
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="border-red-500 text-red-500 hover:bg-red-50"
+                      onClick={() => setPendingDecision({ item, decision: "rejected" })}
+                    >
+                      <X className="h-4 w-4 mr-1" />
+                      Reject
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div>
+        <h2 className="text-lg font-semibold text-neutral-900 mb-3">Recent decisions</h2>
+        <div className="bg-white shadow overflow-hidden sm:rounded-md">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>When</TableHead>
+                <TableHead>Property</TableHead>
+                <TableHead>Decision</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>Moderator</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {!log?.length ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-6">
+                    No decisions yet
+                  </TableCell>
+                </TableRow>
+              ) : (
+                log.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="text-sm text-neutral-500 whitespace-nowrap">
+                      {formatDate(entry.createdAt)} {formatTime(entry.createdAt)}
+                    </TableCell>
+                    <TableCell>
+                      <Link href={`/property/${entry.property.id}`} className="text-sm text-neutral-900 hover:text-primary">
+                        {entry.property.title}
+                      </Link>
+                    </TableCell>
+                    <TableCell>
+                      <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${decisionStyles[entry.decision]}`}>
+                        {decisionLabels[entry.decision]}
+                      </span>
+                    </TableCell>
+                    <TableCell className="text-sm text-neutral-700 max-w-xs">{entry.reason ?? "—"}</TableCell>
+                    <TableCell className="text-sm text-neutral-500">{entry.moderator?.username ?? "Deleted user"}</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+
+      <Dialog
+        open={!!pendingDecision}
+        onOpenChange={(open) => {
+          if (!open) {
+            setPendingDecision(null);
+            setReason("");
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {pendingDecision?.decision === "rejected" ? "Reject listing" : "Request changes"}
+            </DialogTitle>
+            <DialogDescription>
+              {pendingDecision?.decision === "rejected"
+                ? "The listing won't be published. The seller will see your reason."
+                : "The listing goes back to the seller as a draft. Tell them what needs to change."}
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            rows={4}
+            placeholder="Reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPendingDecision(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant={pendingDecision?.decision === "rejected" ? "destructive" : "default"}
+              disabled={!reason.trim() || decideMutation.isPending}
+              onClick={() =>
+                pendingDecision &&
+                decideMutation.mutate({
+                  propertyId: pendingDecision.item.id,
+                  decision: pendingDecision.decision,
+                  reason,
+                })
+              }
+            >
+              {decideMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {pendingDecision?.decision === "rejected" ? "Reject" : "Send back"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
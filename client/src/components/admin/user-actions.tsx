@@ -0,0 +1,262 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { switchSessionUser, useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { hasPermission } from "@shared/permissions";
+import { SafeUser, SessionUser, UserListingPolicy } from "@shared/schema";
+import { Loader2, MoreHorizontal } from "lucide-react";
+
+type UserDialog = "suspend" | "impersonate" | "delete";
+
+interface UserActionsProps {
+  member: SafeUser;
+  // Everyone in the users list, to pick who takes over a deleted seller's listings
+  users: SafeUser[];
+}
+
+export default function UserActions({ member, users }: UserActionsProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [dialog, setDialog] = useState<UserDialog | null>(null);
+  const [reason, setReason] = useState("");
+  const [listingPolicy, setListingPolicy] = useState<UserListingPolicy>("delete");
+  const [transferToId, setTransferToId] = useState("");
+
+  const canManage = hasPermission(user, "users:manage");
+  const canImpersonate = hasPermission(user, "users:impersonate");
+  const hasListings = hasPermission(member, "listings:create");
+  const newSellers = users.filter(
+    (u) => u.id !== member.id && !u.suspendedAt && hasPermission(u, "listings:create")
+  );
+
+  const closeDialog = () => {
+    setDialog(null);
+    setReason("");
+    setListingPolicy("delete");
+    setTransferToId("");
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const onUpdated = (title: string) => () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+    toast({ title, description: member.username });
+    closeDialog();
+  };
+
+  const suspendMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/admin/users/${member.id}/suspend`, { reason });
+    },
+    onSuccess: onUpdated("Account suspended"),
+    onError,
+  });
+
+  const unsuspendMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/admin/users/${member.id}/unsuspend`);
+    },
+    onSuccess: onUpdated("Account unsuspended"),
+    onError,
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/admin/users/${member.id}/reset-password`);
+    },
+    onSuccess: onUpdated("Password reset required"),
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      const params = new URLSearchParams({ listings: listingPolicy });
+      if (listingPolicy === "transfer") params.set("transferTo", transferToId);
+      await apiRequest("DELETE", `/api/admin/users/${member.id}?${params}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/properties"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/properties"] });
+      onUpdated("Account deleted")();
+    },
+    onError,
+  });
+
+  const impersonateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/admin/users/${member.id}/impersonate`, { reason });
+      return (await res.json()) as SessionUser;
+    },
+    onSuccess: (impersonated) => {
+      switchSessionUser(impersonated, "/");
+    },
+    onError,
+  });
+
+  // Admins are out of reach until their role is changed, as is your own account
+  if (!user || member.id === user.id || hasPermission(member, "users:manage") || (!canManage && !canImpersonate)) {
+    return null;
+  }
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm">
+            <MoreHorizontal className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          {canImpersonate && !member.suspendedAt && (
+            <DropdownMenuItem onClick={() => setDialog("impersonate")}>View as user</DropdownMenuItem>
+          )}
+          {canManage && (
+            <>
+              {member.suspendedAt ? (
+                <DropdownMenuItem onClick={() => unsuspendMutation.mutate()}>Unsuspend</DropdownMenuItem>
+              ) : (
+                <DropdownMenuItem onClick={() => setDialog("suspend")}>Suspend</DropdownMenuItem>
+              )}
+              {!member.mustResetPassword && (
+                <DropdownMenuItem onClick={() => resetMutation.mutate()}>Force password reset</DropdownMenuItem>
+              )}
+              <DropdownMenuSeparator />
+              <DropdownMenuItem
+                className="text-red-500 focus:text-red-500"
+                onClick={() => setDialog("delete")}
+              >
+                Delete account
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={dialog === "suspend" || dialog === "impersonate"} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {dialog === "suspend" ? `Suspend ${member.username}` : `View as ${member.username}`}
+            </DialogTitle>
+            <DialogDescription>
+              {dialog === "suspend"
+                ? "They'll be signed out everywhere and shown this reason when they try to sign in."
+                : "You'll see the app exactly as they do, without being able to change anything. The session is logged with your reason and ends on its own."}
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            rows={3}
+            placeholder={dialog === "suspend" ? "Reason for suspension" : "Support ticket or reason"}
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={closeDialog}>
+              Cancel
+            </Button>
+            <Button
+              variant={dialog === "suspend" ? "destructive" : "default"}
+              disabled={!reason.trim() || suspendMutation.isPending || impersonateMutation.isPending}
+              onClick={() => (dialog === "suspend" ? suspendMutation.mutate() : impersonateMutation.mutate())}
+            >
+              {(suspendMutation.isPending || impersonateMutation.isPending) && (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              )}
+              {dialog === "suspend" ? "Suspend" : "View as user"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={dialog === "delete"} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete {member.username}</DialogTitle>
+            <DialogDescription>
+              Their chats, saved homes and searches go with the account. This can't be undone.
+            </DialogDescription>
+          </DialogHeader>
+          {hasListings && (
+            <div className="space-y-3">
+              <Label>Their listings</Label>
+              <RadioGroup value={listingPolicy} onValueChange={(value) => setListingPolicy(value as UserListingPolicy)}>
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="delete" id={`delete-listings-${member.id}`} />
+                  <Label htmlFor={`delete-listings-${member.id}`} className="font-normal">
+                    Delete them, telling anyone who saved them
+                  </Label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="transfer" id={`transfer-listings-${member.id}`} />
+                  <Label htmlFor={`transfer-listings-${member.id}`} className="font-normal">
+                    Transfer them to another seller or agent
+                  </Label>
+                </div>
+              </RadioGroup>
+              {listingPolicy === "transfer" && (
+                <Select value={transferToId} onValueChange={setTransferToId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose who takes them over" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {newSellers.map((u) => (
+                      <SelectItem key={u.id} value={u.id.toString()}>
+                        {u.firstName} {u.lastName} ({u.username})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={closeDialog}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={deleteMutation.isPending || (listingPolicy === "transfer" && !transferToId)}
+              onClick={() => deleteMutation.mutate()}
+            >
+              {deleteMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Delete Account
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
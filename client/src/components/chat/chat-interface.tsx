@@ -2,32 +2,64 @@ import { useState, useEffect, useRef, useCallback } from "react";
 import { useAuth } from "@/hooks/use-auth";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { Switch } from "@/components/ui/switch";
 import AvatarPlaceholder from "@/components/ui/avatar-placeholder";
-import { getInitials, formatTime } from "@/lib/utils";
+import { getInitials, formatTime, formatRelativeTime } from "@/lib/utils";
 import { Message, Chat } from "@shared/schema";
-import { Send, Menu } from "lucide-react";
+import { Presence } from "@shared/chat-protocol";
+import { hasPermission } from "@shared/permissions";
+import { Send, Menu, Settings } from "lucide-react";
 
 interface ChatInterfaceProps {
   chats: (Chat & { 
-    property: { title: string; id: number; } 
-    seller?: { firstName: string; lastName: string; id: number; }
-    buyer?: { firstName: string; lastName: string; id: number; }
+    property: { title: string; id: number; } | null
+    seller?: { firstName: string; lastName: string; id: number; presence: Presence }
+    buyer?: { firstName: string; lastName: string; id: number; presence: Presence }
+    unreadCount: number
   })[];
   messages: Message[];
   activeChatId: number | null;
   setActiveChatId: (id: number) => void;
   onSendMessage: (chatId: number, content: string) => void;
+  // Called as the user types; sending on is throttled by the caller
+  onTyping: (chatId: number) => void;
+  // Chats where the other participant is typing
+  typingChatIds: number[];
+  onHidePresenceChange: (hidePresence: boolean) => void;
   onMobileBackClick?: () => void;
   isMobile: boolean;
 }
 
+// "Typing...", "Online" or when they were last seen; nothing for people who
+// hide their presence
+function presenceLabel(presence: Presence | undefined, isTyping: boolean) {
+  if (isTyping) return "Typing...";
+  if (presence?.online) return "Online";
+  if (presence?.lastSeenAt) return `Last seen ${formatRelativeTime(presence.lastSeenAt)}`;
+  return null;
+}
+
+function OnlineDot({ presence }: { presence: Presence | undefined }) {
+  if (!presence?.online) return null;
+  return (
+    <span className="absolute bottom-0 right-0 h-3 w-3 rounded-full bg-green-500 ring-2 ring-white">
+      <span className="sr-only">Online</span>
+    </span>
+  );
+}
+
 export default function ChatInterface({ 
   chats, 
   messages, 
   activeChatId, 
   setActiveChatId,
   onSendMessage,
+  onTyping,
+  typingChatIds,
+  onHidePresenceChange,
   onMobileBackClick,
   isMobile
 }: ChatInterfaceProps) {
@@ -72,19 +104,44 @@ export default function ChatInterface({
   
   // Determine the other user in the chat (buyer or seller)
   const getOtherUser = (chat: typeof chats[0]) => {
-    if (user.role === "buyer") {
+    if (hasPermission(user, "chats:start")) {
       return chat.seller;
     } else {
       return chat.buyer;
     }
   };
   
+  // The newest message the other participant has seen
+  const getOtherLastReadId = (chat: typeof chats[0]) =>
+    chat.buyerId === user.id ? chat.sellerLastReadId : chat.buyerLastReadId;
+  
   // Chat list sidebar
   const ChatList = () => (
     <div className={`w-full md:w-64 border-r border-neutral-200 bg-white flex-shrink-0 
       ${isMobile && activeChatId ? 'hidden' : 'block'} md:block h-[calc(100vh-4rem)]`}>
-      <div className="h-16 flex items-center px-4 border-b border-neutral-200">
+      <div className="h-16 flex items-center justify-between px-4 border-b border-neutral-200">
         <h2 className="text-lg font-medium text-neutral-900">Messages</h2>
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button type="button" variant="ghost" size="icon" aria-label="Chat settings">
+              <Settings className="h-5 w-5" />
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent align="end" className="w-72">
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="chat-show-presence"
+                checked={!user.hidePresence}
+                onCheckedChange={checked => onHidePresenceChange(!checked)}
+                disabled={!!user.impersonation}
+              />
+              <Label htmlFor="chat-show-presence" className="font-normal">Show when I'm online</Label>
+            </div>
+            <p className="text-xs text-neutral-500 mt-2">
+              When this is off, the people you chat with don't see when you're online or when you were last here.
+            </p>
+          </PopoverContent>
+        </Popover>
       </div>
       
       <ScrollArea className="h-[calc(100vh-4rem-64px)]">
@@ -97,6 +154,7 @@ export default function ChatInterface({
             chats.map(chat => {
               const otherUser = getOtherUser(chat);
               const isActive = chat.id === activeChatId;
+              const isTyping = typingChatIds.includes(chat.id);
               
               return (
                 <div 
@@ -107,22 +165,32 @@ export default function ChatInterface({
                   onClick={() => setActiveChatId(chat.id)}
                 >
                   <div className="flex items-center mb-1">
-                    <div className="mr-3">
+                    <div className="mr-3 relative">
                       <AvatarPlaceholder 
                         initials={getInitials(
                           otherUser?.firstName || "", 
                           otherUser?.lastName || ""
                         )} 
                       />
+                      <OnlineDot presence={otherUser?.presence} />
                     </div>
                     <div className="flex-1 overflow-hidden">
-                      <h3 className="text-sm font-medium text-neutral-900 truncate">
+                      <h3 className={`text-sm text-neutral-900 truncate ${chat.unreadCount ? 'font-semibold' : 'font-medium'}`}>
                         {otherUser?.firstName} {otherUser?.lastName}
                       </h3>
-                      <p className="text-xs text-neutral-500 truncate">
-                        {chat.property.title}
-                      </p>
+                      {isTyping ? (
+                        <p className="text-xs text-primary truncate">Typing...</p>
+                      ) : (
+                        <p className="text-xs text-neutral-500 truncate">
+                          {chat.property?.title ?? "Listing removed"}
+                        </p>
+                      )}
                     </div>
+                    {chat.unreadCount > 0 && (
+                      <span className="ml-2 min-w-[1.25rem] h-5 px-1.5 rounded-full bg-primary text-white text-xs font-semibold flex items-center justify-center">
+                        {chat.unreadCount > 99 ? "99+" : chat.unreadCount}
+                      </span>
+                    )}
                   </div>
                 </div>
               );
@@ -149,6 +217,13 @@ export default function ChatInterface({
     }
     
     const otherUser = getOtherUser(activeChat);
+    const status = presenceLabel(otherUser?.presence, typingChatIds.includes(activeChat.id));
+    
+    // "Seen" goes under the newest of your messages the other participant has read
+    const otherLastReadId = getOtherLastReadId(activeChat);
+    const seenMessageId = messages
+      .filter(message => message.senderId === user.id && message.id <= otherLastReadId)
+      .reduce((latest, message) => Math.max(latest, message.id), 0);
     
     return (
       <div className={`flex-1 flex flex-col ${
@@ -167,19 +242,21 @@ export default function ChatInterface({
               </button>
             )}
             <div className="flex items-center">
-              <div className="mr-3">
+              <div className="mr-3 relative">
                 <AvatarPlaceholder 
                   initials={getInitials(
                     otherUser?.firstName || "", 
                     otherUser?.lastName || ""
                   )} 
                 />
+                <OnlineDot presence={otherUser?.presence} />
               </div>
               <div>
                 <h3 className="text-sm font-medium text-neutral-900">
                   {otherUser?.firstName} {otherUser?.lastName}
+                  {status && <span className="ml-2 text-xs font-normal text-neutral-500">{status}</span>}
                 </h3>
-                <p className="text-xs text-neutral-500">{activeChat.property.title}</p>
+                <p className="text-xs text-neutral-500">{activeChat.property?.title ?? "Listing removed"}</p>
               </div>
             </div>
           </div>
@@ -197,30 +274,35 @@ export default function ChatInterface({
                 const isSender = message.senderId === user.id;
                 
                 return (
-                  <div key={message.id} className={`flex ${isSender ? 'justify-end' : 'justify-start'}`}>
-                    {!isSender && (
-                      <div className="flex-shrink-0 mr-3">
-                        <AvatarPlaceholder 
-                          size="sm"
-                          initials={getInitials(
-                            otherUser?.firstName || "", 
-                            otherUser?.lastName || ""
-                          )} 
-                        />
+                  <div key={message.id}>
+                    <div className={`flex ${isSender ? 'justify-end' : 'justify-start'}`}>
+                      {!isSender && (
+                        <div className="flex-shrink-0 mr-3">
+                          <AvatarPlaceholder 
+                            size="sm"
+                            initials={getInitials(
+                              otherUser?.firstName || "", 
+                              otherUser?.lastName || ""
+                            )} 
+                          />
+                        </div>
+                      )}
+                      <div 
+                        className={`p-3 max-w-[75%] rounded-lg ${
+                          isSender 
+                            ? 'bg-primary text-white rounded-tr-none' 
+                            : 'bg-white text-neutral-800 rounded-tl-none shadow-sm'
+                        }`}
+                      >
+                        <p className="text-sm">{message.content}</p>
+                        <p className={`text-xs mt-1 ${isSender ? 'opacity-80' : 'text-neutral-500'}`}>
+                          {formatTime(message.timestamp)}
+                        </p>
                       </div>
-                    )}
-                    <div 
-                      className={`p-3 max-w-[75%] rounded-lg ${
-                        isSender 
-                          ? 'bg-primary text-white rounded-tr-none' 
-                          : 'bg-white text-neutral-800 rounded-tl-none shadow-sm'
-                      }`}
-                    >
-                      <p className="text-sm">{message.content}</p>
-                      <p className={`text-xs mt-1 ${isSender ? 'opacity-80' : 'text-neutral-500'}`}>
-                        {formatTime(message.timestamp)}
-                      </p>
                     </div>
+                    {message.id === seenMessageId && (
+                      <p className="text-xs text-neutral-500 text-right mt-1">Seen</p>
+                    )}
                   </div>
                 );
               })
@@ -231,21 +313,30 @@ export default function ChatInterface({
         
         {/* Message input */}
         <div className="border-t border-neutral-200 p-4 bg-white">
-          <form onSubmit={handleSendMessage} className="flex items-end">
-            <div className="flex-1 mr-3">
-              <Input
-                ref={inputRef}
-                placeholder="Type a message..."
-                value={message}
-                onChange={e => setMessage(e.target.value)}
-                autoFocus
-                className="min-h-[42px]"
-              />
-            </div>
-            <Button type="submit" size="icon" className="h-[42px] w-[42px] rounded-full">
-              <Send className="h-5 w-5" />
-            </Button>
-          </form>
+          {!activeChat.property ? (
+            <p className="text-sm text-center text-neutral-500">
+              This listing has been removed. The conversation is read-only.
+            </p>
+          ) : (
+            <form onSubmit={handleSendMessage} className="flex items-end">
+              <div className="flex-1 mr-3">
+                <Input
+                  ref={inputRef}
+                  placeholder="Type a message..."
+                  value={message}
+                  onChange={e => {
+                    setMessage(e.target.value);
+                    if (e.target.value.trim()) onTyping(activeChat.id);
+                  }}
+                  autoFocus
+                  className="min-h-[42px]"
+                />
+              </div>
+              <Button type="submit" size="icon" className="h-[42px] w-[42px] rounded-full">
+                <Send className="h-5 w-5" />
+              </Button>
+            </form>
+          )}
         </div>
       </div>
     );
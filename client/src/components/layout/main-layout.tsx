@@ -1,6 +1,11 @@
 import React from "react";
+import { useLocation } from "wouter";
 import Navbar from "./navbar";
+import CompareTray from "@/components/property/compare-tray";
+import ImpersonationBanner from "@/components/admin/impersonation-banner";
 import { useAuth } from "@/hooks/use-auth";
+import useCompareStore from "@/store/compare-store";
+import { cn } from "@/lib/utils";
 
 interface MainLayoutProps {
   children: React.ReactNode;
@@ -8,6 +13,9 @@ interface MainLayoutProps {
 
 export default function MainLayout({ children }: MainLayoutProps) {
   const { user } = useAuth();
+  const [location] = useLocation();
+  // The tray is redundant on the comparison page itself
+  const showCompareTray = useCompareStore((state) => state.items.length > 0) && location !== "/compare";
 
   if (!user) {
     return null;
@@ -15,10 +23,12 @@ export default function MainLayout({ children }: MainLayoutProps) {
 
   return (
     <div className="flex flex-col min-h-screen bg-neutral-100">
+      <ImpersonationBanner />
       <Navbar />
-      <main className="flex-1 pb-8">
+      <main className={cn("flex-1 pb-8", showCompareTray && "pb-28")}>
         {children}
       </main>
+      {showCompareTray && <CompareTray />}
     </div>
   );
 }
@@ -1,4 +1,5 @@
 import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Link, useLocation } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
 import { Button } from "@/components/ui/button";
@@ -11,20 +12,45 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { getInitials } from "@/lib/utils";
+import { hasPermission, roleLabels } from "@shared/permissions";
 import AvatarPlaceholder from "@/components/ui/avatar-placeholder";
+import NotificationsMenu from "@/components/layout/notifications-menu";
+
+// Checked now and then for the inbox badge; the inbox itself updates live
+const chatsPollInterval = 60 * 1000;
+
+function UnreadBadge({ count }: { count: number }) {
+  if (!count) return null;
+  return (
+    <span className="ml-1.5 min-w-[1.25rem] h-5 px-1.5 rounded-full bg-primary text-white text-xs font-semibold inline-flex items-center justify-center">
+      {count > 99 ? "99+" : count}
+      <span className="sr-only"> unread messages</span>
+    </span>
+  );
+}
 
 export default function Navbar() {
   const [location] = useLocation();
   const { user, logoutMutation } = useAuth();
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
 
+  const { data: chats = [] } = useQuery<{ unreadCount: number }[]>({
+    queryKey: ["/api/chats"],
+    enabled: !!user,
+    refetchInterval: chatsPollInterval,
+  });
+  const unreadCount = chats.reduce((total, chat) => total + chat.unreadCount, 0);
+
   if (!user) return null;
 
   const handleLogout = () => {
     logoutMutation.mutate();
   };
 
-  const isSellerOrAdmin = user.role === "seller" || user.role === "admin";
+  const canList = hasPermission(user, "listings:create") || hasPermission(user, "listings:manage_any");
+  const canSaveHomes = hasPermission(user, "favourites:save");
+  const canSaveSearches = hasPermission(user, "searches:save");
+  const canOpenAdmin = hasPermission(user, "listings:moderate") || hasPermission(user, "users:view");
 
   return (
     <nav className="bg-white shadow-sm border-b border-neutral-200">
@@ -50,7 +76,7 @@ export default function Navbar() {
                   Home
                 </a>
               </Link>
-              {isSellerOrAdmin && (
+              {canList && (
                 <Link href="/seller/dashboard">
                   <a
                     className={`inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium ${
@@ -72,9 +98,23 @@ export default function Navbar() {
                   }`}
                 >
                   Inbox
+                  <UnreadBadge count={unreadCount} />
                 </a>
               </Link>
-              {user.role === "admin" && (
+              {canSaveHomes && (
+                <Link href="/saved-homes">
+                  <a
+                    className={`inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium ${
+                      location === "/saved-homes"
+                        ? "border-primary text-neutral-900"
+                        : "border-transparent text-neutral-500 hover:border-neutral-300 hover:text-neutral-700"
+                    }`}
+                  >
+                    Saved Homes
+                  </a>
+                </Link>
+              )}
+              {canOpenAdmin && (
                 <Link href="/admin">
                   <a
                     className={`inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium ${
@@ -90,7 +130,7 @@ export default function Navbar() {
             </div>
           </div>
           <div className="flex items-center">
-            {isSellerOrAdmin && (
+            {canList && (
               <div className="flex-shrink-0 hidden md:block">
                 <Link href="/seller/dashboard?add=true">
                   <Button size="sm" className="mr-4">
@@ -100,6 +140,7 @@ export default function Navbar() {
                 </Link>
               </div>
             )}
+            <NotificationsMenu />
             <div className="hidden md:ml-4 md:flex-shrink-0 md:flex md:items-center">
               <DropdownMenu>
                 <DropdownMenuTrigger asChild>
@@ -116,8 +157,8 @@ export default function Navbar() {
                   <div className="px-2 py-1.5">
                     <p className="text-sm font-medium">{`${user.firstName} ${user.lastName}`}</p>
                     <p className="text-xs text-muted-foreground">{user.email}</p>
-                    <p className="text-xs text-muted-foreground capitalize">
-                      Role: {user.role}
+                    <p className="text-xs text-muted-foreground">
+                      Role: {roleLabels[user.role]}
                     </p>
                   </div>
                   <DropdownMenuSeparator />
@@ -126,14 +167,28 @@ export default function Navbar() {
                       <a className="w-full cursor-pointer">Inbox</a>
                     </Link>
                   </DropdownMenuItem>
-                  {isSellerOrAdmin && (
+                  {canSaveHomes && (
+                    <DropdownMenuItem asChild>
+                      <Link href="/saved-homes">
+                        <a className="w-full cursor-pointer">Saved homes</a>
+                      </Link>
+                    </DropdownMenuItem>
+                  )}
+                  {canSaveSearches && (
+                    <DropdownMenuItem asChild>
+                      <Link href="/saved-searches">
+                        <a className="w-full cursor-pointer">Saved searches</a>
+                      </Link>
+                    </DropdownMenuItem>
+                  )}
+                  {canList && (
                     <DropdownMenuItem asChild>
                       <Link href="/seller/dashboard">
                         <a className="w-full cursor-pointer">My Properties</a>
                       </Link>
                     </DropdownMenuItem>
                   )}
-                  {user.role === "admin" && (
+                  {canOpenAdmin && (
                     <DropdownMenuItem asChild>
                       <Link href="/admin">
                         <a className="w-full cursor-pointer">Admin Panel</a>
@@ -184,7 +239,7 @@ export default function Navbar() {
                 Home
               </a>
             </Link>
-            {isSellerOrAdmin && (
+            {canList && (
               <Link href="/seller/dashboard">
                 <a
                   className={`block pl-3 pr-4 py-2 border-l-4 text-base font-medium ${
@@ -208,9 +263,38 @@ export default function Navbar() {
                 onClick={() => setMobileMenuOpen(false)}
               >
                 Inbox
+                <UnreadBadge count={unreadCount} />
               </a>
             </Link>
-            {user.role === "admin" && (
+            {canSaveHomes && (
+              <Link href="/saved-homes">
+                <a
+                  className={`block pl-3 pr-4 py-2 border-l-4 text-base font-medium ${
+                    location === "/saved-homes"
+                      ? "bg-primary-50 border-primary text-primary"
+                      : "border-transparent text-neutral-600 hover:bg-neutral-50 hover:border-neutral-300 hover:text-neutral-800"
+                  }`}
+                  onClick={() => setMobileMenuOpen(false)}
+                >
+                  Saved homes
+                </a>
+              </Link>
+            )}
+            {canSaveSearches && (
+              <Link href="/saved-searches">
+                <a
+                  className={`block pl-3 pr-4 py-2 border-l-4 text-base font-medium ${
+                    location === "/saved-searches"
+                      ? "bg-primary-50 border-primary text-primary"
+                      : "border-transparent text-neutral-600 hover:bg-neutral-50 hover:border-neutral-300 hover:text-neutral-800"
+                  }`}
+                  onClick={() => setMobileMenuOpen(false)}
+                >
+                  Saved searches
+                </a>
+              </Link>
+            )}
+            {canOpenAdmin && (
               <Link href="/admin">
                 <a
                   className={`block pl-3 pr-4 py-2 border-l-4 text-base font-medium ${
@@ -224,7 +308,7 @@ export default function Navbar() {
                 </a>
               </Link>
             )}
-            {isSellerOrAdmin && (
+            {canList && (
               <Link href="/seller/dashboard?add=true">
                 <a
                   className="block pl-3 pr-4 py-2 border-l-4 border-transparent text-base font-medium text-primary hover:bg-neutral-50 hover:border-primary"
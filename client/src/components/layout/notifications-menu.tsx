@@ -0,0 +1,107 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link, useLocation } from "wouter";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatDate } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Notification } from "@shared/schema";
+import { Bell } from "lucide-react";
+
+// Checked now and then so new saved search matches show up without a reload
+const pollInterval = 60 * 1000;
+
+export default function NotificationsMenu() {
+  const [, navigate] = useLocation();
+
+  const { data: notifications = [] } = useQuery<Notification[]>({
+    queryKey: ["/api/notifications"],
+    refetchInterval: pollInterval,
+  });
+
+  const unreadCount = notifications.filter((notification) => !notification.readAt).length;
+
+  const readMutation = useMutation({
+    mutationFn: async (ids?: number[]) => {
+      await apiRequest("POST", "/api/notifications/read", ids ? { ids } : {});
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    },
+  });
+
+  const handleSelect = (notification: Notification) => {
+    if (!notification.readAt) {
+      readMutation.mutate([notification.id]);
+    }
+    if (notification.link) {
+      navigate(notification.link);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-red-500 text-white text-[10px] font-semibold flex items-center justify-center">
+              {unreadCount > 9 ? "9+" : unreadCount}
+            </span>
+          )}
+          <span className="sr-only">Notifications</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <div className="flex items-center justify-between">
+          <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+          {unreadCount > 0 && (
+            <Button
+              variant="link"
+              size="sm"
+              className="h-auto py-0 text-xs"
+              onClick={() => readMutation.mutate(undefined)}
+            >
+              Mark all read
+            </Button>
+          )}
+        </div>
+        <DropdownMenuSeparator />
+        <div className="max-h-80 overflow-y-auto">
+          {notifications.length === 0 ? (
+            <p className="px-2 py-6 text-center text-sm text-neutral-500">
+              Nothing new. Save searches and homes to hear about new listings and price drops.
+            </p>
+          ) : (
+            notifications.map((notification) => (
+              <DropdownMenuItem
+                key={notification.id}
+                className="flex flex-col items-start gap-0.5 cursor-pointer"
+                onSelect={() => handleSelect(notification)}
+              >
+                <div className="flex w-full items-center gap-2">
+                  {!notification.readAt && <span className="h-2 w-2 shrink-0 rounded-full bg-primary" />}
+                  <span className="text-sm font-medium truncate">{notification.title}</span>
+                </div>
+                <span className="text-sm text-neutral-600">{notification.body}</span>
+                <span className="text-xs text-neutral-400">{formatDate(notification.createdAt)}</span>
+              </DropdownMenuItem>
+            ))
+          )}
+        </div>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem asChild>
+          <Link href="/saved-searches">
+            <a className="w-full cursor-pointer text-sm">Manage saved searches</a>
+          </Link>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,95 @@
+import { forwardRef, useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Input } from "@/components/ui/input";
+import { MapPin } from "lucide-react";
+
+export interface AddressSuggestion {
+  label: string;
+  city: string;
+  state: string;
+  postcode: string;
+  latitude: number;
+  longitude: number;
+}
+
+interface AddressAutocompleteProps extends Omit<React.ComponentProps<"input">, "onChange" | "onSelect"> {
+  value: string;
+  onChange: (value: string) => void;
+  onSelect?: (suggestion: AddressSuggestion) => void;
+}
+
+const AddressAutocomplete = forwardRef<HTMLInputElement, AddressAutocompleteProps>(
+  ({ value, onChange, onSelect, onBlur, ...props }, ref) => {
+    const [query, setQuery] = useState("");
+    const [open, setOpen] = useState(false);
+
+    // Wait for a pause in typing before asking the server
+    useEffect(() => {
+      const timeout = setTimeout(() => setQuery(value), 250);
+      return () => clearTimeout(timeout);
+    }, [value]);
+
+    const { data: suggestions = [] } = useQuery<AddressSuggestion[]>({
+      queryKey: ["/api/geocode/autocomplete", query],
+      queryFn: async () => {
+        const res = await fetch(`/api/geocode/autocomplete?q=${encodeURIComponent(query)}`, {
+          credentials: "include",
+        });
+
+        if (!res.ok) {
+          throw new Error("Failed to fetch address suggestions");
+        }
+
+        return res.json();
+      },
+      enabled: open && query.trim().length >= 2,
+    });
+
+    const handleSelect = (suggestion: AddressSuggestion) => {
+      onChange(suggestion.label);
+      onSelect?.(suggestion);
+      setOpen(false);
+    };
+
+    return (
+      <div className="relative">
+        <Input
+          ref={ref}
+          autoComplete="off"
+          value={value}
+          onChange={(e) => {
+            onChange(e.target.value);
+            setOpen(true);
+          }}
+          onBlur={(e) => {
+            setOpen(false);
+            onBlur?.(e);
+          }}
+          {...props}
+        />
+        {open && suggestions.length > 0 && (
+          <ul className="absolute z-20 mt-1 w-full bg-white border border-neutral-200 rounded-md shadow-lg overflow-hidden">
+            {suggestions.map((suggestion) => (
+              <li
+                key={suggestion.label}
+                className="flex items-center px-3 py-2 text-sm cursor-pointer hover:bg-neutral-100"
+                // mousedown fires before the input's blur closes the list
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  handleSelect(suggestion);
+                }}
+              >
+                <MapPin className="h-4 w-4 mr-2 text-neutral-500 flex-shrink-0" />
+                {suggestion.label}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    );
+  }
+);
+
+AddressAutocomplete.displayName = "AddressAutocomplete";
+
+export default AddressAutocomplete;
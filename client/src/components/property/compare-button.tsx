@@ -0,0 +1,46 @@
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import useCompareStore, { CompareItem, maxCompareItems } from "@/store/compare-store";
+import { cn } from "@/lib/utils";
+import { Check, Scale } from "lucide-react";
+
+interface CompareButtonProps {
+  property: CompareItem;
+  className?: string;
+}
+
+// Adds a listing to the compare tray, or takes it out again
+export default function CompareButton({ property, className }: CompareButtonProps) {
+  const { toast } = useToast();
+  const selected = useCompareStore((state) => state.items.some((item) => item.id === property.id));
+  const add = useCompareStore((state) => state.add);
+  const remove = useCompareStore((state) => state.remove);
+
+  const handleClick = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+
+    if (selected) {
+      remove(property.id);
+    } else if (!add(property)) {
+      toast({
+        title: "Compare tray is full",
+        description: `You can compare up to ${maxCompareItems} properties. Remove one to add another.`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Button
+      variant={selected ? "secondary" : "ghost"}
+      size="sm"
+      className={cn("h-8 px-2 text-xs", className)}
+      onClick={handleClick}
+      aria-pressed={selected}
+    >
+      {selected ? <Check className="h-4 w-4 mr-1" /> : <Scale className="h-4 w-4 mr-1" />}
+      {selected ? "Comparing" : "Compare"}
+    </Button>
+  );
+}
@@ -0,0 +1,66 @@
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import useCompareStore, { maxCompareItems } from "@/store/compare-store";
+import { formatCurrency, truncateText } from "@/lib/utils";
+import { Scale, X } from "lucide-react";
+
+// Bar along the bottom of the screen listing the properties picked for comparison
+export default function CompareTray() {
+  const items = useCompareStore((state) => state.items);
+  const remove = useCompareStore((state) => state.remove);
+  const clear = useCompareStore((state) => state.clear);
+
+  if (!items.length) return null;
+
+  return (
+    <div className="fixed inset-x-0 bottom-0 z-40 border-t border-neutral-200 bg-white shadow-[0_-2px_8px_rgba(0,0,0,0.08)]">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-3 flex items-center gap-4">
+        <div className="flex flex-1 gap-3 overflow-x-auto">
+          {items.map((item) => (
+            <div key={item.id} className="flex items-center gap-2 rounded-md border border-neutral-200 p-1.5 pr-1 min-w-[200px]">
+              {item.images[0] ? (
+                <img src={item.images[0]} alt={item.title} className="h-10 w-10 rounded object-cover" />
+              ) : (
+                <div className="h-10 w-10 rounded bg-neutral-100" />
+              )}
+              <div className="min-w-0 flex-1">
+                <p className="text-sm font-medium truncate">{truncateText(item.title, 24)}</p>
+                <p className="text-xs text-neutral-500">{formatCurrency(item.price)}</p>
+              </div>
+              <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => remove(item.id)}>
+                <X className="h-3 w-3" />
+                <span className="sr-only">Remove {item.title}</span>
+              </Button>
+            </div>
+          ))}
+          {Array.from({ length: maxCompareItems - items.length }, (_, index) => (
+            <div
+              key={`empty-${index}`}
+              className="hidden md:flex items-center justify-center rounded-md border border-dashed border-neutral-300 min-w-[200px] text-xs text-neutral-400"
+            >
+              Add a property
+            </div>
+          ))}
+        </div>
+        <div className="flex shrink-0 items-center gap-2">
+          <Button variant="ghost" size="sm" onClick={clear}>
+            Clear
+          </Button>
+          {items.length > 1 ? (
+            <Link href="/compare">
+              <Button size="sm">
+                <Scale className="h-4 w-4 mr-1" />
+                Compare ({items.length})
+              </Button>
+            </Link>
+          ) : (
+            <Button size="sm" disabled>
+              <Scale className="h-4 w-4 mr-1" />
+              Pick one more
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
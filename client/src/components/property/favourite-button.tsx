@@ -0,0 +1,41 @@
+import { Heart } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useFavourites } from "@/hooks/use-favourites";
+import { cn } from "@/lib/utils";
+
+interface FavouriteButtonProps {
+  propertyId: number;
+  // Show "Save"/"Saved" next to the heart
+  showLabel?: boolean;
+  className?: string;
+}
+
+// Heart toggle for saving a listing; hidden for users who can't save homes
+export default function FavouriteButton({ propertyId, showLabel = false, className }: FavouriteButtonProps) {
+  const { canSave, isSaved, toggle, isPending } = useFavourites();
+
+  if (!canSave) return null;
+
+  const saved = isSaved(propertyId);
+
+  const handleClick = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    toggle(propertyId);
+  };
+
+  return (
+    <Button
+      size={showLabel ? "sm" : "icon"}
+      variant="outline"
+      className={cn(!showLabel && "h-8 w-8 rounded-full bg-white hover:bg-neutral-100", className)}
+      onClick={handleClick}
+      disabled={isPending}
+      aria-pressed={saved}
+      title={saved ? "Remove from saved homes" : "Save this home"}
+    >
+      <Heart className={cn("h-4 w-4", saved ? "fill-red-500 text-red-500" : "text-neutral-700")} />
+      {showLabel ? <span className="ml-2">{saved ? "Saved" : "Save"}</span> : <span className="sr-only">{saved ? "Saved" : "Save"}</span>}
+    </Button>
+  );
+}
@@ -0,0 +1,67 @@
+import { MapContainer, Marker, TileLayer, useMapEvents } from "react-leaflet";
+import { Button } from "@/components/ui/button";
+import { MapPin, X } from "lucide-react";
+import { tileLayer, defaultCenter, defaultZoom } from "@/lib/map";
+
+interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+interface LocationPickerProps {
+  value: Coordinates | null;
+  onChange: (value: Coordinates | null) => void;
+}
+
+function ClickToPlace({ onChange }: Pick<LocationPickerProps, "onChange">) {
+  useMapEvents({
+    click: (e) => onChange({ latitude: e.latlng.lat, longitude: e.latlng.lng }),
+  });
+  return null;
+}
+
+export default function LocationPicker({ value, onChange }: LocationPickerProps) {
+  const center: [number, number] = value ? [value.latitude, value.longitude] : defaultCenter;
+
+  return (
+    <div className="space-y-2">
+      <div className="h-64 rounded-md overflow-hidden border border-neutral-200">
+        <MapContainer
+          center={center}
+          zoom={value ? 15 : defaultZoom}
+          className="h-full w-full"
+          scrollWheelZoom={false}
+        >
+          <TileLayer url={tileLayer.url} attribution={tileLayer.attribution} />
+          <ClickToPlace onChange={onChange} />
+          {value && (
+            <Marker
+              position={[value.latitude, value.longitude]}
+              draggable
+              eventHandlers={{
+                dragend: (e) => {
+                  const { lat, lng } = e.target.getLatLng();
+                  onChange({ latitude: lat, longitude: lng });
+                },
+              }}
+            />
+          )}
+        </MapContainer>
+      </div>
+      <div className="flex items-center justify-between text-sm text-neutral-600">
+        <span className="flex items-center">
+          <MapPin className="h-4 w-4 mr-1" />
+          {value
+            ? `${value.latitude.toFixed(5)}, ${value.longitude.toFixed(5)}`
+            : "Click the map to drop a pin on the property"}
+        </span>
+        {value && (
+          <Button type="button" variant="ghost" size="sm" onClick={() => onChange(null)}>
+            <X className="h-4 w-4 mr-1" />
+            Clear pin
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { formatCompactPrice } from "@/lib/map";
+import { formatCurrency, formatDate } from "@/lib/utils";
+import { PriceHistoryEntry } from "@shared/schema";
+
+interface PriceHistoryChartProps {
+  // Oldest first, as returned by the price history endpoint
+  history: PriceHistoryEntry[];
+}
+
+const chartConfig = {
+  price: {
+    label: "Asking price",
+    color: "hsl(var(--primary))",
+  },
+} satisfies ChartConfig;
+
+// Asking price over time as a step line, carried on to today
+export default function PriceHistoryChart({ history }: PriceHistoryChartProps) {
+  const points = history.map((entry) => ({
+    time: new Date(entry.recordedAt).getTime(),
+    price: entry.price,
+  }));
+  const latest = points[points.length - 1];
+  if (latest && latest.time < Date.now()) {
+    points.push({ time: Date.now(), price: latest.price });
+  }
+
+  return (
+    <ChartContainer config={chartConfig} className="h-56 w-full">
+      <LineChart data={points} margin={{ left: 8, right: 8, top: 8 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis
+          dataKey="time"
+          type="number"
+          scale="time"
+          domain={["dataMin", "dataMax"]}
+          tickFormatter={(time: number) => formatDate(new Date(time))}
+          tickLine={false}
+          axisLine={false}
+          minTickGap={40}
+        />
+        <YAxis
+          dataKey="price"
+          tickFormatter={(price: number) => formatCompactPrice(price)}
+          tickLine={false}
+          axisLine={false}
+          width={56}
+          domain={["auto", "auto"]}
+        />
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              labelFormatter={(_, payload) => formatDate(new Date(payload[0]?.payload.time))}
+              formatter={(value) => formatCurrency(Number(value))}
+            />
+          }
+        />
+        <Line
+          dataKey="price"
+          type="stepAfter"
+          stroke="var(--color-price)"
+          strokeWidth={2}
+          dot={false}
+          isAnimationActive={false}
+        />
+      </LineChart>
+    </ChartContainer>
+  );
+}
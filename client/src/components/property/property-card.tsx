@@ -1,12 +1,13 @@
-import { Heart } from "lucide-react";
 import { Link } from "wouter";
 import { Button } from "@/components/ui/button";
 import { formatCurrency, truncateText } from "@/lib/utils";
-import { Property } from "@shared/schema";
-import { Badge } from "@/components/ui/badge";
+import { PropertySearchResult } from "@shared/schema";
+import FavouriteButton from "@/components/property/favourite-button";
+import CompareButton from "@/components/property/compare-button";
+import StatusBadge from "@/components/property/status-badge";
 
 interface PropertyCardProps {
-  property: Property;
+  property: PropertySearchResult;
   onChatClick?: (propertyId: number, sellerId: number) => void;
 }
 
@@ -30,16 +31,10 @@ export default function PropertyCard({ property, onChatClick }: PropertyCardProp
           className="absolute h-full w-full object-cover transition-transform hover:scale-105"
         />
         <div className="absolute top-2 left-2">
-          <Badge variant="secondary" className="bg-primary text-white">For Sale</Badge>
+          <StatusBadge status={property.status} />
         </div>
         <div className="absolute top-2 right-2">
-          <Button
-            size="icon"
-            variant="outline"
-            className="h-8 w-8 rounded-full bg-white hover:bg-neutral-100"
-          >
-            <Heart className="h-4 w-4 text-neutral-700" />
-          </Button>
+          <FavouriteButton propertyId={id} />
         </div>
       </div>
       
@@ -49,6 +44,7 @@ export default function PropertyCard({ property, onChatClick }: PropertyCardProp
             <p className="text-lg font-semibold text-neutral-900 mb-1">{formatCurrency(price)}</p>
             <h3 className="text-base font-medium leading-tight mb-2">{truncateText(title, 40)}</h3>
           </div>
+          <CompareButton property={property} className="-mr-2 shrink-0" />
         </div>
         
         <p className="text-neutral-600 text-sm mb-3 flex items-center">
@@ -56,6 +52,11 @@ export default function PropertyCard({ property, onChatClick }: PropertyCardProp
             <path fillRule="evenodd" d="M5.05 4.05a7 7 0 119.9 9.9L10 18.9l-4.95-4.95a7 7 0 010-9.9zM10 11a2 2 0 100-4 2 2 0 000 4z" clipRule="evenodd" />
           </svg>
           {truncateText(address, 35)}
+          {property.distance != null && (
+            <span className="ml-auto pl-2 text-xs text-neutral-500 whitespace-nowrap">
+              {property.distance} km away
+            </span>
+          )}
         </p>
         
         <div className="flex items-center justify-between mb-3 text-neutral-600 text-sm">
@@ -2,7 +2,7 @@ import { useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { insertPropertySchema, Property } from "@shared/schema";
+import { insertPropertySchema, amenityOptions, Property, Amenity } from "@shared/schema";
 import { Button } from "@/components/ui/button";
 import {
   Form,
@@ -21,10 +21,14 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { formatAmenity } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { ArrowLeft, Loader2, UploadCloud, X } from "lucide-react";
 import { useLocation } from "wouter";
+import LocationPicker from "./location-picker";
+import AddressAutocomplete from "./address-autocomplete";
 
 // Create a schema that extends the insertPropertySchema for the form
 const propertyFormSchema = z.object({
@@ -38,6 +42,9 @@ const propertyFormSchema = z.object({
   bathrooms: z.coerce.number().optional(),
   squareFeet: z.coerce.number().optional(),
   yearBuilt: z.coerce.number().optional(),
+  latitude: z.number().min(-90).max(90).optional(),
+  longitude: z.number().min(-180).max(180).optional(),
+  amenities: z.array(z.enum(amenityOptions)),
 });
 
 type PropertyFormValues = z.infer<typeof propertyFormSchema>;
@@ -65,6 +72,9 @@ export default function PropertyForm({ property, onBack }: PropertyFormProps) {
     bathrooms: property?.bathrooms || undefined,
     squareFeet: property?.squareFeet || undefined,
     yearBuilt: property?.yearBuilt || undefined,
+    latitude: property?.latitude ?? undefined,
+    longitude: property?.longitude ?? undefined,
+    amenities: (property?.amenities as Amenity[]) || [],
   };
 
   const form = useForm<PropertyFormValues>({
@@ -101,7 +111,8 @@ export default function PropertyForm({ property, onBack }: PropertyFormProps) {
     setImageUrls((prev) => prev.filter((_, i) => i !== index));
   };
 
-  const onSubmit = async (data: PropertyFormValues) => {
+  // New listings can be kept as a draft instead of going on the market
+  const onSubmit = async (data: PropertyFormValues, asDraft = false) => {
     try {
       setIsSubmitting(true);
 
@@ -109,11 +120,16 @@ export default function PropertyForm({ property, onBack }: PropertyFormProps) {
       const formData = new FormData();
 
       // Add all form fields
-      Object.entries(data).forEach(([key, value]) => {
+      const { amenities, ...fields } = data;
+      Object.entries(fields).forEach(([key, value]) => {
         if (value !== undefined && value !== null) {
           formData.append(key, value.toString());
         }
       });
+      formData.append("amenities", JSON.stringify(amenities));
+      if (!property) {
+        formData.append("status", asDraft ? "draft" : "pending_review");
+      }
 
       // Add images
       images.forEach((image) => {
@@ -148,11 +164,17 @@ export default function PropertyForm({ property, onBack }: PropertyFormProps) {
       }
 
       // Success message
+      const saved: Property = await response.json();
+      const sentForReview = saved.status === "pending_review" && property?.status !== "pending_review";
       toast({
-        title: property ? "Property updated" : "Property created",
-        description: property 
-          ? "Your property has been updated successfully" 
-          : "Your property has been listed successfully",
+        title: property ? "Property updated" : asDraft ? "Draft saved" : "Property submitted",
+        description: sentForReview
+          ? property
+            ? "Your changes will be visible to buyers once a moderator has reviewed them"
+            : "Your property will be listed once a moderator has reviewed it"
+          : asDraft
+            ? "Your draft is saved. Submit it for review from your dashboard when it's ready."
+            : "Your property has been updated successfully",
       });
 
       // Invalidate queries to reflect changes
@@ -204,7 +226,7 @@ export default function PropertyForm({ property, onBack }: PropertyFormProps) {
 
       <div className="bg-white shadow rounded-lg p-6">
         <Form {...form}>
-          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+          <form onSubmit={form.handleSubmit((data) => onSubmit(data))} className="space-y-6">
             <FormField
               control={form.control}
               name="title"
@@ -229,9 +251,16 @@ export default function PropertyForm({ property, onBack }: PropertyFormProps) {
                 <FormItem>
                   <FormLabel>Address</FormLabel>
                   <FormControl>
-                    <Input
+                    <AddressAutocomplete
                       placeholder="e.g. 245 Palm Grove, Miami, FL"
                       {...field}
+                      onSelect={(suggestion) => {
+                        // Start the pin at the city if the seller hasn't placed one
+                        if (form.getValues("latitude") === undefined) {
+                          form.setValue("latitude", suggestion.latitude);
+                          form.setValue("longitude", suggestion.longitude);
+                        }
+                      }}
                     />
                   </FormControl>
                   <FormMessage />
@@ -239,6 +268,29 @@ export default function PropertyForm({ property, onBack }: PropertyFormProps) {
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="latitude"
+              render={({ field }) => {
+                const longitude = form.watch("longitude");
+                return (
+                  <FormItem>
+                    <FormLabel>Map Location (optional)</FormLabel>
+                    <LocationPicker
+                      value={field.value !== undefined && longitude !== undefined
+                        ? { latitude: field.value, longitude }
+                        : null}
+                      onChange={(value) => {
+                        field.onChange(value?.latitude);
+                        form.setValue("longitude", value?.longitude);
+                      }}
+                    />
+                    <FormMessage />
+                  </FormItem>
+                );
+              }}
+            />
+
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
               <FormField
                 control={form.control}
@@ -373,6 +425,34 @@ export default function PropertyForm({ property, onBack }: PropertyFormProps) {
               />
             </div>
 
+            <FormField
+              control={form.control}
+              name="amenities"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Amenities</FormLabel>
+                  <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                    {amenityOptions.map((amenity) => (
+                      <label key={amenity} className="flex items-center space-x-2 text-sm">
+                        <Checkbox
+                          checked={field.value.includes(amenity)}
+                          onCheckedChange={(checked) =>
+                            field.onChange(
+                              checked
+                                ? [...field.value, amenity]
+                                : field.value.filter((value) => value !== amenity)
+                            )
+                          }
+                        />
+                        <span>{formatAmenity(amenity)}</span>
+                      </label>
+                    ))}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <FormField
               control={form.control}
               name="contactNumber"
@@ -506,9 +586,19 @@ export default function PropertyForm({ property, onBack }: PropertyFormProps) {
               >
                 Cancel
               </Button>
+              {!property && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  disabled={isSubmitting}
+                  onClick={form.handleSubmit((data) => onSubmit(data, true))}
+                >
+                  Save as Draft
+                </Button>
+              )}
               <Button type="submit" disabled={isSubmitting}>
                 {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                {property ? "Update Property" : "Add Property"}
+                {property ? "Update Property" : "Submit for Review"}
               </Button>
             </div>
           </form>
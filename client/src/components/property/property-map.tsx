@@ -0,0 +1,186 @@
+import { useEffect, useRef, useState } from "react";
+import { MapContainer, Marker, Popup, TileLayer, useMap, useMapEvents } from "react-leaflet";
+import { Link } from "wouter";
+import L from "leaflet";
+import { Button } from "@/components/ui/button";
+import { formatCurrency } from "@/lib/utils";
+import {
+  tileLayer,
+  defaultCenter,
+  defaultZoom,
+  clusterPoints,
+  formatCompactPrice,
+  toBboxParam,
+  type PointCluster,
+} from "@/lib/map";
+import { MapViewport } from "@/lib/search-state";
+import { PropertyPin } from "@shared/schema";
+import { Search } from "lucide-react";
+
+interface PropertyMapProps {
+  pins: PropertyPin[];
+  // Set while results are limited to an area picked on the map
+  bbox: string;
+  // Where to look, when restoring a search; otherwise the map frames the pins
+  viewport: MapViewport | null;
+  highlightedId: number | null;
+  onHighlight: (propertyId: number | null) => void;
+  onSearchArea: (bbox: string) => void;
+  onViewportChange: (viewport: MapViewport) => void;
+}
+
+// Viewports closer than this (about a metre) count as the same
+const sameViewport = (a: MapViewport, b: MapViewport) =>
+  a.zoom === b.zoom && Math.abs(a.lat - b.lat) < 1e-5 && Math.abs(a.lng - b.lng) < 1e-5;
+
+function markerIcon(label: string, className: string) {
+  return L.divIcon({
+    className: `map-price-marker ${className}`,
+    html: `<span>${label}</span>`,
+    iconSize: [0, 0],
+  });
+}
+
+function clusterIcon(cluster: PointCluster<PropertyPin>, highlighted: boolean) {
+  const lowest = Math.min(...cluster.points.map(pin => pin.price));
+  return markerIcon(
+    `${cluster.points.length} homes from ${formatCompactPrice(lowest)}`,
+    `map-cluster-marker${highlighted ? " highlighted" : ""}`
+  );
+}
+
+function PinLayer({ pins, bbox, viewport, highlightedId, onHighlight, onSearchArea, onViewportChange }: PropertyMapProps) {
+  const map = useMap();
+  const [clusters, setClusters] = useState<PointCluster<PropertyPin>[]>([]);
+  const [moved, setMoved] = useState(false);
+  // Set while the map is being framed by code rather than the user
+  const framing = useRef(false);
+  // A restored viewport wins over framing the first set of pins
+  const restoredViewport = useRef(viewport !== null);
+  const searchAreaRef = useRef<HTMLDivElement>(null);
+
+  const recluster = () => setClusters(clusterPoints(map, pins));
+
+  useMapEvents({
+    zoomend: recluster,
+    // Only offer "search this area" once the user has panned or zoomed
+    moveend: () => {
+      if (framing.current) {
+        framing.current = false;
+      } else {
+        setMoved(true);
+      }
+      const center = map.getCenter();
+      onViewportChange({ lat: center.lat, lng: center.lng, zoom: map.getZoom() });
+    },
+  });
+
+  useEffect(recluster, [map, pins]);
+
+  // Keep clicks on the button from reaching the map underneath
+  useEffect(() => {
+    if (searchAreaRef.current) {
+      L.DomEvent.disableClickPropagation(searchAreaRef.current);
+    }
+  }, [moved]);
+
+  // Frame the results, unless they were picked by the viewport itself
+  useEffect(() => {
+    if (bbox || !pins.length) return;
+    if (restoredViewport.current) {
+      restoredViewport.current = false;
+      return;
+    }
+    framing.current = true;
+    map.fitBounds(
+      L.latLngBounds(pins.map(pin => [pin.latitude, pin.longitude] as [number, number])),
+      { padding: [40, 40], maxZoom: 14 }
+    );
+    setMoved(false);
+  }, [map, pins, bbox]);
+
+  // Follow the viewport when it changes from outside, e.g. going back
+  useEffect(() => {
+    if (!viewport) return;
+    const center = map.getCenter();
+    if (!sameViewport(viewport, { lat: center.lat, lng: center.lng, zoom: map.getZoom() })) {
+      framing.current = true;
+      map.setView([viewport.lat, viewport.lng], viewport.zoom);
+    }
+  }, [map, viewport?.lat, viewport?.lng, viewport?.zoom]);
+
+  const handleSearchArea = () => {
+    onSearchArea(toBboxParam(map.getBounds()));
+    setMoved(false);
+  };
+
+  return (
+    <>
+      {moved && (
+        <div ref={searchAreaRef} className="absolute top-3 left-1/2 -translate-x-1/2 z-[1000]">
+          <Button size="sm" className="shadow-md" onClick={handleSearchArea}>
+            <Search className="h-4 w-4 mr-2" />
+            Search this area
+          </Button>
+        </div>
+      )}
+      {clusters.map(cluster => {
+        const highlighted = cluster.points.some(pin => pin.id === highlightedId);
+
+        if (cluster.points.length > 1) {
+          return (
+            <Marker
+              key={cluster.key}
+              position={[cluster.latitude, cluster.longitude]}
+              icon={clusterIcon(cluster, highlighted)}
+              zIndexOffset={highlighted ? 1000 : 0}
+              eventHandlers={{
+                click: () => map.fitBounds(
+                  L.latLngBounds(cluster.points.map(pin => [pin.latitude, pin.longitude] as [number, number])),
+                  { padding: [40, 40] }
+                ),
+              }}
+            />
+          );
+        }
+
+        const [pin] = cluster.points;
+        return (
+          <Marker
+            key={cluster.key}
+            position={[pin.latitude, pin.longitude]}
+            icon={markerIcon(formatCompactPrice(pin.price), highlighted ? "highlighted" : "")}
+            zIndexOffset={highlighted ? 1000 : 0}
+            eventHandlers={{
+              mouseover: () => onHighlight(pin.id),
+              mouseout: () => onHighlight(null),
+            }}
+          >
+            <Popup>
+              <Link href={`/property/${pin.id}`} className="block">
+                <p className="font-semibold">{formatCurrency(pin.price)}</p>
+                <p className="text-neutral-600">{pin.title}</p>
+                <p className="text-neutral-500 capitalize">{pin.propertyType}</p>
+              </Link>
+            </Popup>
+          </Marker>
+        );
+      })}
+    </>
+  );
+}
+
+export default function PropertyMap(props: PropertyMapProps) {
+  return (
+    <div className="relative h-full w-full rounded-lg overflow-hidden border border-neutral-200">
+      <MapContainer
+        center={props.viewport ? [props.viewport.lat, props.viewport.lng] : defaultCenter}
+        zoom={props.viewport?.zoom ?? defaultZoom}
+        className="h-full w-full"
+      >
+        <TileLayer url={tileLayer.url} attribution={tileLayer.attribution} />
+        <PinLayer {...props} />
+      </MapContainer>
+    </div>
+  );
+}
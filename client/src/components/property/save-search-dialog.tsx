@@ -0,0 +1,138 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { SavedSearchFrequency } from "@shared/schema";
+import { Bookmark, Loader2 } from "lucide-react";
+
+interface SaveSearchDialogProps {
+  // The filters to save, as GET /api/properties query parameters
+  query: string;
+  // Suggested name, e.g. the search text
+  defaultName: string;
+}
+
+export const frequencyLabels: Record<SavedSearchFrequency, string> = {
+  instant: "As soon as they're listed",
+  daily: "Once a day",
+};
+
+export default function SaveSearchDialog({ query, defaultName }: SaveSearchDialogProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [frequency, setFrequency] = useState<SavedSearchFrequency>("instant");
+  const [emailEnabled, setEmailEnabled] = useState(true);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/saved-searches", { name, query, frequency, emailEnabled });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/saved-searches"] });
+      toast({
+        title: "Search saved",
+        description: "We'll let you know when new listings match.",
+      });
+      setOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not save search",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleOpenChange = (open: boolean) => {
+    if (open) setName(defaultName);
+    setOpen(open);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Bookmark className="h-4 w-4 mr-1" />
+          Save search
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            saveMutation.mutate();
+          }}
+        >
+          <DialogHeader>
+            <DialogTitle>Save this search</DialogTitle>
+            <DialogDescription>
+              Get notified about new listings that match your current filters. Manage alerts from{" "}
+              <Link href="/saved-searches" className="text-primary underline">Saved searches</Link>.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="saved-search-name">Name</Label>
+              <Input
+                id="saved-search-name"
+                value={name}
+                maxLength={100}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Family homes in Austin"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Alert me</Label>
+              <Select value={frequency} onValueChange={(value) => setFrequency(value as SavedSearchFrequency)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(frequencyLabels) as SavedSearchFrequency[]).map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {frequencyLabels[option]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Switch id="saved-search-email" checked={emailEnabled} onCheckedChange={setEmailEnabled} />
+              <Label htmlFor="saved-search-email" className="font-normal">Also send alerts by email</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="submit" disabled={!name.trim() || saveMutation.isPending}>
+              {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save search
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
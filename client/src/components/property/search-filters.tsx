@@ -8,7 +8,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Search, Filter } from "lucide-react";
+import { Search, Filter, LocateFixed, SlidersHorizontal } from "lucide-react";
 import {
   Sheet,
   SheetContent,
@@ -25,28 +25,75 @@ import {
   AccordionItem,
   AccordionTrigger,
 } from "@/components/ui/accordion";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
 import { Label } from "@/components/ui/label";
 import { Slider } from "@/components/ui/slider";
-import { formatCurrency } from "@/lib/utils";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { formatAmenity, formatCurrency } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { amenityOptions, Amenity } from "@shared/schema";
+import {
+  emptyDetailFilters,
+  emptyFilters,
+  DetailFilterValues,
+  SearchFilterValues,
+} from "@/lib/search-state";
 
-interface FilterValues {
-  search: string;
-  propertyType: string;
-  minPrice: number;
-  maxPrice: number;
-  location: string;
+function pickDetailFilters(filters: SearchFilterValues): DetailFilterValues {
+  const { minBedrooms, maxBedrooms, minBathrooms, maxBathrooms, minSquareFeet, maxSquareFeet, minYearBuilt, maxYearBuilt, amenities } = filters;
+  return { minBedrooms, maxBedrooms, minBathrooms, maxBathrooms, minSquareFeet, maxSquareFeet, minYearBuilt, maxYearBuilt, amenities };
 }
 
+const detailRanges = [
+  { label: "Bedrooms", min: "minBedrooms", max: "maxBedrooms" },
+  { label: "Bathrooms", min: "minBathrooms", max: "maxBathrooms" },
+  { label: "Square feet", min: "minSquareFeet", max: "maxSquareFeet" },
+  { label: "Year built", min: "minYearBuilt", max: "maxYearBuilt" },
+] as const;
+
+const radiusOptions = [1, 5, 10, 25, 50];
+
+// Top of the price slider, which means no upper bound
+const maxPriceBound = 2000000;
+
 interface SearchFiltersProps {
-  onFilterChange: (filters: FilterValues) => void;
+  // The applied filters; edits here only take effect once applied
+  value: SearchFilterValues;
+  onFilterChange: (filters: SearchFilterValues) => void;
 }
 
-export default function SearchFilters({ onFilterChange }: SearchFiltersProps) {
-  const [searchQuery, setSearchQuery] = useState("");
-  const [propertyType, setPropertyType] = useState("");
-  const [priceRange, setPriceRange] = useState<[number, number]>([0, 2000000]);
-  const [location, setLocation] = useState("");
+export default function SearchFilters({ value, onFilterChange }: SearchFiltersProps) {
+  const [searchQuery, setSearchQuery] = useState(value.search);
+  const [propertyType, setPropertyType] = useState(value.propertyType);
+  const [priceRange, setPriceRange] = useState<[number, number]>([value.minPrice, value.maxPrice || maxPriceBound]);
+  const [location, setLocation] = useState(value.location);
+  const [radiusKm, setRadiusKm] = useState(value.radiusKm);
+  const [position, setPosition] = useState<{ lat: number; lng: number } | null>(
+    value.lat !== null && value.lng !== null ? { lat: value.lat, lng: value.lng } : null
+  );
+  const [details, setDetails] = useState<DetailFilterValues>(pickDetailFilters(value));
   const [isMobile, setIsMobile] = useState(false);
+  const { toast } = useToast();
+
+  // Discard unapplied edits when the applied filters change underneath,
+  // e.g. on back/forward navigation
+  const appliedKey = JSON.stringify(value);
+  useEffect(() => {
+    setSearchQuery(value.search);
+    setPropertyType(value.propertyType);
+    setPriceRange([value.minPrice, value.maxPrice || maxPriceBound]);
+    setLocation(value.location);
+    setRadiusKm(value.radiusKm);
+    if (value.lat !== null && value.lng !== null) {
+      setPosition({ lat: value.lat, lng: value.lng });
+    }
+    setDetails(pickDetailFilters(value));
+  }, [appliedKey]);
 
   // Track window size for responsive behavior
   useEffect(() => {
@@ -62,6 +109,50 @@ export default function SearchFilters({ onFilterChange }: SearchFiltersProps) {
     };
   }, []);
 
+  // Distance filters need the user's position, which is asked for on first use
+  const handleRadiusChange = (value: string) => {
+    const radius = value === "any" ? 0 : Number(value);
+    setRadiusKm(radius);
+
+    if (!radius || position) return;
+
+    if (!navigator.geolocation) {
+      toast({
+        title: "Location unavailable",
+        description: "Your browser doesn't support location search.",
+        variant: "destructive",
+      });
+      setRadiusKm(0);
+      return;
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      ({ coords }) => setPosition({ lat: coords.latitude, lng: coords.longitude }),
+      () => {
+        toast({
+          title: "Location unavailable",
+          description: "Allow location access to search near you.",
+          variant: "destructive",
+        });
+        setRadiusKm(0);
+      }
+    );
+  };
+
+  const toggleAmenity = (amenity: Amenity, checked: boolean) => {
+    setDetails((current) => ({
+      ...current,
+      amenities: checked
+        ? [...current.amenities, amenity]
+        : current.amenities.filter((value) => value !== amenity),
+    }));
+  };
+
+  // Number of detail filters in use, shown on the "More filters" button
+  const activeDetailCount =
+    detailRanges.filter(({ min, max }) => details[min] > 0 || details[max] > 0).length +
+    details.amenities.length;
+
   const handleSearchSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     applyFilters();
@@ -72,26 +163,71 @@ export default function SearchFilters({ onFilterChange }: SearchFiltersProps) {
       search: searchQuery,
       propertyType: propertyType === "all" ? "" : propertyType,
       minPrice: priceRange[0],
-      maxPrice: priceRange[1],
+      maxPrice: priceRange[1] < maxPriceBound ? priceRange[1] : 0,
       location,
+      lat: radiusKm && position ? position.lat : null,
+      lng: radiusKm && position ? position.lng : null,
+      radiusKm: position ? radiusKm : 0,
+      ...details,
+      // The map area is set and cleared from the results
+      bbox: value.bbox,
     });
   };
 
   const resetFilters = () => {
     setSearchQuery("");
     setPropertyType("");
-    setPriceRange([0, 2000000]);
+    setPriceRange([0, maxPriceBound]);
     setLocation("");
+    setRadiusKm(0);
+    setDetails(emptyDetailFilters);
     
-    onFilterChange({
-      search: "",
-      propertyType: "",
-      minPrice: 0,
-      maxPrice: 0,
-      location: "",
-    });
+    onFilterChange(emptyFilters);
   };
 
+  // Min/max inputs for each numeric field plus the amenity checkboxes,
+  // shared by the desktop popover and the mobile sheet
+  const DetailFields = () => (
+    <div className="space-y-4">
+      {detailRanges.map(({ label, min, max }) => (
+        <div key={label} className="space-y-2">
+          <Label>{label}</Label>
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              min="0"
+              placeholder="Min"
+              value={details[min] || ""}
+              onChange={(e) => setDetails({ ...details, [min]: Number(e.target.value) || 0 })}
+            />
+            <span className="text-neutral-500">-</span>
+            <Input
+              type="number"
+              min="0"
+              placeholder="Max"
+              value={details[max] || ""}
+              onChange={(e) => setDetails({ ...details, [max]: Number(e.target.value) || 0 })}
+            />
+          </div>
+        </div>
+      ))}
+      <div className="space-y-2">
+        <Label>Amenities</Label>
+        <div className="grid grid-cols-2 gap-2">
+          {amenityOptions.map((amenity) => (
+            <label key={amenity} className="flex items-center space-x-2 text-sm">
+              <Checkbox
+                checked={details.amenities.includes(amenity)}
+                onCheckedChange={(checked) => toggleAmenity(amenity, checked === true)}
+              />
+              <span>{formatAmenity(amenity)}</span>
+            </label>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+
   // Desktop filter UI
   const DesktopFilters = () => (
     <div className="bg-white shadow rounded-lg p-4 mb-6">
@@ -130,13 +266,13 @@ export default function SearchFilters({ onFilterChange }: SearchFiltersProps) {
           <div className="w-full sm:w-auto">
             <Select 
               value={
-                priceRange[0] === 0 && priceRange[1] === 2000000
+                priceRange[0] === 0 && priceRange[1] === maxPriceBound
                   ? "any"
                   : `${priceRange[0]}-${priceRange[1]}`
               }
               onValueChange={(value) => {
                 if (value === "any") {
-                  setPriceRange([0, 2000000]);
+                  setPriceRange([0, maxPriceBound]);
                   return;
                 }
                 const [min, max] = value.split("-").map(Number);
@@ -157,6 +293,38 @@ export default function SearchFilters({ onFilterChange }: SearchFiltersProps) {
             </Select>
           </div>
           
+          <div className="w-full sm:w-auto">
+            <Select value={radiusKm ? String(radiusKm) : "any"} onValueChange={handleRadiusChange}>
+              <SelectTrigger className="w-[180px]">
+                <LocateFixed className="mr-2 h-4 w-4 text-neutral-500" />
+                <SelectValue placeholder="Distance" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Anywhere</SelectItem>
+                {radiusOptions.map((radius) => (
+                  <SelectItem key={radius} value={String(radius)}>
+                    Within {radius} km
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button type="button" variant="outline">
+                <SlidersHorizontal className="mr-2 h-4 w-4" />
+                More filters
+                {activeDetailCount > 0 && (
+                  <Badge variant="secondary" className="ml-2">{activeDetailCount}</Badge>
+                )}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent align="end" className="w-80 max-h-[70vh] overflow-y-auto">
+              {DetailFields()}
+            </PopoverContent>
+          </Popover>
+          
           <Button type="submit">
             <Filter className="mr-2 h-4 w-4" />
             Apply Filters
@@ -191,7 +359,7 @@ export default function SearchFilters({ onFilterChange }: SearchFiltersProps) {
                 Filters
               </Button>
             </SheetTrigger>
-            <SheetContent side="bottom" className="h-[80vh]">
+            <SheetContent side="bottom" className="h-[80vh] overflow-y-auto">
               <SheetHeader>
                 <SheetTitle>Filter Properties</SheetTitle>
                 <SheetDescription>
@@ -225,18 +393,37 @@ export default function SearchFilters({ onFilterChange }: SearchFiltersProps) {
                   />
                 </div>
                 
+                <div className="space-y-2">
+                  <Label>Distance</Label>
+                  <Select value={radiusKm ? String(radiusKm) : "any"} onValueChange={handleRadiusChange}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Anywhere" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="any">Anywhere</SelectItem>
+                      {radiusOptions.map((radius) => (
+                        <SelectItem key={radius} value={String(radius)}>
+                          Within {radius} km of me
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                
                 <div className="space-y-4">
                   <Label>Price Range: {formatCurrency(priceRange[0])} - {formatCurrency(priceRange[1])}</Label>
                   <Slider
-                    defaultValue={[0, 2000000]}
+                    defaultValue={[0, maxPriceBound]}
                     min={0}
-                    max={2000000}
+                    max={maxPriceBound}
                     step={50000}
                     value={priceRange}
                     onValueChange={(value: number[]) => setPriceRange(value as [number, number])}
                     className="mt-2"
                   />
                 </div>
+                
+                {DetailFields()}
               </div>
               
               <SheetFooter className="sm:justify-center">
@@ -260,5 +447,7 @@ export default function SearchFilters({ onFilterChange }: SearchFiltersProps) {
     </div>
   );
 
-  return isMobile ? <MobileFilters /> : <DesktopFilters />;
+  // Called rather than rendered as components: these are redefined on every
+  // render, so mounting them as elements would remount the inputs and drop focus
+  return isMobile ? MobileFilters() : DesktopFilters();
 }
@@ -0,0 +1,36 @@
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { ListingStatus } from "@shared/schema";
+
+export const statusLabels: Record<ListingStatus, string> = {
+  draft: "Draft",
+  pending_review: "Pending review",
+  active: "For Sale",
+  under_offer: "Under Offer",
+  sold: "Sold",
+  expired: "Expired",
+  rejected: "Rejected",
+};
+
+const statusStyles: Record<ListingStatus, string> = {
+  draft: "bg-neutral-200 text-neutral-800",
+  pending_review: "bg-yellow-100 text-yellow-800",
+  active: "bg-primary text-white",
+  under_offer: "bg-amber-500 text-white",
+  sold: "bg-red-600 text-white",
+  expired: "bg-neutral-500 text-white",
+  rejected: "bg-red-100 text-red-800",
+};
+
+interface StatusBadgeProps {
+  status: ListingStatus;
+  className?: string;
+}
+
+export default function StatusBadge({ status, className }: StatusBadgeProps) {
+  return (
+    <Badge variant="secondary" className={cn(statusStyles[status], className)}>
+      {statusLabels[status]}
+    </Badge>
+  );
+}
@@ -4,12 +4,12 @@ import {
   useMutation,
   UseMutationResult,
 } from "@tanstack/react-query";
-import { insertUserSchema, User as SelectUser } from "@shared/schema";
+import { insertUserSchema, SessionUser } from "@shared/schema";
 import { getQueryFn, apiRequest, queryClient } from "../lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { z } from "zod";
 
-type User = Omit<SelectUser, "password">;
+type User = SessionUser;
 
 type AuthContextType = {
   user: User | null;
@@ -39,6 +39,17 @@ type RegisterData = z.infer<typeof registerSchema>;
 
 export const AuthContext = createContext<AuthContextType | null>(null);
 
+// For when the session changes hands (an admin viewing as a user and back):
+// reloads so nothing cached or connected for the previous user is left over
+export function switchSessionUser(user: User | null, path: string) {
+  if (user) {
+    localStorage.setItem('user', JSON.stringify(user));
+  } else {
+    localStorage.removeItem('user');
+  }
+  window.location.assign(path);
+}
+
 export function AuthProvider({ children }: { children: ReactNode }) {
   const { toast } = useToast();
   
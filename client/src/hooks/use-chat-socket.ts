@@ -0,0 +1,194 @@
+import { useCallback, useEffect, useRef } from "react";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest } from "@/lib/queryClient";
+import { Message } from "@shared/schema";
+import {
+  ChatClientEvent,
+  ChatServerEvent,
+  chatCloseCodes,
+  chatProtocolVersion,
+  chatServerFrameSchema,
+  typingIntervalMs,
+} from "@shared/chat-protocol";
+
+// Sends waiting longer than this for their ack fail
+const ackTimeoutMs = 10000;
+const maxRetryDelayMs = 30000;
+
+type PendingSend = {
+  resolve: (message: Message) => void;
+  reject: (error: Error) => void;
+  timeout: ReturnType<typeof setTimeout>;
+};
+
+function send(ws: WebSocket, event: ChatClientEvent) {
+  if (ws.readyState !== WebSocket.OPEN) return false;
+  ws.send(JSON.stringify({ v: chatProtocolVersion, ...event }));
+  return true;
+}
+
+// The signed-in user's chat socket. The session cookie authenticates it, so
+// it's only opened once someone is signed in. It reconnects when dropped and
+// replays the messages missed in the meantime as "message" events.
+// onEvent gets everything the server pushes other than acks, which settle
+// the sendMessage promises; "resumed" only reaches it when there were too
+// many missed messages to replay, and the chats should be reloaded.
+export function useChatSocket(onEvent: (event: ChatServerEvent) => void) {
+  const { user } = useAuth();
+  const wsRef = useRef<WebSocket | null>(null);
+  const pendingRef = useRef(new Map<string, PendingSend>());
+  const nextRefRef = useRef(0);
+  // When "typing" was last sent for each chat
+  const lastTypingRef = useRef(new Map<number, number>());
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+    const pending = pendingRef.current;
+    // The newest message this page has had, so a reconnect can pick up after it
+    let lastSeenId: number | undefined;
+    let ws: WebSocket;
+    let retry: ReturnType<typeof setTimeout> | undefined;
+    let attempts = 0;
+    let stopped = false;
+
+    const seen = (message: Message) => {
+      lastSeenId = Math.max(lastSeenId ?? 0, message.id);
+    };
+
+    const handle = (frame: ChatServerEvent) => {
+      switch (frame.type) {
+        case "ready":
+          if (lastSeenId === undefined) {
+            lastSeenId = frame.lastMessageId;
+          } else if (frame.lastMessageId > lastSeenId) {
+            send(ws, { type: "resume", afterMessageId: lastSeenId });
+          }
+          return;
+        case "resumed":
+          frame.messages.forEach((message) => {
+            seen(message);
+            onEventRef.current({ type: "message", message });
+          });
+          if (!frame.complete) onEventRef.current(frame);
+          return;
+        case "message":
+          seen(frame.message);
+          break;
+        case "ack":
+        case "error": {
+          const waiting = frame.ref ? pending.get(frame.ref) : undefined;
+          if (!waiting || !frame.ref) break;
+          pending.delete(frame.ref);
+          clearTimeout(waiting.timeout);
+          if (frame.type === "ack") {
+            seen(frame.message);
+            waiting.resolve(frame.message);
+          } else {
+            waiting.reject(new Error(frame.message));
+          }
+          return;
+        }
+      }
+      onEventRef.current(frame);
+    };
+
+    const connect = () => {
+      ws = new WebSocket(`${protocol}//${window.location.host}/ws/chat`);
+      wsRef.current = ws;
+
+      ws.onopen = () => {
+        attempts = 0;
+      };
+
+      ws.onmessage = (event) => {
+        let parsed;
+        try {
+          parsed = chatServerFrameSchema.safeParse(JSON.parse(event.data));
+        } catch {
+          return;
+        }
+        if (!parsed.success) {
+          console.warn("Ignoring an unexpected chat frame", parsed.error);
+          return;
+        }
+        handle(parsed.data as ChatServerEvent);
+      };
+
+      ws.onclose = (event) => {
+        pending.forEach(({ reject, timeout }) => {
+          clearTimeout(timeout);
+          reject(new Error("Lost the connection to the chat server"));
+        });
+        pending.clear();
+        if (wsRef.current === ws) wsRef.current = null;
+
+        if (stopped || event.code === chatCloseCodes.accountUnavailable || event.code === chatCloseCodes.sessionExpired) {
+          return;
+        }
+        // Backs off up to 30 seconds, spread out so tabs don't all come back at once
+        const delay = Math.min(maxRetryDelayMs, 1000 * Math.pow(2, attempts++));
+        retry = setTimeout(connect, delay / 2 + Math.random() * (delay / 2));
+      };
+    };
+
+    connect();
+
+    return () => {
+      stopped = true;
+      clearTimeout(retry);
+      wsRef.current = null;
+      ws.close();
+    };
+  }, [userId]);
+
+  const sendFrame = useCallback((event: ChatClientEvent) => {
+    const ws = wsRef.current;
+    return !!ws && send(ws, event);
+  }, []);
+
+  // Over the socket when it's open, otherwise through the API
+  const sendMessage = useCallback(
+    (chatId: number, content: string) =>
+      new Promise<Message>((resolve, reject) => {
+        const ref = String(++nextRefRef.current);
+        if (sendFrame({ type: "send", ref, chatId, content })) {
+          const timeout = setTimeout(() => {
+            pendingRef.current.delete(ref);
+            reject(new Error("The chat server didn't respond, try again"));
+          }, ackTimeoutMs);
+          pendingRef.current.set(ref, { resolve, reject, timeout });
+          return;
+        }
+
+        apiRequest("POST", "/api/messages", { chatId, content })
+          .then((res) => res.json())
+          .then(resolve, reject);
+      }),
+    [sendFrame],
+  );
+
+  // Safe to call on every keystroke; it's only sent once per typingIntervalMs
+  const sendTyping = useCallback(
+    (chatId: number) => {
+      const now = Date.now();
+      if (now - (lastTypingRef.current.get(chatId) ?? 0) < typingIntervalMs) return false;
+      if (!sendFrame({ type: "typing", chatId })) return false;
+      lastTypingRef.current.set(chatId, now);
+      return true;
+    },
+    [sendFrame],
+  );
+
+  const sendRead = useCallback(
+    (chatId: number, messageId: number) => sendFrame({ type: "read", chatId, messageId }),
+    [sendFrame],
+  );
+
+  return { sendMessage, sendTyping, sendRead };
+}
@@ -0,0 +1,46 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { FavouriteWithProperty } from "@shared/schema";
+import { hasPermission } from "@shared/permissions";
+
+// The signed-in buyer's saved homes; other roles can't save homes
+export function useFavourites() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const canSave = hasPermission(user, "favourites:save");
+
+  const { data: favourites = [], isLoading, error } = useQuery<FavouriteWithProperty[]>({
+    queryKey: ["/api/favourites"],
+    enabled: canSave,
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ propertyId, save }: { propertyId: number; save: boolean }) => {
+      await apiRequest(save ? "PUT" : "DELETE", `/api/favourites/${propertyId}`);
+    },
+    onSuccess: (_data, { save }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/favourites"] });
+      toast({
+        title: save ? "Saved to your homes" : "Removed from your homes",
+        description: save ? "We'll let you know if the price drops." : undefined,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update your saved homes. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isSaved = (propertyId: number) =>
+    favourites.some((favourite) => favourite.propertyId === propertyId);
+
+  const toggle = (propertyId: number) =>
+    toggleMutation.mutate({ propertyId, save: !isSaved(propertyId) });
+
+  return { canSave, favourites, isLoading, error, isSaved, toggle, isPending: toggleMutation.isPending };
+}
@@ -0,0 +1,39 @@
+import { useCallback, useMemo } from "react";
+import { useLocation, useSearch } from "wouter";
+import { parseSearchState, serializeSearchState, SearchState } from "@/lib/search-state";
+
+// Changing anything but these starts the results again from the first page
+const pagingKeys: (keyof SearchState)[] = ["page", "view", "map"];
+
+interface UpdateOptions {
+  // Replace the history entry instead of adding one, for changes too
+  // frequent to step back through such as panning the map
+  replace?: boolean;
+}
+
+// The home page search, read from and written to the query string
+export function useSearchState() {
+  const query = useSearch();
+  const [location, navigate] = useLocation();
+  const state = useMemo(() => parseSearchState(query), [query]);
+
+  const update = useCallback(
+    (changes: Partial<SearchState>, { replace = false }: UpdateOptions = {}) => {
+      const next = { ...state, ...changes };
+      const changesResults = (Object.keys(changes) as (keyof SearchState)[]).some(
+        (key) => !pagingKeys.includes(key)
+      );
+      if (changesResults && changes.page === undefined) {
+        next.page = 1;
+      }
+
+      const nextQuery = serializeSearchState(next);
+      if (nextQuery !== query) {
+        navigate(nextQuery ? `${location}?${nextQuery}` : location, { replace });
+      }
+    },
+    [state, query, location, navigate]
+  );
+
+  return [state, update] as const;
+}
@@ -0,0 +1,79 @@
+import { Property } from "@shared/schema";
+import { formatAmenity, formatCurrency } from "@/lib/utils";
+
+// Rows of the comparison table. best says which end of the range is the
+// better value; rows without one (like type) are never highlighted.
+export interface CompareRow {
+  label: string;
+  value: (property: Property) => number | null;
+  format: (property: Property) => string;
+  best: "lowest" | "highest" | null;
+}
+
+const pricePerSquareFoot = (property: Property) =>
+  property.squareFeet ? property.price / property.squareFeet : null;
+
+export const compareRows: CompareRow[] = [
+  {
+    label: "Price",
+    value: (property) => property.price,
+    format: (property) => formatCurrency(property.price),
+    best: "lowest",
+  },
+  {
+    label: "Price per sq ft",
+    value: pricePerSquareFoot,
+    format: (property) => {
+      const value = pricePerSquareFoot(property);
+      return value === null ? "—" : formatCurrency(Math.round(value));
+    },
+    best: "lowest",
+  },
+  {
+    label: "Bedrooms",
+    value: (property) => property.bedrooms,
+    format: (property) => property.bedrooms?.toString() ?? "—",
+    best: "highest",
+  },
+  {
+    label: "Bathrooms",
+    value: (property) => property.bathrooms,
+    format: (property) => property.bathrooms?.toString() ?? "—",
+    best: "highest",
+  },
+  {
+    label: "Year built",
+    value: (property) => property.yearBuilt,
+    format: (property) => property.yearBuilt?.toString() ?? "—",
+    best: "highest",
+  },
+  {
+    label: "Type",
+    value: () => null,
+    format: (property) => property.propertyType.charAt(0).toUpperCase() + property.propertyType.slice(1),
+    best: null,
+  },
+  {
+    label: "Amenities",
+    value: (property) => property.amenities.length,
+    format: (property) => property.amenities.length ? property.amenities.map(formatAmenity).join(", ") : "—",
+    best: "highest",
+  },
+];
+
+// Ids of the listings with the best value in a row. Nothing stands out when
+// fewer than two listings have a value or they're all the same.
+export function bestInRow(row: CompareRow, properties: Property[]): number[] {
+  if (!row.best) return [];
+
+  const values = properties
+    .map((property) => ({ id: property.id, value: row.value(property) }))
+    .filter((entry): entry is { id: number; value: number } => entry.value !== null);
+  if (values.length < 2) return [];
+
+  const numbers = values.map((entry) => entry.value);
+  const best = row.best === "lowest" ? Math.min(...numbers) : Math.max(...numbers);
+  if (numbers.every((value) => value === best)) return [];
+
+  return values.filter((entry) => entry.value === best).map((entry) => entry.id);
+}
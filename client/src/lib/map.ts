@@ -0,0 +1,75 @@
+import L from "leaflet";
+import markerIcon from "leaflet/dist/images/marker-icon.png";
+import markerIcon2x from "leaflet/dist/images/marker-icon-2x.png";
+import markerShadow from "leaflet/dist/images/marker-shadow.png";
+import "leaflet/dist/leaflet.css";
+
+// Leaflet resolves its default marker images relative to its CSS, which
+// breaks once bundled, so point it at the bundled assets instead
+L.Icon.Default.mergeOptions({
+  iconUrl: markerIcon,
+  iconRetinaUrl: markerIcon2x,
+  shadowUrl: markerShadow,
+});
+
+export const tileLayer = {
+  url: import.meta.env.VITE_MAP_TILE_URL || "https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png",
+  attribution: import.meta.env.VITE_MAP_TILE_ATTRIBUTION || "&copy; OpenStreetMap contributors",
+};
+
+// Shown when there is nothing to centre the map on
+export const defaultCenter: [number, number] = [39.8283, -98.5795];
+export const defaultZoom = 4;
+
+// Leaflet bounds as the "minLng,minLat,maxLng,maxLat" bbox the API expects
+export function toBboxParam(bounds: L.LatLngBounds): string {
+  const west = Math.max(bounds.getWest(), -180);
+  const east = Math.min(bounds.getEast(), 180);
+  return [west, bounds.getSouth(), east, bounds.getNorth()]
+    .map(value => value.toFixed(5))
+    .join(",");
+}
+
+// "$685K", "$1.2M": short enough for a marker label
+export function formatCompactPrice(value: number): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    notation: "compact",
+    maximumFractionDigits: 1,
+  }).format(value);
+}
+
+export interface PointCluster<T> {
+  key: string;
+  latitude: number;
+  longitude: number;
+  points: T[];
+}
+
+// Groups points that fall in the same cellSize-pixel square at the map's
+// current zoom. Good enough for the few hundred markers a search returns.
+export function clusterPoints<T extends { latitude: number; longitude: number }>(
+  map: L.Map,
+  points: T[],
+  cellSize = 60
+): PointCluster<T>[] {
+  const zoom = map.getZoom();
+  const cells: Record<string, T[]> = {};
+
+  for (const point of points) {
+    const { x, y } = map.project([point.latitude, point.longitude], zoom);
+    const key = `${Math.floor(x / cellSize)}:${Math.floor(y / cellSize)}`;
+    (cells[key] = cells[key] || []).push(point);
+  }
+
+  return Object.keys(cells).map(key => {
+    const cellPoints = cells[key];
+    return {
+      key: `${zoom}:${key}`,
+      latitude: cellPoints.reduce((sum, p) => sum + p.latitude, 0) / cellPoints.length,
+      longitude: cellPoints.reduce((sum, p) => sum + p.longitude, 0) / cellPoints.length,
+      points: cellPoints,
+    };
+  });
+}
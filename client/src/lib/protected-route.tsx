@@ -1,6 +1,7 @@
 import { useAuth } from "@/hooks/use-auth";
 import { Loader2 } from "lucide-react";
 import { Redirect, Route } from "wouter";
+import PasswordResetRequired from "@/pages/password-reset-required";
 
 export function ProtectedRoute({
   path,
@@ -19,6 +20,8 @@ export function ProtectedRoute({
         </div>
       ) : !user ? (
         <Redirect to="/auth" />
+      ) : user.mustResetPassword && !user.impersonation ? (
+        <PasswordResetRequired />
       ) : (
         <Component />
       )}
@@ -0,0 +1,212 @@
+import { amenityOptions, propertySortOptions, Amenity, PropertySort } from "@shared/schema";
+import { formatAmenity, formatCurrency } from "@/lib/utils";
+
+// The home page search lives in the query string so it survives refreshes,
+// can be shared and follows back/forward navigation. Filters use the same
+// names as GET /api/properties; defaults are left out of the URL.
+
+// Filters on the listing details; 0 means no bound
+export interface DetailFilterValues {
+  minBedrooms: number;
+  maxBedrooms: number;
+  minBathrooms: number;
+  maxBathrooms: number;
+  minSquareFeet: number;
+  maxSquareFeet: number;
+  minYearBuilt: number;
+  maxYearBuilt: number;
+  amenities: Amenity[];
+}
+
+export interface SearchFilterValues extends DetailFilterValues {
+  search: string;
+  propertyType: string;
+  // 0 means no bound
+  minPrice: number;
+  maxPrice: number;
+  location: string;
+  // Search around the user's position; radiusKm 0 means anywhere
+  lat: number | null;
+  lng: number | null;
+  radiusKm: number;
+  // "minLng,minLat,maxLng,maxLat" after "search this area" on the map
+  bbox: string;
+}
+
+export interface MapViewport {
+  lat: number;
+  lng: number;
+  zoom: number;
+}
+
+export interface SearchState extends SearchFilterValues {
+  // "" lets the results pick: see resolveSort
+  sort: PropertySort | "";
+  page: number;
+  view: "grid" | "map";
+  // Where the map was last looking, so a shared link opens the same area
+  map: MapViewport | null;
+}
+
+export const detailRangeKeys = [
+  "minBedrooms", "maxBedrooms", "minBathrooms", "maxBathrooms",
+  "minSquareFeet", "maxSquareFeet", "minYearBuilt", "maxYearBuilt",
+] as const;
+
+export const emptyDetailFilters: DetailFilterValues = {
+  minBedrooms: 0,
+  maxBedrooms: 0,
+  minBathrooms: 0,
+  maxBathrooms: 0,
+  minSquareFeet: 0,
+  maxSquareFeet: 0,
+  minYearBuilt: 0,
+  maxYearBuilt: 0,
+  amenities: [],
+};
+
+export const emptyFilters: SearchFilterValues = {
+  search: "",
+  propertyType: "",
+  minPrice: 0,
+  maxPrice: 0,
+  location: "",
+  lat: null,
+  lng: null,
+  radiusKm: 0,
+  ...emptyDetailFilters,
+  bbox: "",
+};
+
+export const defaultSearchState: SearchState = {
+  ...emptyFilters,
+  sort: "",
+  page: 1,
+  view: "grid",
+  map: null,
+};
+
+export const hasNearFilter = ({ lat, lng, radiusKm }: SearchFilterValues) =>
+  lat !== null && lng !== null && radiusKm > 0;
+
+// The sort sent to the API. Left to the results, text searches are ranked by
+// relevance and searches around a point by distance; relevance and distance
+// only apply to those searches.
+export function resolveSort(filters: SearchFilterValues, sort: PropertySort | ""): PropertySort {
+  if (sort === "relevance" && !filters.search) sort = "";
+  if (sort === "distance" && !hasNearFilter(filters)) sort = "";
+  return sort || (filters.search ? "relevance" : hasNearFilter(filters) ? "distance" : "newest");
+}
+
+// Filter query string for the list and map requests
+export function buildFilterParams(filters: SearchFilterValues): URLSearchParams {
+  const { search, propertyType, minPrice, maxPrice, location, lat, lng, radiusKm, amenities, bbox } = filters;
+  const params = new URLSearchParams();
+
+  if (search) params.append("search", search);
+  if (propertyType) params.append("type", propertyType);
+  if (minPrice > 0) params.append("minPrice", String(minPrice));
+  if (maxPrice > 0) params.append("maxPrice", String(maxPrice));
+  if (location) params.append("location", location);
+  if (hasNearFilter(filters)) {
+    params.append("lat", String(lat));
+    params.append("lng", String(lng));
+    params.append("radiusKm", String(radiusKm));
+  }
+  for (const key of detailRangeKeys) {
+    if (filters[key] > 0) params.append(key, String(filters[key]));
+  }
+  if (amenities.length) params.append("amenities", amenities.join(","));
+  if (bbox) params.append("bbox", bbox);
+
+  return params;
+}
+
+// Short labels for the filters in use, e.g. to summarise a saved search
+export function describeFilters(filters: SearchFilterValues): string[] {
+  // "3-5 beds", "3+ beds" or "Up to 5 beds"
+  const range = (min: number, max: number, format: (text: string) => string, value: (n: number) => string = String) =>
+    min && max ? format(`${value(min)}-${value(max)}`)
+      : min ? format(`${value(min)}+`)
+      : max ? format(`up to ${value(max)}`)
+      : null;
+  const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+  return [
+    filters.search && `"${filters.search}"`,
+    filters.propertyType && capitalize(filters.propertyType),
+    filters.location && `In ${filters.location}`,
+    range(filters.minPrice, filters.maxPrice, capitalize, formatCurrency),
+    hasNearFilter(filters) && `Within ${filters.radiusKm} km`,
+    filters.bbox && "Map area",
+    range(filters.minBedrooms, filters.maxBedrooms, (text) => capitalize(`${text} beds`)),
+    range(filters.minBathrooms, filters.maxBathrooms, (text) => capitalize(`${text} baths`)),
+    range(filters.minSquareFeet, filters.maxSquareFeet, (text) => capitalize(`${text} sq ft`)),
+    range(filters.minYearBuilt, filters.maxYearBuilt, (text) => `Built ${text}`),
+    ...filters.amenities.map(formatAmenity),
+  ].filter((label): label is string => Boolean(label));
+}
+
+export function serializeSearchState(state: SearchState): string {
+  const params = buildFilterParams(state);
+
+  if (state.sort) params.append("sort", state.sort);
+  if (state.page > 1) params.append("page", String(state.page));
+  if (state.view !== "grid") params.append("view", state.view);
+  if (state.map) {
+    const { lat, lng, zoom } = state.map;
+    params.append("map", `${lat.toFixed(5)},${lng.toFixed(5)},${zoom}`);
+  }
+
+  // Commas are fine in a query string and keep shared links readable
+  return params.toString().replace(/%2C/g, ",");
+}
+
+// Reads a query string, ignoring anything malformed rather than failing, as
+// URLs are edited by hand
+export function parseSearchState(query: string): SearchState {
+  const params = new URLSearchParams(query);
+  const text = (name: string) => params.get(name) ?? "";
+  const number = (name: string) => {
+    const value = Number(params.get(name));
+    return isFinite(value) && value > 0 ? value : 0;
+  };
+  const coordinate = (name: string) => {
+    const value = params.get(name);
+    return value !== null && value !== "" && isFinite(Number(value)) ? Number(value) : null;
+  };
+
+  const state: SearchState = {
+    ...defaultSearchState,
+    search: text("search"),
+    propertyType: text("type"),
+    minPrice: number("minPrice"),
+    maxPrice: number("maxPrice"),
+    location: text("location"),
+    lat: coordinate("lat"),
+    lng: coordinate("lng"),
+    radiusKm: number("radiusKm"),
+    amenities: text("amenities")
+      .split(",")
+      .filter((amenity): amenity is Amenity => amenityOptions.includes(amenity as Amenity)),
+    bbox: text("bbox"),
+    page: Math.floor(number("page")) || 1,
+    view: params.get("view") === "map" ? "map" : "grid",
+  };
+
+  for (const key of detailRangeKeys) {
+    state[key] = Math.floor(number(key));
+  }
+
+  const sort = params.get("sort");
+  if (sort && propertySortOptions.includes(sort as PropertySort)) {
+    state.sort = sort as PropertySort;
+  }
+
+  const [lat, lng, zoom] = text("map").split(",").map(Number);
+  if (isFinite(lat) && isFinite(lng) && zoom > 0) {
+    state.map = { lat, lng, zoom };
+  }
+
+  return state;
+}
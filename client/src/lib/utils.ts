@@ -18,6 +18,12 @@ export function truncateText(text: string, maxLength: number): string {
   return text.slice(0, maxLength) + '...';
 }
 
+// "air_conditioning" -> "Air conditioning"
+export function formatAmenity(amenity: string): string {
+  const label = amenity.replace(/_/g, ' ');
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
+
 export function getInitials(firstName: string, lastName: string): string {
   return (firstName.charAt(0) + lastName.charAt(0)).toUpperCase();
 }
@@ -37,3 +43,15 @@ export function formatTime(date: Date | string): string {
     hour12: true
   });
 }
+
+// "just now", "5 minutes ago", "yesterday"; anything over a week old is the date
+export function formatRelativeTime(date: Date | string): string {
+  const seconds = (Date.now() - new Date(date).getTime()) / 1000;
+  if (seconds < 60) return 'just now';
+
+  const relative = new Intl.RelativeTimeFormat('en-US', { numeric: 'auto' });
+  if (seconds < 60 * 60) return relative.format(-Math.floor(seconds / 60), 'minute');
+  if (seconds < 24 * 60 * 60) return relative.format(-Math.floor(seconds / (60 * 60)), 'hour');
+  if (seconds < 7 * 24 * 60 * 60) return relative.format(-Math.floor(seconds / (24 * 60 * 60)), 'day');
+  return formatDate(date);
+}
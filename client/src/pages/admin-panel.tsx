@@ -3,6 +3,11 @@ import { useQuery, useMutation } from "@tanstack/react-query";
 import { useLocation } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
 import MainLayout from "@/components/layout/main-layout";
+import StatusBadge from "@/components/property/status-badge";
+import ModerationQueue from "@/components/admin/moderation-queue";
+import UserActions from "@/components/admin/user-actions";
+import AuditLog from "@/components/admin/audit-log";
+import AnalyticsDashboard from "@/components/admin/analytics-dashboard";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import {
@@ -20,7 +25,8 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
-import { Property, User } from "@shared/schema";
+import { Property, SafeUser, UserRole, userRoles } from "@shared/schema";
+import { hasPermission, roleLabels } from "@shared/permissions";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import {
@@ -43,59 +49,51 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Loader2, Home, Users, MessageSquare, Eye, Trash, Search } from "lucide-react";
 import { formatCurrency, formatDate } from "@/lib/utils";
 
+const roleStyles: Record<UserRole, string> = {
+  buyer: "bg-green-100 text-green-800",
+  seller: "bg-blue-100 text-blue-800",
+  agent: "bg-sky-100 text-sky-800",
+  moderator: "bg-amber-100 text-amber-800",
+  admin: "bg-purple-100 text-purple-800",
+};
+
 export default function AdminPanel() {
   const { user } = useAuth();
   const { toast } = useToast();
   const [, navigate] = useLocation();
   const [searchTerm, setSearchTerm] = useState("");
-  const [activeTab, setActiveTab] = useState("properties");
   const [propertyToDelete, setPropertyToDelete] = useState<number | null>(null);
-  const [isPasswordVerified, setIsPasswordVerified] = useState(false);
-  const [adminPassword, setAdminPassword] = useState("");
-  const [verifyingPassword, setVerifyingPassword] = useState(false);
 
-  // Only admin can access this page
+  // Moderators get the listing tabs, admins everything
+  const canModerate = hasPermission(user, "listings:moderate");
+  const canViewUsers = hasPermission(user, "users:view");
+  const canManageListings = hasPermission(user, "listings:manage_any");
+  const canManageRoles = hasPermission(user, "users:manage_roles");
+  const canViewAudit = hasPermission(user, "audit:view");
+  const canViewAnalytics = hasPermission(user, "analytics:view");
+  const [activeTab, setActiveTab] = useState(canModerate ? "properties" : "users");
+
   useEffect(() => {
-    if (user && user.role !== "admin") {
+    if (user && !canModerate && !canViewUsers) {
       navigate("/");
       toast({
         title: "Access Denied",
-        description: "Only administrators can access this page.",
-        variant: "destructive",
-      });
-    }
-  }, [user, navigate, toast]);
-
-  // Verify admin password
-  const verifyPassword = async () => {
-    try {
-      setVerifyingPassword(true);
-      const response = await apiRequest("POST", "/api/admin/verify", { password: adminPassword });
-      const data = await response.json();
-      
-      if (data.verified) {
-        setIsPasswordVerified(true);
-      } else {
-        toast({
-          title: "Invalid Password",
-          description: "The admin password you entered is incorrect.",
-          variant: "destructive",
-        });
-      }
-    } catch (error) {
-      toast({
-        title: "Verification Error",
-        description: "An error occurred during verification.",
+        description: "You don't have access to the admin panel.",
         variant: "destructive",
       });
-    } finally {
-      setVerifyingPassword(false);
     }
-  };
+  }, [user, canModerate, canViewUsers, navigate, toast]);
 
   // Fetch all properties
   const {
@@ -104,7 +102,7 @@ export default function AdminPanel() {
     error: propertiesError,
   } = useQuery<Property[]>({
     queryKey: ["/api/admin/properties"],
-    enabled: isPasswordVerified && activeTab === "properties",
+    enabled: canModerate && activeTab === "properties",
   });
 
   // Fetch all users
@@ -112,9 +110,30 @@ export default function AdminPanel() {
     data: users,
     isLoading: isUsersLoading,
     error: usersError,
-  } = useQuery<User[]>({
+  } = useQuery<SafeUser[]>({
     queryKey: ["/api/admin/users"],
-    enabled: isPasswordVerified && activeTab === "users",
+    enabled: canViewUsers && activeTab === "users",
+  });
+
+  const roleMutation = useMutation({
+    mutationFn: async ({ userId, role }: { userId: number; role: UserRole }) => {
+      const res = await apiRequest("PATCH", `/api/admin/users/${userId}/role`, { role });
+      return (await res.json()) as SafeUser;
+    },
+    onSuccess: (updatedUser) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+      toast({
+        title: "Role updated",
+        description: `Changed ${updatedUser.username}'s role to ${roleLabels[updatedUser.role]}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
   });
 
   // Delete property mutation
@@ -162,51 +181,18 @@ export default function AdminPanel() {
   // Filter users based on search term
   const filteredUsers = users
     ? users.filter(
-        (user) =>
-          user.firstName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-          user.lastName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-          user.username.toLowerCase().includes(searchTerm.toLowerCase()) ||
-          user.email.toLowerCase().includes(searchTerm.toLowerCase())
+        (member) =>
+          member.firstName.toLowerCase().includes(searchTerm.toLowerCase()) ||
+          member.lastName.toLowerCase().includes(searchTerm.toLowerCase()) ||
+          member.username.toLowerCase().includes(searchTerm.toLowerCase()) ||
+          member.email.toLowerCase().includes(searchTerm.toLowerCase())
       )
     : [];
 
-  if (!user || user.role !== "admin") {
+  if (!user || (!canModerate && !canViewUsers)) {
     return null; // Protected route will handle redirect
   }
 
-  if (!isPasswordVerified) {
-    return (
-      <MainLayout>
-        <div className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
-          <div className="bg-white shadow rounded-lg p-6 max-w-md mx-auto mt-10">
-            <h2 className="text-xl font-bold text-neutral-900 mb-4">Admin Verification</h2>
-            <p className="text-neutral-600 mb-6">
-              Please enter the admin password to access the admin panel.
-            </p>
-            
-            <div className="space-y-4">
-              <Input
-                type="password"
-                placeholder="Admin password"
-                value={adminPassword}
-                onChange={(e) => setAdminPassword(e.target.value)}
-              />
-              
-              <Button 
-                className="w-full" 
-                onClick={verifyPassword}
-                disabled={!adminPassword || verifyingPassword}
-              >
-                {verifyingPassword && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                Verify Password
-              </Button>
-            </div>
-          </div>
-        </div>
-      </MainLayout>
-    );
-  }
-
   return (
     <MainLayout>
       <div className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
@@ -272,8 +258,11 @@ export default function AdminPanel() {
           <Tabs defaultValue="properties" value={activeTab} onValueChange={setActiveTab}>
             <div className="flex items-center justify-between mb-6">
               <TabsList>
-                <TabsTrigger value="properties">Properties</TabsTrigger>
-                <TabsTrigger value="users">Users</TabsTrigger>
+                {canModerate && <TabsTrigger value="properties">Properties</TabsTrigger>}
+                {canModerate && <TabsTrigger value="moderation">Moderation</TabsTrigger>}
+                {canViewUsers && <TabsTrigger value="users">Users</TabsTrigger>}
+                {canViewAnalytics && <TabsTrigger value="analytics">Analytics</TabsTrigger>}
+                {canViewAudit && <TabsTrigger value="audit">Audit log</TabsTrigger>}
               </TabsList>
               
               <div className="relative">
@@ -351,9 +340,7 @@ export default function AdminPanel() {
                                 <div className="text-sm text-neutral-900">{formatCurrency(property.price)}</div>
                               </TableCell>
                               <TableCell>
-                                <span className="px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800">
-                                  {property.active ? "Active" : "Inactive"}
-                                </span>
+                                <StatusBadge status={property.status} />
                               </TableCell>
                               <TableCell>
                                 <div className="text-sm text-neutral-500">
@@ -369,38 +356,40 @@ export default function AdminPanel() {
                                 >
                                   <Eye className="h-4 w-4" />
                                 </Button>
-                                <AlertDialog>
-                                  <AlertDialogTrigger asChild>
-                                    <Button
-                                      variant="ghost"
-                                      size="sm"
-                                      className="text-red-500 hover:text-red-700"
-                                      onClick={() => setPropertyToDelete(property.id)}
-                                    >
-                                      <Trash className="h-4 w-4" />
-                                    </Button>
-                                  </AlertDialogTrigger>
-                                  <AlertDialogContent>
-                                    <AlertDialogHeader>
-                                      <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
-                                      <AlertDialogDescription>
-                                        This will permanently delete the property listing. This action cannot be undone.
-                                      </AlertDialogDescription>
-                                    </AlertDialogHeader>
-                                    <AlertDialogFooter>
-                                      <AlertDialogCancel onClick={() => setPropertyToDelete(null)}>Cancel</AlertDialogCancel>
-                                      <AlertDialogAction
-                                        onClick={handleDeleteConfirm}
-                                        className="bg-red-500 hover:bg-red-600"
+                                {canManageListings && (
+                                  <AlertDialog>
+                                    <AlertDialogTrigger asChild>
+                                      <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        className="text-red-500 hover:text-red-700"
+                                        onClick={() => setPropertyToDelete(property.id)}
                                       >
-                                        {deleteMutation.isPending && (
-                                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                                        )}
-                                        Delete
-                                      </AlertDialogAction>
-                                    </AlertDialogFooter>
-                                  </AlertDialogContent>
-                                </AlertDialog>
+                                        <Trash className="h-4 w-4" />
+                                      </Button>
+                                    </AlertDialogTrigger>
+                                    <AlertDialogContent>
+                                      <AlertDialogHeader>
+                                        <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
+                                        <AlertDialogDescription>
+                                          This will permanently delete the property listing. This action cannot be undone.
+                                        </AlertDialogDescription>
+                                      </AlertDialogHeader>
+                                      <AlertDialogFooter>
+                                        <AlertDialogCancel onClick={() => setPropertyToDelete(null)}>Cancel</AlertDialogCancel>
+                                        <AlertDialogAction
+                                          onClick={handleDeleteConfirm}
+                                          className="bg-red-500 hover:bg-red-600"
+                                        >
+                                          {deleteMutation.isPending && (
+                                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                          )}
+                                          Delete
+                                        </AlertDialogAction>
+                                      </AlertDialogFooter>
+                                    </AlertDialogContent>
+                                  </AlertDialog>
+                                )}
                               </TableCell>
                             </TableRow>
                           );
@@ -412,6 +401,10 @@ export default function AdminPanel() {
               )}
             </TabsContent>
 
+            <TabsContent value="moderation">
+              <ModerationQueue enabled={canModerate && activeTab === "moderation"} />
+            </TabsContent>
+
             <TabsContent value="users">
               {isUsersLoading ? (
                 <div className="bg-white p-12 rounded-md shadow flex justify-center">
@@ -431,48 +424,81 @@ export default function AdminPanel() {
                         <TableHead>Username</TableHead>
                         <TableHead>Email</TableHead>
                         <TableHead>Role</TableHead>
+                        <TableHead>Status</TableHead>
                         <TableHead>Joined</TableHead>
+                        <TableHead className="text-right">Actions</TableHead>
                       </TableRow>
                     </TableHeader>
                     <TableBody>
                       {filteredUsers.length === 0 ? (
                         <TableRow>
-                          <TableCell colSpan={5} className="text-center py-6">
+                          <TableCell colSpan={7} className="text-center py-6">
                             No users found
                           </TableCell>
                         </TableRow>
                       ) : (
-                        filteredUsers.map((user) => (
-                          <TableRow key={user.id}>
+                        filteredUsers.map((member) => (
+                          <TableRow key={member.id}>
                             <TableCell>
                               <div className="flex items-center">
                                 <div className="text-sm font-medium text-neutral-900">
-                                  {user.firstName} {user.lastName}
+                                  {member.firstName} {member.lastName}
                                 </div>
                               </div>
                             </TableCell>
                             <TableCell>
-                              <div className="text-sm text-neutral-900">{user.username}</div>
+                              <div className="text-sm text-neutral-900">{member.username}</div>
+                            </TableCell>
+                            <TableCell>
+                              <div className="text-sm text-neutral-900">{member.email}</div>
                             </TableCell>
                             <TableCell>
-                              <div className="text-sm text-neutral-900">{user.email}</div>
+                              {canManageRoles && member.id !== user.id ? (
+                                <Select
+                                  value={member.role}
+                                  onValueChange={(role) => roleMutation.mutate({ userId: member.id, role: role as UserRole })}
+                                  disabled={roleMutation.isPending}
+                                >
+                                  <SelectTrigger className="h-8 w-[130px]">
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {userRoles.map((role) => (
+                                      <SelectItem key={role} value={role}>{roleLabels[role]}</SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                              ) : (
+                                <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${roleStyles[member.role]}`}>
+                                  {roleLabels[member.role]}
+                                </span>
+                              )}
                             </TableCell>
                             <TableCell>
-                              <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${
-                                user.role === "admin"
-                                  ? "bg-purple-100 text-purple-800"
-                                  : user.role === "seller"
-                                  ? "bg-blue-100 text-blue-800"
-                                  : "bg-green-100 text-green-800"
-                              }`}>
-                                {user.role.charAt(0).toUpperCase() + user.role.slice(1)}
-                              </span>
+                              {member.suspendedAt ? (
+                                <span
+                                  className="px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full bg-red-100 text-red-800"
+                                  title={member.suspensionReason ?? undefined}
+                                >
+                                  Suspended
+                                </span>
+                              ) : (
+                                <span className="px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800">
+                                  Active
+                                </span>
+                              )}
+                              {member.mustResetPassword && (
+                                <div className="text-xs text-neutral-500 mt-1">Password reset pending</div>
+                              )}
                             </TableCell>
                             <TableCell>
                               <div className="text-sm text-neutral-500">
-                                {formatDate(user.createdAt)}
+                                {formatDate(member.createdAt)}
                               </div>
                             </TableCell>
+                            <TableCell className="text-right">
+                              <UserActions member={member} users={users ?? []} />
+                            </TableCell>
                           </TableRow>
                         ))
                       )}
@@ -481,6 +507,14 @@ export default function AdminPanel() {
                 </div>
               )}
             </TabsContent>
+
+            <TabsContent value="analytics">
+              <AnalyticsDashboard enabled={canViewAnalytics && activeTab === "analytics"} />
+            </TabsContent>
+
+            <TabsContent value="audit">
+              <AuditLog enabled={canViewAudit && activeTab === "audit"} />
+            </TabsContent>
           </Tabs>
         </div>
       </div>
@@ -18,6 +18,8 @@ import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Loader2 } from "lucide-react";
+import { selfServiceRoles } from "@shared/schema";
+import { hasPermission } from "@shared/permissions";
 
 // Login form schema
 const loginSchema = z.object({
@@ -36,7 +38,7 @@ const registerSchema = z.object({
   email: z.string().email("Must be a valid email"),
   password: z.string().min(6, "Password must be at least 6 characters"),
   confirmPassword: z.string(),
-  role: z.enum(["buyer", "seller"]),
+  role: z.enum(selfServiceRoles),
   phoneNumber: z.string().optional(),
   terms: z.boolean().refine(val => val === true, {
     message: "You must agree to the terms and conditions",
@@ -56,9 +58,9 @@ export default function AuthPage() {
   // Redirect if already logged in, based on user role
   useEffect(() => {
     if (user) {
-      if (user.role === "seller") {
+      if (hasPermission(user, "listings:create")) {
         navigate("/seller/dashboard");
-      } else if (user.role === "admin") {
+      } else if (hasPermission(user, "listings:moderate") || hasPermission(user, "users:view")) {
         navigate("/admin");
       } else {
         navigate("/");
@@ -340,6 +342,12 @@ export default function AuthPage() {
                               </FormControl>
                               <FormLabel className="font-normal">Seller</FormLabel>
                             </FormItem>
+                            <FormItem className="flex items-center space-x-2 space-y-0">
+                              <FormControl>
+                                <RadioGroupItem value="agent" />
+                              </FormControl>
+                              <FormLabel className="font-normal">Agent</FormLabel>
+                            </FormItem>
                           </RadioGroup>
                         </FormControl>
                         <FormMessage />
@@ -1,29 +1,59 @@
 
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useRef, useCallback } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useLocation } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
+import { useChatSocket } from "@/hooks/use-chat-socket";
 import MainLayout from "@/components/layout/main-layout";
 import ChatInterface from "@/components/chat/chat-interface";
-import { Chat, Message } from "@shared/schema";
+import { Chat, Message, SessionUser, UserSettings } from "@shared/schema";
+import { Presence, typingIntervalMs } from "@shared/chat-protocol";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { Loader2 } from "lucide-react";
 import { useIsMobile } from "@/hooks/use-mobile";
 
+// Adds a message to its chat's cached messages unless it's already there
+function appendMessage(message: Message) {
+  queryClient.setQueryData([`/api/chats/${message.chatId}/messages`], (oldData: Message[] | undefined) => {
+    if (!oldData) return oldData;
+    return oldData.some((m) => m.id === message.id) ? oldData : [...oldData, message];
+  });
+}
+
+// Typing indicators go away when this long passes without another event
+const typingTimeoutMs = 2 * typingIntervalMs;
+
+type ChatParticipant = { firstName: string; lastName: string; id: number; presence: Presence };
+
 type ExtendedChat = Chat & {
-  property: { title: string; id: number };
-  seller?: { firstName: string; lastName: string; id: number };
-  buyer?: { firstName: string; lastName: string; id: number };
+  property: { title: string; id: number } | null;
+  seller?: ChatParticipant;
+  buyer?: ChatParticipant;
+  unreadCount: number;
 };
 
+function updateChat(chatId: number, update: (chat: ExtendedChat) => ExtendedChat) {
+  queryClient.setQueryData(["/api/chats"], (oldData: ExtendedChat[] | undefined) =>
+    oldData?.map((chat) => (chat.id === chatId ? update(chat) : chat)));
+}
+
+// Sets someone's presence in every chat you have with them
+function updatePresence(userId: number, presence: Presence) {
+  queryClient.setQueryData(["/api/chats"], (oldData: ExtendedChat[] | undefined) =>
+    oldData?.map((chat) => {
+      if (chat.seller?.id === userId) return { ...chat, seller: { ...chat.seller, presence } };
+      if (chat.buyer?.id === userId) return { ...chat, buyer: { ...chat.buyer, presence } };
+      return chat;
+    }));
+}
+
 export default function ChatInbox() {
   const { user } = useAuth();
   const { toast } = useToast();
   const isMobile = useIsMobile();
   const [location] = useLocation();
   const [activeChatId, setActiveChatId] = useState<number | null>(null);
-  const wsRef = useRef<WebSocket | null>(null);
   
   const query = new URLSearchParams(location.split("?")[1] || "");
   const chatIdFromUrl = query.get("chatId");
@@ -34,32 +64,68 @@ export default function ChatInbox() {
     }
   }, [chatIdFromUrl]);
 
-  useEffect(() => {
-    if (!user) return;
+  // Chats where the other participant is typing; cleared when their message
+  // arrives or they stop for a while
+  const [typingChatIds, setTypingChatIds] = useState<number[]>([]);
+  const typingTimers = useRef(new Map<number, ReturnType<typeof setTimeout>>());
 
-    const ws = new WebSocket(`${window.location.protocol === 'https:' ? 'wss:' : 'ws:'}//${window.location.host}/ws/chat?userId=${user.id}`);
-    wsRef.current = ws;
+  const setTyping = useCallback((chatId: number, isTyping: boolean) => {
+    clearTimeout(typingTimers.current.get(chatId));
+    typingTimers.current.delete(chatId);
+    if (isTyping) {
+      typingTimers.current.set(chatId, setTimeout(() => setTyping(chatId, false), typingTimeoutMs));
+    }
+    setTypingChatIds((chatIds) => {
+      const others = chatIds.filter((id) => id !== chatId);
+      return isTyping ? [...others, chatId] : others;
+    });
+  }, []);
 
-    ws.onmessage = (event) => {
-      const message = JSON.parse(event.data);
-      queryClient.invalidateQueries({ queryKey: [`/api/chats/${message.chatId}/messages`] });
-    };
+  useEffect(() => {
+    const timers = typingTimers.current;
+    return () => timers.forEach(clearTimeout);
+  }, []);
 
-    ws.onerror = (error) => {
-      console.error('WebSocket error:', error);
+  // New messages, from the other participant or your other tabs, land in
+  // their conversation as they arrive
+  const { sendMessage, sendTyping, sendRead } = useChatSocket((event) => {
+    if (event.type === "message") {
+      appendMessage(event.message);
+      if (event.message.senderId !== user?.id) setTyping(event.message.chatId, false);
+      const chats = queryClient.getQueryData<ExtendedChat[]>(["/api/chats"]);
+      if (!chats?.some((chat) => chat.id === event.message.chatId)) {
+        // A conversation someone just started
+        queryClient.invalidateQueries({ queryKey: ["/api/chats"] });
+      } else if (event.message.senderId !== user?.id) {
+        updateChat(event.message.chatId, (chat) => ({ ...chat, unreadCount: chat.unreadCount + 1 }));
+      }
+    } else if (event.type === "read") {
+      if (event.userId === user?.id) {
+        // Read in another tab
+        queryClient.invalidateQueries({ queryKey: ["/api/chats"] });
+      } else {
+        updateChat(event.chatId, (chat) =>
+          chat.buyerId === event.userId
+            ? { ...chat, buyerLastReadId: Math.max(chat.buyerLastReadId, event.messageId) }
+            : { ...chat, sellerLastReadId: Math.max(chat.sellerLastReadId, event.messageId) });
+      }
+    } else if (event.type === "typing") {
+      if (event.userId !== user?.id) setTyping(event.chatId, true);
+    } else if (event.type === "presence") {
+      updatePresence(event.userId, { online: event.online, lastSeenAt: event.lastSeenAt });
+    } else if (event.type === "resumed") {
+      queryClient.invalidateQueries({ queryKey: ["/api/chats"] });
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/chats/"),
+      });
+    } else if (event.type === "error") {
       toast({
-        title: "Connection Error",
-        description: "Failed to connect to chat server",
+        title: "Chat error",
+        description: event.message,
         variant: "destructive",
       });
-    };
-
-    return () => {
-      if (ws.readyState === WebSocket.OPEN) {
-        ws.close();
-      }
-    };
-  }, [user, toast]);
+    }
+  });
 
   const {
     data: chats,
@@ -69,13 +135,6 @@ export default function ChatInbox() {
     queryKey: ["/api/chats"],
     enabled: !!user,
     retry: 1,
-    onError: (error) => {
-      toast({
-        title: "Error Loading Chats",
-        description: "Please try signing in again",
-        variant: "destructive",
-      });
-    }
   });
 
   const {
@@ -88,24 +147,40 @@ export default function ChatInbox() {
     refetchInterval: 0, // Disable polling since we're using WebSocket
   });
 
-  const sendMessageMutation = useMutation({
-    mutationFn: async ({ chatId, content }: { chatId: number; content: string }) => {
-      if (!user) throw new Error("User not authenticated");
-      
-      const response = await apiRequest("POST", `/api/messages`, {
-        chatId,
-        senderId: user.id,
-        content,
-      });
-      
-      return response.json();
-    },
-    onSuccess: (newMessage) => {
-      // Don't send WebSocket message since the server will broadcast it
-      queryClient.setQueryData([`/api/chats/${newMessage.chatId}/messages`], (oldData: Message[] | undefined) => {
-        return oldData ? [...oldData, newMessage] : [newMessage];
+  const [isVisible, setIsVisible] = useState(() => document.visibilityState === "visible");
+  useEffect(() => {
+    const onVisibilityChange = () => setIsVisible(document.visibilityState === "visible");
+    document.addEventListener("visibilitychange", onVisibilityChange);
+    return () => document.removeEventListener("visibilitychange", onVisibilityChange);
+  }, []);
+
+  // The open conversation is read once its newest message from the other
+  // participant is on screen; viewing as someone else leaves it unread
+  const activeChat = chats?.find((chat) => chat.id === activeChatId);
+  const latestReceived = messages?.filter((message) => message.senderId !== user?.id).at(-1);
+  const ownLastReadId = activeChat && (activeChat.buyerId === user?.id ? activeChat.buyerLastReadId : activeChat.sellerLastReadId);
+
+  useEffect(() => {
+    if (!activeChat || !latestReceived || ownLastReadId === undefined) return;
+    if (!isVisible || user?.impersonation || latestReceived.id <= ownLastReadId) return;
+
+    const chatId = activeChat.id;
+    const messageId = latestReceived.id;
+    updateChat(chatId, (chat) => ({
+      ...chat,
+      unreadCount: 0,
+      ...(chat.buyerId === user?.id ? { buyerLastReadId: messageId } : { sellerLastReadId: messageId }),
+    }));
+    if (!sendRead(chatId, messageId)) {
+      apiRequest("POST", `/api/chats/${chatId}/read`, { messageId }).catch(() => {
+        queryClient.invalidateQueries({ queryKey: ["/api/chats"] });
       });
-    },
+    }
+  }, [activeChat, latestReceived, ownLastReadId, isVisible, user, sendRead]);
+
+  const sendMessageMutation = useMutation({
+    mutationFn: ({ chatId, content }: { chatId: number; content: string }) => sendMessage(chatId, content),
+    onSuccess: appendMessage,
     onError: (error) => {
       toast({
         title: "Error sending message",
@@ -119,6 +194,29 @@ export default function ChatInbox() {
     sendMessageMutation.mutate({ chatId, content });
   };
 
+  // Viewing as someone else is read-only, so nothing is sent for them
+  const handleTyping = (chatId: number) => {
+    if (!user?.impersonation) sendTyping(chatId);
+  };
+
+  const settingsMutation = useMutation({
+    mutationFn: async (settings: UserSettings) => {
+      const res = await apiRequest("PATCH", "/api/user/settings", settings);
+      return (await res.json()) as SessionUser;
+    },
+    onSuccess: (updatedUser) => {
+      queryClient.setQueryData(["/api/user"], (oldData: SessionUser | null | undefined) =>
+        oldData && { ...oldData, ...updatedUser });
+    },
+    onError: (error) => {
+      toast({
+        title: "Couldn't save your settings",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleMobileBackClick = () => {
     setActiveChatId(null);
   };
@@ -159,6 +257,9 @@ export default function ChatInbox() {
           activeChatId={activeChatId}
           setActiveChatId={setActiveChatId}
           onSendMessage={handleSendMessage}
+          onTyping={handleTyping}
+          typingChatIds={typingChatIds}
+          onHidePresenceChange={(hidePresence) => settingsMutation.mutate({ hidePresence })}
           onMobileBackClick={handleMobileBackClick}
           isMobile={isMobile}
         />
@@ -0,0 +1,164 @@
+import { useEffect } from "react";
+import { useQueries } from "@tanstack/react-query";
+import { Link, useLocation } from "wouter";
+import MainLayout from "@/components/layout/main-layout";
+import { Button } from "@/components/ui/button";
+import useCompareStore from "@/store/compare-store";
+import { bestInRow, compareRows } from "@/lib/compare";
+import { cn } from "@/lib/utils";
+import { Property } from "@shared/schema";
+import { ArrowLeft, Loader2, X } from "lucide-react";
+
+export default function ComparePage() {
+  const [, navigate] = useLocation();
+  const items = useCompareStore((state) => state.items);
+  const remove = useCompareStore((state) => state.remove);
+  const clear = useCompareStore((state) => state.clear);
+
+  // Fresh details for each listing; the tray only keeps a summary
+  const results = useQueries({
+    queries: items.map((item) => ({
+      queryKey: [`/api/properties/${item.id}`],
+      queryFn: async (): Promise<Property | null> => {
+        const res = await fetch(`/api/properties/${item.id}`, { credentials: "include" });
+        if (res.status === 404) return null;
+        if (!res.ok) {
+          throw new Error("Failed to fetch property details");
+        }
+        return res.json();
+      },
+      staleTime: 30000,
+    })),
+  });
+
+  // Listings deleted since they were picked drop out of the tray
+  const removedIds = results
+    .map((result, index) => (result.data === null ? items[index].id : null))
+    .filter((id): id is number => id !== null);
+  useEffect(() => {
+    removedIds.forEach(remove);
+  }, [removedIds.join(",")]);
+
+  const isLoading = results.some((result) => result.isLoading);
+  const failed = results.some((result) => result.error);
+  const properties = results
+    .map((result) => result.data)
+    .filter((property): property is Property => !!property);
+
+  return (
+    <MainLayout>
+      <div className="max-w-7xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" onClick={() => navigate("/")}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to listings
+            </Button>
+            <h1 className="text-2xl font-bold text-neutral-900 sm:text-3xl">Compare properties</h1>
+          </div>
+          {items.length > 0 && (
+            <Button variant="outline" size="sm" onClick={clear}>
+              Clear all
+            </Button>
+          )}
+        </div>
+
+        {items.length < 2 ? (
+          <div className="bg-neutral-50 p-8 rounded-lg text-center">
+            <h3 className="text-lg font-medium text-neutral-900 mb-2">Pick at least two properties</h3>
+            <p className="text-neutral-600 mb-4">
+              Use "Compare" on the listings you're considering, then come back here to see them side by side.
+            </p>
+            <Link href="/">
+              <Button>Browse listings</Button>
+            </Link>
+          </div>
+        ) : isLoading ? (
+          <div className="flex justify-center items-center py-20">
+            <Loader2 className="h-10 w-10 animate-spin text-primary" />
+          </div>
+        ) : (
+          <>
+            {failed && (
+              <div className="bg-red-50 p-4 rounded-md text-red-800 text-center mb-4">
+                <p>Some properties could not be loaded. Please try again later.</p>
+              </div>
+            )}
+            <div className="overflow-x-auto rounded-lg border border-neutral-200 bg-white">
+              <table className="w-full table-fixed min-w-[640px] text-sm">
+                <colgroup>
+                  <col className="w-40" />
+                  {properties.map((property) => (
+                    <col key={property.id} />
+                  ))}
+                </colgroup>
+                <thead>
+                  <tr className="border-b border-neutral-200">
+                    <th className="sticky left-0 bg-white" />
+                    {properties.map((property) => (
+                      <th key={property.id} className="p-3 text-left align-top font-normal">
+                        <div className="relative">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="absolute right-1 top-1 h-7 w-7 rounded-full bg-white/90"
+                            onClick={() => remove(property.id)}
+                          >
+                            <X className="h-4 w-4" />
+                            <span className="sr-only">Remove from comparison</span>
+                          </Button>
+                          {property.images[0] ? (
+                            <img
+                              src={property.images[0]}
+                              alt={property.title}
+                              className="h-32 w-full rounded-md object-cover mb-2"
+                            />
+                          ) : (
+                            <div className="h-32 w-full rounded-md bg-neutral-100 mb-2" />
+                          )}
+                          <Link href={`/property/${property.id}`} className="font-medium text-neutral-900 hover:text-primary">
+                            {property.title}
+                          </Link>
+                          <p className="text-xs text-neutral-500 mt-1">{property.address}</p>
+                        </div>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {compareRows.map((row) => {
+                    const best = bestInRow(row, properties);
+                    return (
+                      <tr key={row.label} className="border-b border-neutral-100 last:border-0">
+                        <th scope="row" className="sticky left-0 bg-white p-3 text-left font-medium text-neutral-600">
+                          {row.label}
+                        </th>
+                        {properties.map((property) => (
+                          <td
+                            key={property.id}
+                            className={cn(
+                              "p-3 align-top text-neutral-900",
+                              best.includes(property.id) && "bg-green-50 font-semibold text-green-800"
+                            )}
+                          >
+                            {row.format(property)}
+                            {best.includes(property.id) && (
+                              <span className="ml-2 text-xs font-medium uppercase text-green-700">Best</span>
+                            )}
+                          </td>
+                        ))}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+            <p className="text-xs text-neutral-500 mt-3">
+              Highlighted cells are the best in their row: the lowest price, the most rooms and amenities, and the newest build.
+            </p>
+          </>
+        )}
+      </div>
+    </MainLayout>
+  );
+}
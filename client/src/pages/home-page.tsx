@@ -1,35 +1,67 @@
-import { useState, useEffect } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useState, useEffect, useRef } from "react";
+import { useQuery, useInfiniteQuery } from "@tanstack/react-query";
 import { useLocation } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import MainLayout from "@/components/layout/main-layout";
 import PropertyCard from "@/components/property/property-card";
 import SearchFilters from "@/components/property/search-filters";
+import PropertyMap from "@/components/property/property-map";
+import SaveSearchDialog from "@/components/property/save-search-dialog";
 import { Button } from "@/components/ui/button";
-import { Property } from "@shared/schema";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { PropertySearchResult, PropertyPin, PropertySort } from "@shared/schema";
+import { hasPermission } from "@shared/permissions";
 import { useToast } from "@/hooks/use-toast";
 import { Pagination } from "@/components/ui/pagination";
-import { Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { buildFilterParams, emptyFilters, resolveSort, SearchFilterValues } from "@/lib/search-state";
+import { useSearchState } from "@/hooks/use-search-state";
+import { Loader2, LayoutGrid, Map as MapIcon, X } from "lucide-react";
 
 interface PropertyListResponse {
-  properties: Property[];
+  properties: PropertySearchResult[];
   total: number;
+  // Opaque; pass back as ?cursor= for the next page
+  nextCursor: string | null;
 }
 
+interface PropertyMapResponse {
+  pins: PropertyPin[];
+  total: number;
+  truncated: boolean;
+}
+
+const sortLabels: Record<PropertySort, string> = {
+  newest: "Newest",
+  price_asc: "Price (low to high)",
+  price_desc: "Price (high to low)",
+  price_per_sqft: "Price per sq ft",
+  relevance: "Relevance",
+  distance: "Distance",
+};
+
 export default function HomePage() {
   const { user } = useAuth();
   const { toast } = useToast();
   const [, navigate] = useLocation();
-  const [page, setPage] = useState(1);
+  // Filters, sort, page and map view all come from the URL
+  const [searchState, setSearchState] = useSearchState();
+  const { page, sort, view } = searchState;
   const [limit] = useState(8);
-  const [filters, setFilters] = useState({
-    search: "",
-    propertyType: "",
-    minPrice: 0,
-    maxPrice: 0,
-    location: "",
-  });
+  // Load more results on scroll instead of showing page numbers
+  const [infinite, setInfinite] = useState(false);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  // Listing under the pointer, in either the card list or on the map
+  const [highlightedId, setHighlightedId] = useState<number | null>(null);
   
   // Add fallback for when auth state isn't ready yet
   if (!user) {
@@ -42,52 +74,19 @@ export default function HomePage() {
     );
   }
 
+  const searchParams = buildFilterParams(searchState).toString();
+  const activeSort = resolveSort(searchState, sort);
+
   // Fetch properties based on filters and pagination
-  const {
-    data,
-    isLoading,
-    error,
-  } = useQuery<PropertyListResponse>({
-    queryKey: [
-      "/api/properties",
-      page,
-      limit,
-      filters.search,
-      filters.propertyType,
-      filters.minPrice,
-      filters.maxPrice,
-      filters.location,
-    ],
+  const pagedQuery = useQuery<PropertyListResponse>({
+    queryKey: ["/api/properties", page, limit, searchParams, activeSort],
     queryFn: async ({ queryKey }) => {
-      const [
-        _path,
-        page,
-        limit,
-        search,
-        propertyType,
-        minPrice,
-        maxPrice,
-        location,
-      ] = queryKey as [
-        string, 
-        number, 
-        number, 
-        string, 
-        string, 
-        number, 
-        number, 
-        string
-      ];
-
-      const params = new URLSearchParams();
+      const [_path, page, limit, searchParams, sort] = queryKey as [string, number, number, string, PropertySort];
+
+      const params = new URLSearchParams(searchParams);
+      params.append("sort", sort);
       params.append("page", String(page));
       params.append("limit", String(limit));
-      
-      if (search) params.append("search", String(search));
-      if (propertyType) params.append("type", String(propertyType));
-      if (minPrice > 0) params.append("minPrice", String(minPrice));
-      if (maxPrice > 0) params.append("maxPrice", String(maxPrice));
-      if (location) params.append("location", String(location));
 
       const res = await fetch(`/api/properties?${params.toString()}`, {
         credentials: "include",
@@ -99,15 +98,80 @@ export default function HomePage() {
 
       return res.json();
     },
+    enabled: !infinite,
   });
 
+  // The same search, a cursor at a time, for infinite scroll
+  const infiniteQuery = useInfiniteQuery({
+    queryKey: ["/api/properties", "infinite", limit, searchParams, activeSort],
+    queryFn: async ({ pageParam }): Promise<PropertyListResponse> => {
+      const params = new URLSearchParams(searchParams);
+      params.append("sort", activeSort);
+      params.append("limit", String(limit));
+      if (pageParam) params.append("cursor", pageParam);
+
+      const res = await fetch(`/api/properties?${params.toString()}`, {
+        credentials: "include",
+      });
+
+      if (!res.ok) {
+        throw new Error("Failed to fetch properties");
+      }
+
+      return res.json();
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: infinite,
+  });
+
+  const { isLoading, error } = infinite ? infiniteQuery : pagedQuery;
+  const data = infinite
+    ? infiniteQuery.data && {
+        properties: infiniteQuery.data.pages.flatMap((page) => page.properties),
+        total: infiniteQuery.data.pages[0].total,
+      }
+    : pagedQuery.data;
+
+  // Fetch the next page once the end of the list scrolls into view
+  const { hasNextPage, isFetchingNextPage, fetchNextPage } = infiniteQuery;
   useEffect(() => {
-    // Reset page to 1 when filters change
-    setPage(1);
-  }, [filters]);
+    const sentinel = loadMoreRef.current;
+    if (!infinite || !sentinel) return;
+
+    const observer = new IntersectionObserver(([entry]) => {
+      if (entry.isIntersecting && hasNextPage && !isFetchingNextPage) {
+        fetchNextPage();
+      }
+    }, { rootMargin: "400px" });
 
-  const handleFilterChange = (newFilters: any) => {
-    setFilters(newFilters);
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [infinite, hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  // Every match with a location, only needed while the map is shown
+  const { data: mapData } = useQuery<PropertyMapResponse>({
+    queryKey: ["/api/properties/map", searchParams],
+    queryFn: async () => {
+      const res = await fetch(`/api/properties/map?${searchParams}`, {
+        credentials: "include",
+      });
+
+      if (!res.ok) {
+        throw new Error("Failed to fetch map results");
+      }
+
+      return res.json();
+    },
+    enabled: view === "map",
+  });
+
+  const handleFilterChange = (filters: SearchFilterValues) => {
+    setSearchState(filters);
+  };
+
+  const handleSearchArea = (bbox: string) => {
+    setSearchState({ bbox });
   };
 
   const handleChatClick = async (propertyId: number, sellerId: number) => {
@@ -116,7 +180,7 @@ export default function HomePage() {
       return;
     }
 
-    if (user.role !== "buyer") {
+    if (!hasPermission(user, "chats:start")) {
       toast({
         title: "Only buyers can start chats",
         description: "You need to be logged in as a buyer to start a chat.",
@@ -158,15 +222,68 @@ export default function HomePage() {
     <MainLayout>
       <div className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
         {/* Search and Filters */}
-        <SearchFilters onFilterChange={handleFilterChange} />
+        <SearchFilters value={searchState} onFilterChange={handleFilterChange} />
 
         {/* Property Listings */}
         <div className="mb-10">
-          <h2 className="text-2xl font-bold text-neutral-900 mb-6">
-            {filters.search || filters.propertyType || filters.location || (filters.minPrice > 0) 
-              ? "Search Results" 
-              : "Featured Properties"}
-          </h2>
+          <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+            <h2 className="text-2xl font-bold text-neutral-900">
+              {searchParams
+                ? "Search Results" 
+                : "Featured Properties"}
+            </h2>
+            <div className="flex flex-wrap items-center gap-2">
+              {hasPermission(user, "searches:save") && (
+                <SaveSearchDialog
+                  query={searchParams}
+                  defaultName={searchState.search || searchState.location || "My search"}
+                />
+              )}
+              <Select value={sort || "recommended"} onValueChange={(value) => setSearchState({ sort: value === "recommended" ? "" : value as PropertySort })}>
+                <SelectTrigger className="w-[190px]">
+                  <SelectValue placeholder="Sort by" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="recommended">Recommended</SelectItem>
+                  {(Object.keys(sortLabels) as PropertySort[])
+                    .filter((option) => option === resolveSort(searchState, option))
+                    .map((option) => (
+                      <SelectItem key={option} value={option}>
+                        {sortLabels[option]}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+              <div className="flex items-center space-x-2 px-2">
+                <Switch id="infinite-scroll" checked={infinite} onCheckedChange={setInfinite} />
+                <Label htmlFor="infinite-scroll" className="text-sm font-normal">Infinite scroll</Label>
+              </div>
+              {searchState.bbox && (
+                <Button variant="outline" size="sm" onClick={() => handleSearchArea("")}>
+                  <X className="h-4 w-4 mr-1" />
+                  Map area
+                </Button>
+              )}
+              <div className="flex rounded-md border border-neutral-200 p-0.5">
+                <Button
+                  variant={view === "grid" ? "secondary" : "ghost"}
+                  size="sm"
+                  onClick={() => setSearchState({ view: "grid" })}
+                >
+                  <LayoutGrid className="h-4 w-4 mr-1" />
+                  Grid
+                </Button>
+                <Button
+                  variant={view === "map" ? "secondary" : "ghost"}
+                  size="sm"
+                  onClick={() => setSearchState({ view: "map" })}
+                >
+                  <MapIcon className="h-4 w-4 mr-1" />
+                  Map
+                </Button>
+              </div>
+            </div>
+          </div>
 
           {isLoading ? (
             <div className="flex justify-center items-center py-20">
@@ -182,39 +299,74 @@ export default function HomePage() {
               <p className="text-neutral-600 mb-4">
                 Try adjusting your search filters to find more properties.
               </p>
-              <Button onClick={() => setFilters({
-                search: "",
-                propertyType: "",
-                minPrice: 0,
-                maxPrice: 0,
-                location: "",
-              })}>
+              <Button onClick={() => setSearchState(emptyFilters)}>
                 Clear Filters
               </Button>
             </div>
           ) : (
-            <>
-              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-                {data?.properties.map((property) => (
-                  <PropertyCard
-                    key={property.id}
-                    property={property}
-                    onChatClick={handleChatClick}
-                  />
-                ))}
-              </div>
-
-              {/* Pagination */}
-              {totalPages > 1 && (
-                <div className="flex justify-center mt-8">
-                  <Pagination
-                    currentPage={page}
-                    totalPages={totalPages}
-                    onPageChange={setPage}
-                  />
+            <div className={cn(view === "map" && "grid grid-cols-1 lg:grid-cols-5 gap-6")}>
+              {view === "map" && (
+                <div className="lg:col-span-3 lg:order-last">
+                  <div className="h-[60vh] lg:h-[calc(100vh-8rem)] lg:sticky lg:top-4">
+                    <PropertyMap
+                      pins={mapData?.pins ?? []}
+                      bbox={searchState.bbox}
+                      viewport={searchState.map}
+                      onViewportChange={(map) => setSearchState({ map }, { replace: true })}
+                      highlightedId={highlightedId}
+                      onHighlight={setHighlightedId}
+                      onSearchArea={handleSearchArea}
+                    />
+                  </div>
+                  {mapData?.truncated && (
+                    <p className="text-sm text-neutral-500 mt-2">
+                      Showing {mapData.pins.length} of {mapData.total} matches on the map. Zoom in and search this area to see the rest.
+                    </p>
+                  )}
                 </div>
               )}
-            </>
+
+              <div className={cn(view === "map" && "lg:col-span-2")}>
+                <div
+                  className={cn(
+                    "grid grid-cols-1 sm:grid-cols-2 gap-6",
+                    view === "grid" && "lg:grid-cols-3 xl:grid-cols-4"
+                  )}
+                >
+                  {data?.properties.map((property) => (
+                    <div
+                      key={property.id}
+                      className={cn(
+                        "rounded-lg transition-shadow",
+                        highlightedId === property.id && "ring-2 ring-primary"
+                      )}
+                      onMouseEnter={() => setHighlightedId(property.id)}
+                      onMouseLeave={() => setHighlightedId(null)}
+                    >
+                      <PropertyCard
+                        property={property}
+                        onChatClick={handleChatClick}
+                      />
+                    </div>
+                  ))}
+                </div>
+
+                {/* Pagination */}
+                {infinite ? (
+                  <div ref={loadMoreRef} className="flex justify-center py-8">
+                    {isFetchingNextPage && <Loader2 className="h-6 w-6 animate-spin text-primary" />}
+                  </div>
+                ) : totalPages > 1 && (
+                  <div className="flex justify-center mt-8">
+                    <Pagination
+                      currentPage={page}
+                      totalPages={totalPages}
+                      onPageChange={(page) => setSearchState({ page })}
+                    />
+                  </div>
+                )}
+              </div>
+            </div>
           )}
         </div>
       </div>
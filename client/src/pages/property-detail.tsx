@@ -7,12 +7,16 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Card } from "@/components/ui/card";
-import { Property, User } from "@shared/schema";
+import { PriceHistoryEntry, Property, PublicUser, User, publicListingStatuses } from "@shared/schema";
+import { hasPermission } from "@shared/permissions";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import AvatarPlaceholder from "@/components/ui/avatar-placeholder";
+import FavouriteButton from "@/components/property/favourite-button";
+import PriceHistoryChart from "@/components/property/price-history-chart";
+import StatusBadge from "@/components/property/status-badge";
 import { ArrowLeft, Check, Loader2, MapPin, Phone } from "lucide-react";
-import { formatCurrency, getInitials } from "@/lib/utils";
+import { formatAmenity, formatCurrency, formatDate, getInitials } from "@/lib/utils";
 
 interface PropertyDetailResponse {
   property: Property;
@@ -65,7 +69,7 @@ export default function PropertyDetail() {
     data: seller,
     isLoading: isSellerLoading,
     error: sellerError,
-  } = useQuery<Omit<User, "password">>({
+  } = useQuery<PublicUser>({
     queryKey: [`/api/users/${data?.sellerId}`],
     queryFn: async () => {
       if (!data?.sellerId) {
@@ -87,6 +91,11 @@ export default function PropertyDetail() {
     staleTime: 30000, // Keep data fresh for 30 seconds
   });
 
+  const { data: priceHistory = [] } = useQuery<PriceHistoryEntry[]>({
+    queryKey: [`/api/properties/${id}/price-history`],
+    staleTime: 30000,
+  });
+
   const startChatMutation = useMutation({
     mutationFn: async (message: string) => {
       if (!data || !seller) return null;
@@ -141,7 +150,7 @@ export default function PropertyDetail() {
       return;
     }
 
-    if (user.role !== "buyer") {
+    if (!hasPermission(user, "chats:start")) {
       toast({
         title: "Only buyers can send messages",
         description: "You need to be logged in as a buyer to contact sellers.",
@@ -159,7 +168,7 @@ export default function PropertyDetail() {
       return;
     }
 
-    if (user.role !== "buyer") {
+    if (!hasPermission(user, "chats:start")) {
       toast({
         title: "Only buyers can chat",
         description: "You need to be logged in as a buyer to chat with sellers.",
@@ -321,6 +330,8 @@ export default function PropertyDetail() {
 
   const property = data;
   const isCurrentUserSeller = user?.id === seller.id;
+  // Buyers can only start a conversation while the listing is on the market
+  const canContactSeller = !isCurrentUserSeller && hasPermission(user, "chats:start") && publicListingStatuses.includes(property.status);
 
   return (
     <MainLayout>
@@ -369,13 +380,17 @@ export default function PropertyDetail() {
             <Card className="p-6 mb-6">
               <div className="flex justify-between items-start mb-4">
                 <div>
-                  <h1 className="text-2xl font-bold text-neutral-900 mb-1">{property.title}</h1>
+                  <div className="flex flex-wrap items-center gap-2 mb-1">
+                    <h1 className="text-2xl font-bold text-neutral-900">{property.title}</h1>
+                    <StatusBadge status={property.status} />
+                  </div>
                   <p className="text-neutral-600 flex items-center mb-1">
                     <MapPin className="h-4 w-4 mr-1" />
                     {property.address}
                   </p>
                   <p className="text-xl font-semibold text-neutral-900">{formatCurrency(property.price)}</p>
                 </div>
+                <FavouriteButton propertyId={property.id} showLabel />
               </div>
 
               <div className="flex flex-wrap gap-x-6 gap-y-2 mb-6">
@@ -426,7 +441,7 @@ export default function PropertyDetail() {
             </Card>
 
             {/* Property features if any */}
-            {(property.bedrooms || property.bathrooms || property.squareFeet || property.yearBuilt) && (
+            {(property.bedrooms || property.bathrooms || property.squareFeet || property.yearBuilt || property.amenities.length > 0) && (
               <Card className="p-6">
                 <h2 className="text-lg font-semibold text-neutral-900 mb-3">Features & Amenities</h2>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -454,7 +469,27 @@ export default function PropertyDetail() {
                       <span className="text-neutral-700">Built in {property.yearBuilt}</span>
                     </div>
                   )}
+                  {property.amenities.map((amenity) => (
+                    <div key={amenity} className="flex items-start">
+                      <Check className="h-5 w-5 text-green-500 mr-2" />
+                      <span className="text-neutral-700">{formatAmenity(amenity)}</span>
+                    </div>
+                  ))}
+                </div>
+              </Card>
+            )}
+
+            {/* Price changes since the listing went up */}
+            {priceHistory.length > 1 && (
+              <Card className="p-6 mt-6">
+                <div className="flex flex-wrap items-baseline justify-between gap-2 mb-3">
+                  <h2 className="text-lg font-semibold text-neutral-900">Price History</h2>
+                  <p className="text-sm text-neutral-600">
+                    Listed at {formatCurrency(priceHistory[0].price)} on {formatDate(priceHistory[0].recordedAt)},{" "}
+                    {priceHistory.length - 1} price {priceHistory.length === 2 ? "change" : "changes"} since
+                  </p>
                 </div>
+                <PriceHistoryChart history={priceHistory} />
               </Card>
             )}
           </div>
@@ -476,7 +511,7 @@ export default function PropertyDetail() {
               </div>
 
               <div className="grid grid-cols-1 gap-4 mb-4">
-                {!isCurrentUserSeller && user?.role === "buyer" && (
+                {canContactSeller && (
                   <Button onClick={handleChatWithSeller} disabled={startChatMutation.isPending}>
                     {startChatMutation.isPending ? (
                       <Loader2 className="mr-2 h-4 w-4 animate-spin" />
@@ -500,7 +535,7 @@ export default function PropertyDetail() {
                 </Button>
               </div>
 
-              {!isCurrentUserSeller && user?.role === "buyer" && (
+              {canContactSeller && (
                 <div className="mt-5 pt-5 border-t border-neutral-200">
                   <h3 className="font-medium text-neutral-900 mb-3">Send a Message</h3>
                   {messageSent ? (
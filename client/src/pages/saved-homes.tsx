@@ -0,0 +1,110 @@
+import { Link, useLocation } from "wouter";
+import MainLayout from "@/components/layout/main-layout";
+import PropertyCard from "@/components/property/property-card";
+import { Button } from "@/components/ui/button";
+import { useFavourites } from "@/hooks/use-favourites";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency, formatDate } from "@/lib/utils";
+import { FavouriteWithProperty, publicListingStatuses } from "@shared/schema";
+import { Loader2, TrendingDown, TrendingUp } from "lucide-react";
+
+// How the asking price has moved since the home was saved
+function PriceChange({ favourite }: { favourite: FavouriteWithProperty }) {
+  const { property, savedPrice } = favourite;
+
+  if (property.status === "sold") {
+    return <p className="text-sm text-neutral-500">Sold</p>;
+  }
+  if (!publicListingStatuses.includes(property.status)) {
+    return <p className="text-sm text-neutral-500">No longer available</p>;
+  }
+
+  const change = property.price - savedPrice;
+  if (change === 0) {
+    return <p className="text-sm text-neutral-500">Saved {formatDate(favourite.createdAt)}</p>;
+  }
+
+  return change < 0 ? (
+    <p className="text-sm text-green-700 flex items-center">
+      <TrendingDown className="h-4 w-4 mr-1" />
+      Down {formatCurrency(-change)} since you saved it
+    </p>
+  ) : (
+    <p className="text-sm text-red-700 flex items-center">
+      <TrendingUp className="h-4 w-4 mr-1" />
+      Up {formatCurrency(change)} since you saved it
+    </p>
+  );
+}
+
+export default function SavedHomes() {
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+  const { canSave, favourites, isLoading, error } = useFavourites();
+
+  const handleChatClick = async (propertyId: number, sellerId: number) => {
+    try {
+      const response = await apiRequest("POST", "/api/chats", { sellerId, propertyId });
+      const chat = await response.json();
+      navigate(`/inbox?chatId=${chat.id}`);
+    } catch (error) {
+      toast({
+        title: "Error starting chat",
+        description: "Failed to start chat with the seller. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (!canSave) {
+    return (
+      <MainLayout>
+        <div className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+          <div className="bg-red-50 p-6 rounded-lg text-center">
+            <h2 className="text-xl font-bold text-red-800 mb-2">Access Denied</h2>
+            <p className="text-red-700 mb-4">Only buyers can save homes.</p>
+            <Button onClick={() => navigate("/")}>Go to Home</Button>
+          </div>
+        </div>
+      </MainLayout>
+    );
+  }
+
+  return (
+    <MainLayout>
+      <div className="max-w-7xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
+        <h1 className="text-2xl font-bold text-neutral-900 sm:text-3xl mb-6">Saved homes</h1>
+
+        {isLoading ? (
+          <div className="flex justify-center items-center py-20">
+            <Loader2 className="h-10 w-10 animate-spin text-primary" />
+          </div>
+        ) : error ? (
+          <div className="bg-red-50 p-4 rounded-md text-red-800 text-center">
+            <p>Failed to load your saved homes. Please try again later.</p>
+          </div>
+        ) : favourites.length === 0 ? (
+          <div className="bg-neutral-50 p-8 rounded-lg text-center">
+            <h3 className="text-lg font-medium text-neutral-900 mb-2">No saved homes yet</h3>
+            <p className="text-neutral-600 mb-4">
+              Tap the heart on a listing to keep track of it and hear about price drops.
+            </p>
+            <Link href="/">
+              <Button>Browse listings</Button>
+            </Link>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+            {favourites.map((favourite) => (
+              <div key={favourite.id} className="space-y-2">
+                <PropertyCard property={favourite.property} onChatClick={handleChatClick} />
+                <PriceChange favourite={favourite} />
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </MainLayout>
+  );
+}
@@ -0,0 +1,177 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import MainLayout from "@/components/layout/main-layout";
+import { frequencyLabels } from "@/components/property/save-search-dialog";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { describeFilters, parseSearchState } from "@/lib/search-state";
+import { formatDate } from "@/lib/utils";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { SavedSearch, SavedSearchFrequency } from "@shared/schema";
+import { Loader2, Search, Trash2 } from "lucide-react";
+
+type SavedSearchChanges = Partial<Pick<SavedSearch, "name" | "frequency" | "emailEnabled">>;
+
+export default function SavedSearches() {
+  const { toast } = useToast();
+
+  const { data: savedSearches, isLoading, error } = useQuery<SavedSearch[]>({
+    queryKey: ["/api/saved-searches"],
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, changes }: { id: number; changes: SavedSearchChanges }) => {
+      const res = await apiRequest("PATCH", `/api/saved-searches/${id}`, changes);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/saved-searches"] });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/saved-searches/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/saved-searches"] });
+      toast({
+        title: "Search deleted",
+        description: "You won't get alerts for it any more.",
+      });
+    },
+    onError,
+  });
+
+  return (
+    <MainLayout>
+      <div className="max-w-4xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
+        <h1 className="text-2xl font-bold text-neutral-900 sm:text-3xl mb-6">Saved searches</h1>
+
+        {isLoading ? (
+          <div className="flex justify-center items-center py-20">
+            <Loader2 className="h-10 w-10 animate-spin text-primary" />
+          </div>
+        ) : error ? (
+          <div className="bg-red-50 p-4 rounded-md text-red-800 text-center">
+            <p>Failed to load saved searches. Please try again later.</p>
+          </div>
+        ) : !savedSearches?.length ? (
+          <div className="bg-neutral-50 p-8 rounded-lg text-center">
+            <h3 className="text-lg font-medium text-neutral-900 mb-2">No saved searches yet</h3>
+            <p className="text-neutral-600 mb-4">
+              Set your filters on the home page and choose "Save search" to be told about new listings.
+            </p>
+            <Link href="/">
+              <Button>Start searching</Button>
+            </Link>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {savedSearches.map((savedSearch) => {
+              const labels = describeFilters(parseSearchState(savedSearch.query));
+
+              return (
+                <Card key={savedSearch.id}>
+                  <CardHeader className="flex flex-row items-start justify-between space-y-0 pb-2">
+                    <div>
+                      <CardTitle className="text-lg">{savedSearch.name}</CardTitle>
+                      <p className="text-sm text-neutral-500 mt-1">
+                        Saved {formatDate(savedSearch.createdAt)}
+                      </p>
+                    </div>
+                    <div className="flex gap-2">
+                      <Link href={savedSearch.query ? `/?${savedSearch.query}` : "/"}>
+                        <Button variant="outline" size="sm">
+                          <Search className="h-4 w-4 mr-1" />
+                          View results
+                        </Button>
+                      </Link>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-red-600 hover:text-red-700"
+                        disabled={deleteMutation.isPending}
+                        onClick={() => deleteMutation.mutate(savedSearch.id)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                        <span className="sr-only">Delete</span>
+                      </Button>
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="flex flex-wrap gap-2 mb-4">
+                      {labels.length ? (
+                        labels.map((label) => (
+                          <Badge key={label} variant="secondary">{label}</Badge>
+                        ))
+                      ) : (
+                        <Badge variant="secondary">All listings</Badge>
+                      )}
+                    </div>
+                    <div className="flex flex-wrap items-center gap-6">
+                      <div className="flex items-center gap-2">
+                        <Label className="text-sm font-normal text-neutral-600">Alerts</Label>
+                        <Select
+                          value={savedSearch.frequency}
+                          onValueChange={(value) => updateMutation.mutate({
+                            id: savedSearch.id,
+                            changes: { frequency: value as SavedSearchFrequency },
+                          })}
+                        >
+                          <SelectTrigger className="w-[220px]">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {(Object.keys(frequencyLabels) as SavedSearchFrequency[]).map((option) => (
+                              <SelectItem key={option} value={option}>
+                                {frequencyLabels[option]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Switch
+                          id={`saved-search-email-${savedSearch.id}`}
+                          checked={savedSearch.emailEnabled}
+                          onCheckedChange={(emailEnabled) => updateMutation.mutate({
+                            id: savedSearch.id,
+                            changes: { emailEnabled },
+                          })}
+                        />
+                        <Label htmlFor={`saved-search-email-${savedSearch.id}`} className="text-sm font-normal">
+                          Email alerts
+                        </Label>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </MainLayout>
+  );
+}
@@ -4,8 +4,23 @@ import { useLocation } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
 import MainLayout from "@/components/layout/main-layout";
 import PropertyForm from "@/components/property/property-form";
+import StatusBadge, { statusLabels } from "@/components/property/status-badge";
 import { Button } from "@/components/ui/button";
-import { Property } from "@shared/schema";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ListingStatus, Property, listingStatuses, listingTransitions } from "@shared/schema";
+import { hasPermission } from "@shared/permissions";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import {
@@ -19,16 +34,48 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
-import { PlusCircle, Pencil, Trash, Eye, Loader2 } from "lucide-react";
-import { formatCurrency } from "@/lib/utils";
+import { PlusCircle, Pencil, Trash, Eye, Loader2, ChevronDown, RefreshCw } from "lucide-react";
+import { formatCurrency, formatDate } from "@/lib/utils";
+
+// Menu wording for moving a listing to each status
+const transitionLabels: Record<ListingStatus, string> = {
+  draft: "Move to drafts",
+  pending_review: "Submit for review",
+  active: "Put on the market",
+  under_offer: "Mark under offer",
+  sold: "Mark as sold",
+  expired: "Mark expired",
+  rejected: "Reject",
+};
+
+// Where the listing is in its lifecycle, shown under its badges
+function statusDetail(property: Property): string {
+  switch (property.status) {
+    case "draft":
+      return "Not visible to buyers. Submit it for review when it's ready.";
+    case "pending_review":
+      return "Waiting for a moderator to review it before it goes live";
+    case "active":
+    case "under_offer":
+      return property.expiresAt ? `Listed until ${formatDate(property.expiresAt)}` : "On the market";
+    case "sold":
+      return `Sold on ${formatDate(property.statusChangedAt)}`;
+    case "expired":
+      return `Expired on ${formatDate(property.statusChangedAt)}; renew to list it again`;
+    case "rejected":
+      return `Rejected on ${formatDate(property.statusChangedAt)}`;
+  }
+}
 
 export default function SellerDashboard() {
   const { user } = useAuth();
   const { toast } = useToast();
   const [location, navigate] = useLocation();
+  const canList = hasPermission(user, "listings:create") || hasPermission(user, "listings:manage_any");
   const [showAddForm, setShowAddForm] = useState(false);
   const [editingProperty, setEditingProperty] = useState<Property | null>(null);
   const [propertyToDelete, setPropertyToDelete] = useState<number | null>(null);
+  const [statusFilter, setStatusFilter] = useState<ListingStatus | "all">("all");
 
   const query = new URLSearchParams(location.split("?")[1] || "");
   const addParam = query.get("add");
@@ -47,7 +94,7 @@ export default function SellerDashboard() {
     refetch,
   } = useQuery<Property[]>({
     queryKey: [`/api/properties/seller/${user?.id}`],
-    enabled: !!user && (user.role === "seller" || user.role === "admin"),
+    enabled: canList,
   });
 
   // Delete property mutation
@@ -73,6 +120,59 @@ export default function SellerDashboard() {
     },
   });
 
+  const statusMutation = useMutation({
+    mutationFn: async ({ propertyId, status }: { propertyId: number; status: ListingStatus }) => {
+      const res = await apiRequest("PATCH", `/api/properties/${propertyId}/status`, { status });
+      return (await res.json()) as Property;
+    },
+    onSuccess: (property) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/properties/seller/${user?.id}`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/properties"] });
+      toast({
+        title: "Listing updated",
+        description: `${property.title} is now ${statusLabels[property.status].toLowerCase()}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const renewMutation = useMutation({
+    mutationFn: async (propertyId: number) => {
+      const res = await apiRequest("POST", `/api/properties/${propertyId}/renew`);
+      return (await res.json()) as Property;
+    },
+    onSuccess: (property) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/properties/seller/${user?.id}`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/properties"] });
+      // Listings rewritten while expired are reviewed before going back on
+      toast(property.status === "pending_review"
+        ? { title: "Listing sent for review", description: `${property.title} will be back on the market once it's approved` }
+        : {
+            title: "Listing renewed",
+            description: property.expiresAt
+              ? `${property.title} is listed until ${formatDate(property.expiresAt)}`
+              : `${property.title} has been renewed`,
+          });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const visibleProperties = properties?.filter(
+    (property) => statusFilter === "all" || property.status === statusFilter
+  );
+
   const handleDeleteConfirm = () => {
     if (propertyToDelete) {
       deleteMutation.mutate(propertyToDelete);
@@ -94,13 +194,13 @@ export default function SellerDashboard() {
     window.history.replaceState({}, "", "/seller/dashboard");
   };
 
-  if (user?.role !== "seller" && user?.role !== "admin") {
+  if (!canList) {
     return (
       <MainLayout>
         <div className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
           <div className="bg-red-50 p-6 rounded-lg text-center">
             <h2 className="text-xl font-bold text-red-800 mb-2">Access Denied</h2>
-            <p className="text-red-700 mb-4">You must be a seller to access this page.</p>
+            <p className="text-red-700 mb-4">You must be a seller or agent to access this page.</p>
             <Button onClick={() => navigate("/")}>Go to Home</Button>
           </div>
         </div>
@@ -152,13 +252,32 @@ export default function SellerDashboard() {
           </div>
         ) : properties && properties.length > 0 ? (
           <div className="bg-white shadow rounded-lg overflow-hidden">
-            <div className="px-4 py-5 sm:px-6 border-b border-neutral-200">
-              <h2 className="text-lg font-semibold text-neutral-900">Your Listed Properties</h2>
-              <p className="mt-1 text-sm text-neutral-500">Manage your property listings</p>
+            <div className="px-4 py-5 sm:px-6 border-b border-neutral-200 flex flex-wrap items-center justify-between gap-4">
+              <div>
+                <h2 className="text-lg font-semibold text-neutral-900">Your Listed Properties</h2>
+                <p className="mt-1 text-sm text-neutral-500">Manage your property listings</p>
+              </div>
+              <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as ListingStatus | "all")}>
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All listings ({properties.length})</SelectItem>
+                  {listingStatuses.map((status) => (
+                    <SelectItem key={status} value={status}>
+                      {statusLabels[status]} ({properties.filter((property) => property.status === status).length})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
 
+            {!visibleProperties?.length && (
+              <p className="p-6 text-center text-sm text-neutral-500">No listings with this status.</p>
+            )}
+
             <ul className="divide-y divide-neutral-200">
-              {properties.map((property) => (
+              {visibleProperties?.map((property) => (
                 <li key={property.id} className="p-4 sm:px-6">
                   <div className="flex flex-col sm:flex-row">
                     <div className="flex-shrink-0 h-24 w-32 sm:h-32 sm:w-48 mb-4 sm:mb-0 sm:mr-6 overflow-hidden rounded-md">
@@ -185,7 +304,7 @@ export default function SellerDashboard() {
 
                         <div className="flex flex-wrap gap-2 mb-2">
                           <span className="px-2 py-1 text-xs rounded-md bg-blue-100 text-blue-800 capitalize">{property.propertyType}</span>
-                          <span className="px-2 py-1 text-xs rounded-md bg-green-100 text-green-800">{property.active ? "Active" : "Inactive"}</span>
+                          <StatusBadge status={property.status} className="rounded-md" />
                           {property.bedrooms && (
                             <span className="px-2 py-1 text-xs rounded-md bg-neutral-100 text-neutral-800">{property.bedrooms} beds</span>
                           )}
@@ -193,6 +312,16 @@ export default function SellerDashboard() {
                             <span className="px-2 py-1 text-xs rounded-md bg-neutral-100 text-neutral-800">{property.bathrooms} baths</span>
                           )}
                         </div>
+
+                        <p className="text-sm text-neutral-500">{statusDetail(property)}</p>
+                        {property.moderationNote && (
+                          <div className="mt-2 rounded-md bg-amber-50 p-3 text-sm text-amber-900">
+                            <span className="font-medium">
+                              {property.status === "rejected" ? "Reason for rejection: " : "Changes requested: "}
+                            </span>
+                            {property.moderationNote}
+                          </div>
+                        )}
                       </div>
 
                       <div className="mt-4 flex flex-wrap gap-2">
@@ -211,6 +340,37 @@ export default function SellerDashboard() {
                           <Eye className="h-4 w-4 mr-1" />
                           View
                         </Button>
+                        {listingTransitions[property.status].length > 0 && (
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button size="sm" variant="outline" disabled={statusMutation.isPending}>
+                                Status
+                                <ChevronDown className="h-4 w-4 ml-1" />
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="start">
+                              {listingTransitions[property.status].map((status) => (
+                                <DropdownMenuItem
+                                  key={status}
+                                  onClick={() => statusMutation.mutate({ propertyId: property.id, status })}
+                                >
+                                  {transitionLabels[status]}
+                                </DropdownMenuItem>
+                              ))}
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        )}
+                        {(property.status === "active" || property.status === "expired") && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => renewMutation.mutate(property.id)}
+                            disabled={renewMutation.isPending}
+                          >
+                            <RefreshCw className="h-4 w-4 mr-1" />
+                            Renew
+                          </Button>
+                        )}
                         <AlertDialog>
                           <AlertDialogTrigger asChild>
                             <Button
@@ -3,10 +3,11 @@ import { Chat, Message } from '@shared/schema';
 import { apiRequest } from '@/lib/queryClient';
 
 interface ExtendedChat extends Chat {
+  // null once the listing has been removed
   property: {
     title: string;
     id: number;
-  };
+  } | null;
   seller?: {
     firstName: string;
     lastName: string;
@@ -0,0 +1,57 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { Property } from '@shared/schema';
+
+// Most listings the comparison page shows side by side
+export const maxCompareItems = 4;
+
+// Enough of a listing to show in the tray; the comparison page fetches the
+// rest fresh
+export type CompareItem = Pick<Property, 'id' | 'title' | 'price' | 'images'>;
+
+interface CompareState {
+  items: CompareItem[];
+
+  // Actions
+  // Returns false when the tray is already full
+  add: (property: CompareItem) => boolean;
+  remove: (propertyId: number) => void;
+  clear: () => void;
+  isSelected: (propertyId: number) => boolean;
+}
+
+// Kept in localStorage so the selection survives reloads and new tabs
+const useCompareStore = create<CompareState>()(
+  persist(
+    (set, get) => ({
+      items: [],
+
+      add: ({ id, title, price, images }: CompareItem) => {
+        const { items } = get();
+        if (items.some(item => item.id === id)) return true;
+        if (items.length >= maxCompareItems) return false;
+
+        set({ items: [...items, { id, title, price, images: images.slice(0, 1) }] });
+        return true;
+      },
+
+      remove: (propertyId: number) => {
+        set({ items: get().items.filter(item => item.id !== propertyId) });
+      },
+
+      clear: () => {
+        set({ items: [] });
+      },
+
+      isSelected: (propertyId: number) => {
+        return get().items.some(item => item.id === propertyId);
+      },
+    }),
+    {
+      name: 'estatetify-compare',
+      partialize: (state) => ({ items: state.items }),
+    }
+  )
+);
+
+export default useCompareStore;
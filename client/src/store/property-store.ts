@@ -2,32 +2,13 @@ import { create } from 'zustand';
 import { Property } from '@shared/schema';
 import { apiRequest } from '@/lib/queryClient';
 
-interface PropertyFilters {
-  search: string;
-  propertyType: string;
-  minPrice: number;
-  maxPrice: number;
-  location: string;
-  page: number;
-  limit: number;
-}
-
-interface PropertyListResponse {
-  properties: Property[];
-  total: number;
-}
-
+// Search results aren't kept here: the home page search state lives in the
+// URL (see useSearchState) and results are fetched with react-query
 interface PropertyState {
   isLoading: boolean;
   error: string | null;
-  properties: Property[];
-  totalProperties: number;
-  currentPage: number;
-  filters: PropertyFilters;
   
   // Actions
-  setFilters: (filters: Partial<PropertyFilters>) => void;
-  fetchProperties: () => Promise<void>;
   getPropertyById: (id: number) => Promise<Property | null>;
   
   // Seller actions
@@ -41,66 +22,8 @@ interface PropertyState {
 const usePropertyStore = create<PropertyState>((set, get) => ({
   isLoading: false,
   error: null,
-  properties: [],
-  totalProperties: 0,
-  currentPage: 1,
-  filters: {
-    search: '',
-    propertyType: '',
-    minPrice: 0,
-    maxPrice: 0,
-    location: '',
-    page: 1,
-    limit: 12,
-  },
   sellerProperties: [],
   
-  setFilters: (filters) => {
-    set((state) => ({
-      filters: { ...state.filters, ...filters },
-      // Reset page to 1 when filters change
-      currentPage: filters.page ?? 1,
-    }));
-  },
-  
-  fetchProperties: async () => {
-    try {
-      set({ isLoading: true, error: null });
-      
-      const { filters } = get();
-      const params = new URLSearchParams();
-      params.append('page', filters.page.toString());
-      params.append('limit', filters.limit.toString());
-      
-      if (filters.search) params.append('search', filters.search);
-      if (filters.propertyType) params.append('type', filters.propertyType);
-      if (filters.minPrice > 0) params.append('minPrice', filters.minPrice.toString());
-      if (filters.maxPrice > 0) params.append('maxPrice', filters.maxPrice.toString());
-      if (filters.location) params.append('location', filters.location);
-      
-      const response = await fetch(`/api/properties?${params.toString()}`, {
-        credentials: 'include',
-      });
-      
-      if (!response.ok) {
-        throw new Error('Failed to fetch properties');
-      }
-      
-      const data: PropertyListResponse = await response.json();
-      
-      set({
-        properties: data.properties,
-        totalProperties: data.total,
-        isLoading: false,
-      });
-    } catch (error) {
-      set({
-        isLoading: false,
-        error: (error as Error).message,
-      });
-    }
-  },
-  
   getPropertyById: async (id: number) => {
     try {
       set({ isLoading: true, error: null });
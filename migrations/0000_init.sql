@@ -0,0 +1,48 @@
+CREATE TABLE "chats" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"buyer_id" integer NOT NULL,
+	"seller_id" integer NOT NULL,
+	"property_id" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "messages" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"chat_id" integer NOT NULL,
+	"sender_id" integer NOT NULL,
+	"content" text NOT NULL,
+	"timestamp" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "properties" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"seller_id" integer NOT NULL,
+	"title" text NOT NULL,
+	"address" text NOT NULL,
+	"price" double precision NOT NULL,
+	"contact_number" text NOT NULL,
+	"property_type" text NOT NULL,
+	"description" text NOT NULL,
+	"images" text[] NOT NULL,
+	"bedrooms" integer,
+	"bathrooms" integer,
+	"square_feet" integer,
+	"year_built" integer,
+	"active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	"email" text NOT NULL,
+	"first_name" text NOT NULL,
+	"last_name" text NOT NULL,
+	"role" text DEFAULT 'buyer' NOT NULL,
+	"phone_number" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "users_username_unique" UNIQUE("username"),
+	CONSTRAINT "users_email_unique" UNIQUE("email")
+);
@@ -0,0 +1,12 @@
+ALTER TABLE "chats" ALTER COLUMN "property_id" DROP NOT NULL;--> statement-breakpoint
+-- Clear out rows orphaned before these constraints existed, applying the same on-delete rules
+DELETE FROM "properties" WHERE "seller_id" NOT IN (SELECT "id" FROM "users");--> statement-breakpoint
+UPDATE "chats" SET "property_id" = NULL WHERE "property_id" NOT IN (SELECT "id" FROM "properties");--> statement-breakpoint
+DELETE FROM "chats" WHERE "buyer_id" NOT IN (SELECT "id" FROM "users") OR "seller_id" NOT IN (SELECT "id" FROM "users");--> statement-breakpoint
+DELETE FROM "messages" WHERE "chat_id" NOT IN (SELECT "id" FROM "chats") OR "sender_id" NOT IN (SELECT "id" FROM "users");--> statement-breakpoint
+ALTER TABLE "chats" ADD CONSTRAINT "chats_buyer_id_users_id_fk" FOREIGN KEY ("buyer_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "chats" ADD CONSTRAINT "chats_seller_id_users_id_fk" FOREIGN KEY ("seller_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "chats" ADD CONSTRAINT "chats_property_id_properties_id_fk" FOREIGN KEY ("property_id") REFERENCES "public"."properties"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "messages" ADD CONSTRAINT "messages_chat_id_chats_id_fk" FOREIGN KEY ("chat_id") REFERENCES "public"."chats"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "messages" ADD CONSTRAINT "messages_sender_id_users_id_fk" FOREIGN KEY ("sender_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "properties" ADD CONSTRAINT "properties_seller_id_users_id_fk" FOREIGN KEY ("seller_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,3 @@
+CREATE EXTENSION IF NOT EXISTS pg_trgm;--> statement-breakpoint
+CREATE INDEX "properties_search_idx" ON "properties" USING gin ((setweight(to_tsvector('english', "title"), 'A') || setweight(to_tsvector('english', "address"), 'B') || setweight(to_tsvector('english', "description"), 'C')));--> statement-breakpoint
+CREATE INDEX "properties_fuzzy_idx" ON "properties" USING gin (("title" || ' ' || "address") gin_trgm_ops);
\ No newline at end of file
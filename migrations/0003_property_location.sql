@@ -0,0 +1,3 @@
+ALTER TABLE "properties" ADD COLUMN "latitude" double precision;--> statement-breakpoint
+ALTER TABLE "properties" ADD COLUMN "longitude" double precision;--> statement-breakpoint
+CREATE INDEX "properties_location_idx" ON "properties" USING btree ("latitude","longitude");
\ No newline at end of file
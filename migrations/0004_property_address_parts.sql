@@ -0,0 +1,4 @@
+ALTER TABLE "properties" ADD COLUMN "city" text;--> statement-breakpoint
+ALTER TABLE "properties" ADD COLUMN "state" text;--> statement-breakpoint
+ALTER TABLE "properties" ADD COLUMN "postcode" text;--> statement-breakpoint
+CREATE INDEX "properties_city_idx" ON "properties" USING btree ("state","city");
\ No newline at end of file
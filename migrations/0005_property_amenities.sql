@@ -0,0 +1,2 @@
+ALTER TABLE "properties" ADD COLUMN "amenities" text[] DEFAULT '{}'::text[] NOT NULL;--> statement-breakpoint
+CREATE INDEX "properties_amenities_idx" ON "properties" USING gin ("amenities");
\ No newline at end of file
@@ -0,0 +1,21 @@
+CREATE TABLE "property_versions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"property_id" integer NOT NULL,
+	"version" integer NOT NULL,
+	"changed_by" integer,
+	"changed_fields" text[] NOT NULL,
+	"snapshot" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "property_versions" ADD CONSTRAINT "property_versions_property_id_properties_id_fk" FOREIGN KEY ("property_id") REFERENCES "public"."properties"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "property_versions" ADD CONSTRAINT "property_versions_changed_by_users_id_fk" FOREIGN KEY ("changed_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "property_versions_property_version_idx" ON "property_versions" USING btree ("property_id","version");--> statement-breakpoint
+INSERT INTO "property_versions" ("property_id", "version", "changed_by", "changed_fields", "snapshot", "created_at")
+SELECT "id", 1, "seller_id", '{}', jsonb_build_object(
+	'sellerId', "seller_id", 'title', "title", 'address', "address", 'city', "city", 'state', "state",
+	'postcode', "postcode", 'price', "price", 'contactNumber', "contact_number", 'propertyType', "property_type",
+	'description', "description", 'images', to_jsonb("images"), 'bedrooms', "bedrooms", 'bathrooms', "bathrooms",
+	'squareFeet', "square_feet", 'yearBuilt', "year_built", 'amenities', to_jsonb("amenities"),
+	'latitude', "latitude", 'longitude', "longitude", 'active', "active"
+), "created_at" FROM "properties";
@@ -0,0 +1,27 @@
+CREATE TABLE "property_status_history" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"property_id" integer NOT NULL,
+	"from_status" text,
+	"to_status" text NOT NULL,
+	"changed_by" integer,
+	"changed_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "properties" ADD COLUMN "status" text DEFAULT 'active' NOT NULL;--> statement-breakpoint
+ALTER TABLE "properties" ADD COLUMN "status_changed_at" timestamp DEFAULT now() NOT NULL;--> statement-breakpoint
+ALTER TABLE "properties" ADD COLUMN "expires_at" timestamp;--> statement-breakpoint
+ALTER TABLE "property_status_history" ADD CONSTRAINT "property_status_history_property_id_properties_id_fk" FOREIGN KEY ("property_id") REFERENCES "public"."properties"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "property_status_history" ADD CONSTRAINT "property_status_history_changed_by_users_id_fk" FOREIGN KEY ("changed_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "property_status_history_property_idx" ON "property_status_history" USING btree ("property_id","changed_at");--> statement-breakpoint
+CREATE INDEX "properties_status_idx" ON "properties" USING btree ("status","expires_at");--> statement-breakpoint
+-- Listings taken off the market become drafts; live ones get a fresh expiry (the LISTING_EXPIRY_DAYS default)
+UPDATE "properties" SET
+	"status" = CASE WHEN "active" THEN 'active' ELSE 'draft' END,
+	"status_changed_at" = "updated_at",
+	"expires_at" = CASE WHEN "active" THEN now() + interval '90 days' END;--> statement-breakpoint
+INSERT INTO "property_status_history" ("property_id", "to_status", "changed_by", "changed_at")
+SELECT "id", "status", "seller_id", "created_at" FROM "properties";--> statement-breakpoint
+UPDATE "property_versions" SET "snapshot" = ("snapshot" - 'active') || jsonb_build_object(
+	'status', CASE WHEN ("snapshot"->>'active')::boolean THEN 'active' ELSE 'draft' END
+);--> statement-breakpoint
+ALTER TABLE "properties" DROP COLUMN "active";
@@ -0,0 +1,6 @@
+ALTER TABLE "chats" ADD COLUMN "buyer_last_read_id" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "chats" ADD COLUMN "seller_last_read_id" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+-- Conversations from before read tracking count as read
+UPDATE "chats" SET "buyer_last_read_id" = "latest"."id", "seller_last_read_id" = "latest"."id"
+FROM (SELECT "chat_id", max("id") AS "id" FROM "messages" GROUP BY "chat_id") AS "latest"
+WHERE "latest"."chat_id" = "chats"."id";
@@ -0,0 +1,2 @@
+ALTER TABLE "users" ADD COLUMN "last_seen_at" timestamp;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "hide_presence" boolean DEFAULT false NOT NULL;
\ No newline at end of file
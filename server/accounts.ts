@@ -0,0 +1,70 @@
+import { storage } from "./storage";
+import { hasPermission } from "@shared/permissions";
+import type { Property, User, UserListingPolicy } from "@shared/schema";
+
+// Admin actions on accounts. None of them can be used on yourself or on
+// another admin; take away their admin role first.
+
+export function checkManageable(admin: User, user: User) {
+  if (user.id === admin.id) {
+    throw new Error("You can't do that to your own account");
+  }
+  if (hasPermission(user, "users:manage")) {
+    throw new Error("Admins can't be suspended, reset, deleted or viewed as; change their role first");
+  }
+}
+
+export async function suspendUser(admin: User, user: User, reason?: string): Promise<User> {
+  checkManageable(admin, user);
+  reason = reason?.trim();
+  if (!reason) {
+    throw new Error("A reason is required to suspend an account");
+  }
+  return storage.updateUser(user.id, { suspendedAt: new Date(), suspensionReason: reason });
+}
+
+export async function unsuspendUser(admin: User, user: User): Promise<User> {
+  checkManageable(admin, user);
+  return storage.updateUser(user.id, { suspendedAt: null, suspensionReason: null });
+}
+
+// The user keeps signing in with their current password but can't do
+// anything else until they've chosen a new one
+export async function requirePasswordReset(admin: User, user: User): Promise<User> {
+  checkManageable(admin, user);
+  return storage.updateUser(user.id, { mustResetPassword: true });
+}
+
+// Deletes the account. Its listings are either deleted with it (returned,
+// with who was watching them, so watchers can be told) or moved to
+// another seller or agent, along with the chats about them.
+export async function deleteAccount(
+  admin: User,
+  user: User,
+  listingPolicy: UserListingPolicy,
+  transferToId?: number,
+): Promise<{ property: Property; watcherIds: number[] }[]> {
+  checkManageable(admin, user);
+  const listings = await storage.getPropertiesBySellerId(user.id);
+
+  if (listingPolicy === "transfer") {
+    const newSeller = transferToId !== undefined ? await storage.getUser(transferToId) : undefined;
+    if (!newSeller || newSeller.id === user.id || !hasPermission(newSeller, "listings:create") || newSeller.suspendedAt) {
+      throw new Error("Listings can only be transferred to another active seller or agent");
+    }
+    for (const listing of listings) {
+      await storage.updateProperty(listing.id, { sellerId: newSeller.id }, admin.id);
+    }
+    // Their buyers' conversations go along with the listings
+    await storage.transferChats(user.id, newSeller.id);
+    await storage.deleteUser(user.id);
+    return [];
+  }
+
+  const removed = await Promise.all(listings.map(async (property) => ({
+    property,
+    watcherIds: await storage.getFavouriteUserIds(property.id),
+  })));
+  await storage.deleteUser(user.id);
+  return removed;
+}
@@ -0,0 +1,239 @@
+import { matchesPropertyFilters, storage } from "./storage";
+import { mailer } from "./mailer";
+import { parseFilterQuery } from "./filters";
+import { log } from "./vite";
+import { publicListingStatuses, type ModerationDecisionType, type Notification, type Property, type SavedSearch } from "@shared/schema";
+
+// Saved search alerts: when a listing is created or updated it is checked
+// against every saved search. Each match becomes an in-app notification
+// (once per search and listing) and is emailed straight away for "instant"
+// searches or collected into a daily digest.
+//
+// Watcher alerts: users who favourited a listing get an in-app notification
+// when its price drops or it comes off the market.
+//
+// Sellers get an in-app notification when one of their listings expires or
+// a moderator decides on it.
+
+const appUrl = (process.env.APP_URL || "http://localhost:5000").replace(/\/$/, "");
+
+const digestInterval = 24 * 60 * 60 * 1000;
+const digestCheckInterval = 60 * 60 * 1000;
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+const isListed = (property: Property) => publicListingStatuses.includes(property.status);
+
+const formatPrice = (price: number) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 0 }).format(price);
+
+export const unsubscribeUrl = (savedSearch: SavedSearch) =>
+  `${appUrl}/api/saved-searches/unsubscribe/${savedSearch.unsubscribeToken}`;
+
+// Checked in memory, so a changed listing costs no query per saved search
+function matchesSavedSearch(savedSearch: SavedSearch, property: Property): boolean {
+  const filters = parseFilterQuery(savedSearch.query);
+  // Queries are validated when saved, but skip rather than fail if one isn't
+  if (typeof filters === "string") return false;
+
+  return matchesPropertyFilters(property, filters);
+}
+
+async function sendAlertEmail(savedSearch: SavedSearch, matches: Property[]) {
+  const user = await storage.getUser(savedSearch.userId);
+  if (!user) return;
+
+  const subject = matches.length === 1
+    ? `New listing for "${savedSearch.name}": ${matches[0].title}`
+    : `${matches.length} new listings for "${savedSearch.name}"`;
+  const unsubscribe = unsubscribeUrl(savedSearch);
+
+  const lines = matches.map(property =>
+    `${property.title} - ${formatPrice(property.price)}\n${property.address}\n${appUrl}/property/${property.id}`
+  );
+  const items = matches.map(property => `
+    <li style="margin-bottom:12px">
+      <a href="${appUrl}/property/${property.id}">${escapeHtml(property.title)}</a><br>
+      ${formatPrice(property.price)} &middot; ${escapeHtml(property.address)}
+    </li>`);
+
+  await mailer.send({
+    to: user.email,
+    subject,
+    text: [
+      `Hi ${user.firstName || user.username},`,
+      `New listings match your saved search "${savedSearch.name}":`,
+      ...lines,
+      `See all results: ${appUrl}/?${savedSearch.query}`,
+      `Stop these emails: ${unsubscribe}`,
+    ].join("\n\n"),
+    html: `
+      <p>Hi ${escapeHtml(user.firstName || user.username)},</p>
+      <p>New listings match your saved search <strong>${escapeHtml(savedSearch.name)}</strong>:</p>
+      <ul>${items.join("")}</ul>
+      <p><a href="${appUrl}/?${escapeHtml(savedSearch.query)}">See all results</a></p>
+      <p style="font-size:12px;color:#666"><a href="${unsubscribe}">Unsubscribe</a> from emails for this search</p>`,
+    headers: { "List-Unsubscribe": `<${unsubscribe}>` },
+  });
+}
+
+async function alertSavedSearch(savedSearch: SavedSearch, property: Property) {
+  if (savedSearch.userId === property.sellerId) return;
+  if (!matchesSavedSearch(savedSearch, property)) return;
+  if (await storage.hasSavedSearchNotification(savedSearch.id, property.id)) return;
+
+  const notification = await storage.createNotification({
+    userId: savedSearch.userId,
+    type: "saved_search_match",
+    title: `New match for "${savedSearch.name}"`,
+    body: `${property.title} - ${formatPrice(property.price)}`,
+    link: `/property/${property.id}`,
+    savedSearchId: savedSearch.id,
+    propertyId: property.id,
+  });
+
+  if (savedSearch.emailEnabled && savedSearch.frequency === "instant") {
+    await sendAlertEmail(savedSearch, [property]);
+    await storage.markNotificationsEmailed([notification.id]);
+    await storage.updateSavedSearch(savedSearch.id, { lastEmailedAt: new Date() });
+  }
+}
+
+// Checks a listing against the saved searches. Called after it's created or
+// updated; a listing only ever notifies each search once. A search that
+// fails (a bounced email, say) is logged and doesn't hold up the others.
+export async function notifySavedSearches(property: Property) {
+  if (!isListed(property)) return;
+
+  for (const savedSearch of await storage.getAllSavedSearches()) {
+    try {
+      await alertSavedSearch(savedSearch, property);
+    } catch (error) {
+      log(`alert for saved search ${savedSearch.id} failed: ${(error as Error).message}`, "alerts");
+    }
+  }
+}
+
+async function sendDigest(savedSearch: SavedSearch) {
+  const pending: Notification[] = await storage.getUnemailedNotifications(savedSearch.id);
+  if (!pending.length) return;
+
+  const matches: Property[] = [];
+  for (const notification of pending) {
+    const property = notification.propertyId && await storage.getPropertyById(notification.propertyId);
+    if (property && isListed(property)) matches.push(property);
+  }
+
+  // Matches taken down since are dropped from the digest
+  if (matches.length) {
+    await sendAlertEmail(savedSearch, matches);
+    await storage.updateSavedSearch(savedSearch.id, { lastEmailedAt: new Date() });
+  }
+  await storage.markNotificationsEmailed(pending.map(notification => notification.id));
+}
+
+// Emails each daily search its matches not yet sent, at most once a day.
+// A failed digest is left unsent, to be retried on the next check.
+export async function sendDailyDigests() {
+  const now = Date.now();
+
+  for (const savedSearch of await storage.getAllSavedSearches()) {
+    if (savedSearch.frequency !== "daily" || !savedSearch.emailEnabled) continue;
+    if (savedSearch.lastEmailedAt && now - savedSearch.lastEmailedAt.getTime() < digestInterval) continue;
+
+    try {
+      await sendDigest(savedSearch);
+    } catch (error) {
+      log(`daily digest for saved search ${savedSearch.id} failed: ${(error as Error).message}`, "alerts");
+    }
+  }
+}
+
+export function startDailyDigests() {
+  setInterval(() => {
+    sendDailyDigests().catch(error => log(`daily digest failed: ${(error as Error).message}`, "alerts"));
+  }, digestCheckInterval);
+}
+
+// before is the listing as it was prior to the update. Listings held for
+// review after an edit aren't reported as off the market.
+export async function notifyWatchers(before: Property, after: Property) {
+  const deactivated = isListed(before) && !isListed(after) && after.status !== "pending_review";
+  const priceDropped = isListed(after) && after.price < before.price;
+  if (!deactivated && !priceDropped) return;
+
+  for (const userId of await storage.getFavouriteUserIds(after.id)) {
+    if (userId === after.sellerId) continue;
+
+    await storage.createNotification(deactivated
+      ? {
+          userId,
+          type: "listing_deactivated",
+          title: after.status === "sold" ? "A saved home has sold" : "A saved home is off the market",
+          body: after.status === "sold" ? `${after.title} has been sold` : `${after.title} is no longer available`,
+          link: `/property/${after.id}`,
+          propertyId: after.id,
+        }
+      : {
+          userId,
+          type: "price_drop",
+          title: "Price drop on a saved home",
+          body: `${after.title} is now ${formatPrice(after.price)} (was ${formatPrice(before.price)})`,
+          link: `/property/${after.id}`,
+          propertyId: after.id,
+        });
+  }
+}
+
+// For a deleted listing. Its watchers have to be looked up before deleting,
+// as favourites go with the listing.
+export async function notifyWatchersOfRemoval(property: Property, watcherIds: number[]) {
+  for (const userId of watcherIds) {
+    if (userId === property.sellerId) continue;
+
+    await storage.createNotification({
+      userId,
+      type: "listing_deactivated",
+      title: "A saved home was removed",
+      body: `${property.title} has been taken down by the seller`,
+    });
+  }
+}
+
+export async function notifyListingExpired(property: Property) {
+  await storage.createNotification({
+    userId: property.sellerId,
+    type: "listing_expired",
+    title: "Your listing has expired",
+    body: `${property.title} is no longer shown to buyers. Renew it to put it back on the market.`,
+    link: "/seller/dashboard",
+    propertyId: property.id,
+  });
+}
+
+const moderationMessages: Record<ModerationDecisionType, (property: Property) => { title: string; body: string }> = {
+  approved: (property) => ({
+    title: "Your listing is live",
+    body: `${property.title} has been approved and is now shown to buyers.`,
+  }),
+  rejected: (property) => ({
+    title: "Your listing was rejected",
+    body: `${property.title} won't be published: ${property.moderationNote}`,
+  }),
+  changes_requested: (property) => ({
+    title: "Changes requested on your listing",
+    body: `${property.title} needs changes before it can go live: ${property.moderationNote}`,
+  }),
+};
+
+// property is the listing after the decision
+export async function notifyModerationDecision(property: Property, decision: ModerationDecisionType) {
+  await storage.createNotification({
+    userId: property.sellerId,
+    type: "listing_moderated",
+    ...moderationMessages[decision](property),
+    link: "/seller/dashboard",
+    propertyId: property.id,
+  });
+}
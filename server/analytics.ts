@@ -0,0 +1,61 @@
+import { storage, type DateRange } from "./storage";
+import { nextDay, parseDay } from "./dates";
+import type { AdminAnalytics, DailyActivity } from "@shared/schema";
+
+// Figures for the admin analytics tab, over whole UTC days
+
+// Without ?from=, the last defaultRangeDays days up to and including today
+const defaultRangeDays = 30;
+const maxRangeDays = 366;
+// Areas shown in the median price chart
+const areaLimit = 10;
+
+const dayOf = (date: Date) => date.toISOString().slice(0, 10);
+
+// ?from=&to=, both YYYY-MM-DD and included
+export function parseAnalyticsRange(query: Record<string, unknown>): DateRange {
+  const to = nextDay(parseDay(query.to, "to") ?? new Date(`${dayOf(new Date())}T00:00:00.000Z`));
+  const from = parseDay(query.from, "from") ?? new Date(to.getTime() - defaultRangeDays * 24 * 60 * 60 * 1000);
+
+  if (from >= to) {
+    throw new Error("from must be on or before to");
+  }
+  if (to.getTime() - from.getTime() > maxRangeDays * 24 * 60 * 60 * 1000) {
+    throw new Error(`The range can be at most ${maxRangeDays} days`);
+  }
+  return { from, to };
+}
+
+const round = (value: number | null) => (value === null ? null : Math.round(value * 10) / 10);
+
+export async function getAdminAnalytics(range: DateRange): Promise<AdminAnalytics> {
+  const [activity, breakdown, medianPriceByArea, responseTimes, conversion] = await Promise.all([
+    storage.getDailyActivity(range),
+    storage.getListingBreakdown(range),
+    storage.getMedianPricesByArea(range, areaLimit),
+    storage.getResponseTimes(range),
+    storage.getViewConversion(range),
+  ]);
+
+  // Days without activity are left out by storage; charts want them as zeros
+  const byDay = new Map(activity.map(day => [day.date, day]));
+  const daily: DailyActivity[] = [];
+  for (let day = range.from; day < range.to; day = nextDay(day)) {
+    const date = dayOf(day);
+    daily.push(byDay.get(date) ?? { date, users: 0, listings: 0, chats: 0, messages: 0, views: 0 });
+  }
+
+  return {
+    from: dayOf(range.from),
+    to: dayOf(new Date(range.to.getTime() - 1)),
+    daily,
+    ...breakdown,
+    medianPriceByArea,
+    responseTimes: {
+      ...responseTimes,
+      medianMinutes: round(responseTimes.medianMinutes),
+      averageMinutes: round(responseTimes.averageMinutes),
+    },
+    conversion,
+  };
+}
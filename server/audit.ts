@@ -0,0 +1,103 @@
+import type { Request } from "express";
+import { storage, type AuditLogFilters } from "./storage";
+import { nextDay, parseDay } from "./dates";
+import { log } from "./vite";
+import { auditActions, type AuditAction, type AuditLogEntry, type AuditTargetType, type User } from "@shared/schema";
+
+// The audit log: who did what to which record, from where. Entries are
+// written after the action succeeds; a failed write is logged rather than
+// failing a request whose change has already been made.
+
+export interface AuditEvent {
+  action: AuditAction;
+  target?: { type: AuditTargetType; id: number };
+  // The record either side of the change; passwords are dropped
+  before?: object | null;
+  after?: object | null;
+  // Defaults to the signed-in user; null for anonymous actions
+  actor?: Pick<User, "id" | "username"> | null;
+}
+
+// Most entries one CSV export will include
+const maxExportEntries = 10000;
+
+// Plain JSON, so entries look the same whichever storage wrote them
+function toPayload(record: object | null | undefined): Record<string, unknown> | null {
+  if (!record) return null;
+  const { password, ...payload } = JSON.parse(JSON.stringify(record));
+  return payload;
+}
+
+export async function recordAudit(req: Request, event: AuditEvent): Promise<void> {
+  const actor = event.actor !== undefined ? event.actor : req.user;
+  try {
+    await storage.createAuditLogEntry({
+      actorId: actor?.id ?? null,
+      actorUsername: actor?.username ?? null,
+      action: event.action,
+      targetType: event.target?.type ?? null,
+      targetId: event.target?.id ?? null,
+      ip: req.ip ?? null,
+      userAgent: req.get("user-agent") ?? null,
+      before: toPayload(event.before),
+      after: toPayload(event.after),
+    });
+  } catch (error) {
+    log(`couldn't record ${event.action}: ${(error as Error).message}`, "audit");
+  }
+}
+
+// ?actorId=&action=&from=&to=&before=&limit=; from and to are whole days,
+// both included
+export function parseAuditFilters(query: Record<string, unknown>): AuditLogFilters {
+  const filters: AuditLogFilters = {};
+
+  if (query.actorId) {
+    filters.actorId = parseInt(query.actorId as string);
+    if (isNaN(filters.actorId)) throw new Error("actorId must be a user id");
+  }
+  if (query.action) {
+    const action = query.action as AuditAction;
+    if (!auditActions.includes(action)) throw new Error("Unknown audit action");
+    filters.action = action;
+  }
+
+  filters.from = parseDay(query.from, "from");
+  const to = parseDay(query.to, "to");
+  if (to) filters.to = nextDay(to);
+
+  if (query.before) filters.beforeId = parseInt(query.before as string) || undefined;
+  if (query.limit) filters.limit = Math.min(Math.max(parseInt(query.limit as string) || 100, 1), 500);
+  return filters;
+}
+
+// Every entry matching the filters, newest first, up to maxExportEntries
+export async function getAuditExport(filters: AuditLogFilters): Promise<AuditLogEntry[]> {
+  const entries: AuditLogEntry[] = [];
+  let beforeId = filters.beforeId;
+  while (entries.length < maxExportEntries) {
+    const page = await storage.getAuditLog({ ...filters, beforeId, limit: 500 });
+    entries.push(...page);
+    if (page.length < 500) break;
+    beforeId = page[page.length - 1].id;
+  }
+  return entries.slice(0, maxExportEntries);
+}
+
+const csvColumns: (keyof AuditLogEntry)[] = [
+  "id", "createdAt", "actorId", "actorUsername", "action", "targetType", "targetId", "ip", "userAgent", "before", "after",
+];
+
+// Quoted where needed, and with formula-like values (user agents come from
+// the client) prefixed so spreadsheets show them as text
+function csvValue(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  let text = value instanceof Date ? value.toISOString() : typeof value === "object" ? JSON.stringify(value) : String(value);
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toAuditCsv(entries: AuditLogEntry[]): string {
+  const rows = entries.map(entry => csvColumns.map(column => csvValue(entry[column])).join(","));
+  return [csvColumns.join(","), ...rows].join("\r\n") + "\r\n";
+}
@@ -1,11 +1,13 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
+import { Express, RequestHandler } from "express";
 import session from "express-session";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
-import { insertUserSchema, User as SelectUser, loginSchema } from "@shared/schema";
+import { insertUserSchema, selfServiceRoles, User as SelectUser, loginSchema, passwordChangeSchema } from "@shared/schema";
+import { impersonationGuard, toSessionUser } from "./impersonation";
+import { recordAudit } from "./audit";
 import { z } from "zod";
 
 declare global {
@@ -16,7 +18,7 @@ declare global {
 
 const scryptAsync = promisify(scrypt);
 
-async function hashPassword(password: string) {
+export async function hashPassword(password: string) {
   const salt = randomBytes(16).toString("hex");
   const buf = (await scryptAsync(password, salt, 64)) as Buffer;
   return `${buf.toString("hex")}.${salt}`;
@@ -29,7 +31,7 @@ async function comparePasswords(supplied: string, stored: string) {
   return timingSafeEqual(hashedBuf, suppliedBuf);
 }
 
-export function setupAuth(app: Express) {
+export function setupAuth(app: Express): RequestHandler {
   const sessionSecret = process.env.SESSION_SECRET || "estatetify-secret-key";
   
   const sessionSettings: session.SessionOptions = {
@@ -42,10 +44,14 @@ export function setupAuth(app: Express) {
     }
   };
 
+  // Also run by the chat socket to authenticate its upgrade requests
+  const sessionParser = session(sessionSettings);
+
   app.set("trust proxy", 1);
-  app.use(session(sessionSettings));
+  app.use(sessionParser);
   app.use(passport.initialize());
   app.use(passport.session());
+  app.use(impersonationGuard);
 
   passport.use(
     new LocalStrategy(async (username, password, done) => {
@@ -53,6 +59,8 @@ export function setupAuth(app: Express) {
         const user = await storage.getUserByUsername(username);
         if (!user || !(await comparePasswords(password, user.password))) {
           return done(null, false, { message: "Invalid username or password" });
+        } else if (user.suspendedAt) {
+          return done(null, false, { message: `This account has been suspended: ${user.suspensionReason}` });
         } else {
           return done(null, user);
         }
@@ -65,8 +73,9 @@ export function setupAuth(app: Express) {
   passport.serializeUser((user, done) => done(null, user.id));
   passport.deserializeUser(async (id: number, done) => {
     try {
+      // Suspending an account signs it out everywhere
       const user = await storage.getUser(id);
-      done(null, user);
+      done(null, user && !user.suspendedAt ? user : false);
     } catch (error) {
       done(error);
     }
@@ -78,6 +87,8 @@ export function setupAuth(app: Express) {
       
       // Validate user data
       const userSchema = insertUserSchema.extend({
+        // Other roles are granted by an admin
+        role: z.enum(selfServiceRoles).optional(),
         password: z.string().min(6, "Password must be at least 6 characters"),
         confirmPassword: z.string().optional(),
       }).refine((data) => !data.confirmPassword || data.password === data.confirmPassword, {
@@ -102,6 +113,7 @@ export function setupAuth(app: Express) {
         ...userDataWithoutConfirm,
         password: hashedPassword,
       });
+      await recordAudit(req, { action: "auth.register", actor: user, target: { type: "user", id: user.id }, after: user });
 
       // Remove password from response
       const { password, ...userWithoutPassword } = user;
@@ -127,10 +139,14 @@ export function setupAuth(app: Express) {
       // Validate login data
       const validatedData = loginSchema.parse(req.body);
       
-      passport.authenticate("local", (err, user, info) => {
+      passport.authenticate("local", (err: unknown, user: SelectUser | false, info?: { message?: string }) => {
         if (err) return next(err);
         if (!user) {
-          return res.status(401).json({ message: info?.message || "Invalid username or password" });
+          return recordAudit(req, {
+            action: "auth.login_failed",
+            actor: null,
+            after: { username: validatedData.username, reason: info?.message },
+          }).then(() => res.status(401).json({ message: info?.message || "Invalid username or password" }));
         }
         
         req.login(user, (err) => {
@@ -138,7 +154,8 @@ export function setupAuth(app: Express) {
           
           // Remove password from response
           const { password, ...userWithoutPassword } = user;
-          return res.json(userWithoutPassword);
+          recordAudit(req, { action: "auth.login", target: { type: "user", id: user.id } })
+            .then(() => res.json(userWithoutPassword));
         });
       })(req, res, next);
     } catch (error) {
@@ -152,30 +169,68 @@ export function setupAuth(app: Express) {
     }
   });
 
-  app.post("/api/logout", (req, res, next) => {
+  app.post("/api/logout", async (req, res, next) => {
+    try {
+      if (req.session.impersonation) {
+        await storage.endImpersonationSession(req.session.impersonation.sessionId);
+      }
+      if (req.isAuthenticated()) {
+        await recordAudit(req, { action: "auth.logout", target: { type: "user", id: req.user.id } });
+      }
+    } catch (error) {
+      return next(error);
+    }
+    
     req.logout((err) => {
       if (err) return next(err);
       res.sendStatus(200);
     });
   });
 
-  app.get("/api/user", (req, res) => {
+  app.get("/api/user", async (req, res, next) => {
     if (!req.isAuthenticated()) {
       return res.sendStatus(401);
     }
     
-    // Remove password from response
-    const { password, ...userWithoutPassword } = req.user;
-    res.json(userWithoutPassword);
+    try {
+      res.json(await toSessionUser(req));
+    } catch (error) {
+      next(error);
+    }
   });
   
-  app.post("/api/admin/verify", (req, res) => {
-    const { password } = req.body;
-    
-    if (password === process.env.ADMIN_PASSWORD || password === "admin123") {
-      return res.status(200).json({ verified: true });
+  // Also how users clear an admin-forced reset
+  app.post("/api/user/password", async (req, res, next) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.sendStatus(401);
+      }
+      
+      const { currentPassword, newPassword } = passwordChangeSchema.parse(req.body);
+      if (!(await comparePasswords(currentPassword, req.user.password))) {
+        return res.status(400).json({ message: "Your current password is incorrect" });
+      }
+      if (currentPassword === newPassword) {
+        return res.status(400).json({ message: "Choose a password you haven't used before" });
+      }
+      
+      const user = await storage.updateUser(req.user.id, {
+        password: await hashPassword(newPassword),
+        mustResetPassword: false,
+      });
+      await recordAudit(req, { action: "auth.password_change", target: { type: "user", id: user.id } });
+      const { password, ...userWithoutPassword } = user;
+      res.json(userWithoutPassword);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Validation failed", 
+          errors: error.errors 
+        });
+      }
+      next(error);
     }
-    
-    return res.status(401).json({ verified: false, message: "Invalid admin password" });
   });
+
+  return sessionParser;
 }
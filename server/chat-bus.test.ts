@@ -0,0 +1,225 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { fork, type ChildProcess } from "child_process";
+import { once } from "events";
+import path from "path";
+import WebSocket from "ws";
+import type { ChatServerEvent } from "@shared/chat-protocol";
+import { startTestDatabase } from "./testing/postgres";
+
+// Two server instances on one database, each in a process of its own, so
+// chat events can only get from one to the other over LISTEN/NOTIFY
+
+const database = await startTestDatabase();
+process.env.DATABASE_URL = database.url;
+// Imported once DATABASE_URL is set, which the database module reads on import
+const { pool } = await import("./db");
+const { runMigrations } = await import("./migrate");
+const { storage } = await import("./storage");
+const { hashPassword } = await import("./auth");
+const { PostgresChatBus } = await import("./chat-bus");
+
+const password = "password123";
+const eventTimeoutMs = 5000;
+
+interface Instance {
+  url: string;
+  process: ChildProcess;
+}
+
+async function startInstance(): Promise<Instance> {
+  const child = fork(path.join(process.cwd(), "server", "testing", "chat-instance.ts"), {
+    execArgv: ["--import", "tsx"],
+    env: { ...process.env, DATABASE_WS_PROXY: database.proxy, CHAT_BUS: "postgres" },
+    stdio: ["ignore", "ignore", "inherit", "ipc"],
+  });
+  const [{ port }] = await Promise.race([
+    once(child, "message") as Promise<[{ port: number }]>,
+    once(child, "exit").then(([code]) => { throw new Error(`chat instance exited with ${code}`); }),
+  ]);
+  return { url: `127.0.0.1:${port}`, process: child };
+}
+
+async function stopInstance(instance: Instance) {
+  if (instance.process.exitCode !== null) return;
+  const exited = once(instance.process, "exit");
+  instance.process.kill();
+  await exited;
+}
+
+// Both instances have to be listening before anything is published, as
+// the bus doesn't keep what's sent while an instance isn't
+async function waitForListeners(count: number) {
+  for (let attempt = 0; attempt < 100; attempt++) {
+    const { rows } = await pool.query(
+      "SELECT 1 FROM pg_stat_activity WHERE datname = current_database() AND query = 'LISTEN chat_events'",
+    );
+    if (rows.length >= count) return;
+    await new Promise(resolve => setTimeout(resolve, 100));
+  }
+  throw new Error("chat instances never started listening");
+}
+
+// The session cookie for the user, signed in on the instance
+async function signIn(instance: Instance, username: string): Promise<string> {
+  const res = await fetch(`http://${instance.url}/api/login`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ username, password }),
+  });
+  assert.equal(res.status, 200);
+  return res.headers.get("set-cookie")!.split(";")[0];
+}
+
+// A chat socket with the events it's had so far, once the server says it's ready
+async function openSocket(instance: Instance, cookie: string) {
+  const ws = new WebSocket(`ws://${instance.url}/ws/chat`, { headers: { cookie } });
+  const events: ChatServerEvent[] = [];
+  const waiters: (() => void)[] = [];
+  ws.on("message", data => {
+    events.push(JSON.parse(data.toString()));
+    waiters.splice(0).forEach(wake => wake());
+  });
+
+  // Resolves with the first event, already received or not, that matches
+  async function nextEvent<T extends ChatServerEvent>(matches: (event: ChatServerEvent) => event is T): Promise<T> {
+    const deadline = Date.now() + eventTimeoutMs;
+    for (;;) {
+      const found = events.find(matches);
+      if (found) return found;
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) throw new Error(`no matching event; got ${JSON.stringify(events)}`);
+      await new Promise<void>(resolve => {
+        const timer = setTimeout(resolve, remaining);
+        waiters.push(() => { clearTimeout(timer); resolve(); });
+      });
+    }
+  }
+
+  await nextEvent((event): event is ChatServerEvent => event.type === "ready");
+  return { ws, events, nextEvent };
+}
+
+const isMessage = (content: string) =>
+  (event: ChatServerEvent): event is Extract<ChatServerEvent, { type: "message" }> =>
+    event.type === "message" && event.message.content === content;
+
+describe("PostgresChatBus", () => {
+  const instances: Instance[] = [];
+  const sockets: WebSocket[] = [];
+  let a: Instance;
+  let b: Instance;
+  let chatId: number;
+  let buyerId: number;
+  let sellerId: number;
+
+  before(async () => {
+    await runMigrations();
+
+    const hashed = await hashPassword(password);
+    const seller = await storage.createUser({
+      username: "seller", password: hashed, email: "seller@example.com", firstName: "Sam", lastName: "Seller", role: "seller",
+    });
+    const buyer = await storage.createUser({
+      username: "buyer", password: hashed, email: "buyer@example.com", firstName: "Bea", lastName: "Buyer", role: "buyer",
+    });
+    const listing = await storage.createProperty({
+      sellerId: seller.id,
+      title: "Bright family house",
+      address: "12 Main Street",
+      price: 250000,
+      contactNumber: "555-0100",
+      propertyType: "house",
+      description: "Three bedrooms close to the park",
+      images: [],
+    });
+    const chat = await storage.createChat({ buyerId: buyer.id, sellerId: seller.id, propertyId: listing.id });
+    chatId = chat.id;
+    buyerId = buyer.id;
+    sellerId = seller.id;
+
+    a = await startInstance();
+    instances.push(a);
+    b = await startInstance();
+    instances.push(b);
+    await waitForListeners(2);
+  });
+
+  after(async () => {
+    sockets.forEach(ws => ws.terminate());
+    await Promise.all(instances.map(stopInstance));
+    await pool.end();
+    await database.stop();
+  });
+
+  test("delivers a message sent on one instance to a socket on another", async () => {
+    const buyer = await openSocket(a, await signIn(a, "buyer"));
+    const seller = await openSocket(b, await signIn(b, "seller"));
+    sockets.push(buyer.ws, seller.ws);
+
+    buyer.ws.send(JSON.stringify({ v: 1, type: "send", ref: "greeting", chatId, content: "Is it still available?" }));
+
+    const { message } = await seller.nextEvent(isMessage("Is it still available?"));
+    assert.equal(message.chatId, chatId);
+    assert.equal(message.senderId, buyerId);
+    // The sender's own socket gets an ack rather than the message
+    await buyer.nextEvent((event): event is ChatServerEvent => event.type === "ack" && event.ref === "greeting");
+  });
+
+  test("delivers messages too long for a notification by id", async () => {
+    const seller = await openSocket(b, await signIn(b, "seller"));
+    sockets.push(seller.ws);
+    const content = "A long question about the house. ".repeat(300);
+
+    const res = await fetch(`http://${a.url}/api/messages`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", cookie: await signIn(a, "buyer") },
+      body: JSON.stringify({ chatId, content }),
+    });
+    assert.equal(res.status, 200);
+
+    const { message } = await seller.nextEvent(isMessage(content));
+    assert.equal(message.id, (await res.json()).id);
+  });
+
+  test("splits other events too large for a notification between their users", async () => {
+    const seller = await openSocket(b, await signIn(b, "seller"));
+    sockets.push(seller.ws);
+    // Published from this process, as a third instance
+    const bus = new PostgresChatBus();
+    const lastSeenAt = new Date("2024-01-31T12:00:00Z");
+    const manyUserIds = Array.from({ length: 2000 }, (_, index) => 100000 + index);
+
+    await bus.publish({
+      type: "event",
+      userIds: [...manyUserIds, sellerId],
+      event: { type: "presence", userId: buyerId, online: false, lastSeenAt },
+    });
+
+    const event = await seller.nextEvent(
+      (event): event is Extract<ChatServerEvent, { type: "presence" }> =>
+        event.type === "presence" && new Date(event.lastSeenAt!).getTime() === lastSeenAt.getTime(),
+    );
+    assert.equal(event.userId, buyerId);
+  });
+
+  test("ignores notifications that aren't valid", async () => {
+    const seller = await openSocket(b, await signIn(b, "seller"));
+    sockets.push(seller.ws);
+    const notification = (userId: unknown) => JSON.stringify({
+      origin: "elsewhere",
+      message: { type: "event", userIds: [sellerId], event: { type: "typing", chatId, userId } },
+    });
+
+    // In one statement, so they arrive in order
+    await pool.query("SELECT pg_notify('chat_events', $1), pg_notify('chat_events', $2), pg_notify('chat_events', $3)", [
+      "not json",
+      notification("not a user id"),
+      notification(buyerId),
+    ]);
+
+    await seller.nextEvent((event): event is ChatServerEvent => event.type === "typing" && event.userId === buyerId);
+    const { events } = seller;
+    assert.ok(events.every(event => event.type !== "typing" || event.userId === buyerId));
+  });
+});
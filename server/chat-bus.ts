@@ -0,0 +1,177 @@
+import { randomBytes } from "crypto";
+import type { PoolClient } from "@neondatabase/serverless";
+import { z } from "zod";
+import { pool } from "./db";
+import { storage, storageDriver } from "./storage";
+import { log } from "./vite";
+import { chatProtocolVersion, chatServerFrameSchema, type ChatServerEvent } from "@shared/chat-protocol";
+
+// How chat events reach sockets on every server instance, not only the one
+// that produced them. The chat socket publishes everything here and delivers
+// what it's handed by subscribe to the sockets it holds.
+
+export type ChatBusMessage =
+  // For all of these users' sockets but `except`, the connection it came from
+  | { type: "event"; userIds: number[]; event: ChatServerEvent; except?: string }
+  // Their accounts were suspended or deleted
+  | { type: "disconnect"; userIds: number[] };
+
+export interface ChatBus {
+  publish(message: ChatBusMessage): Promise<void>;
+  // Gets every message, published on this instance or another
+  subscribe(handler: (message: ChatBusMessage) => void): void;
+}
+
+// A single instance: messages go straight to the subscribers
+export class InProcessChatBus implements ChatBus {
+  private handlers: ((message: ChatBusMessage) => void)[] = [];
+
+  subscribe(handler: (message: ChatBusMessage) => void) {
+    this.handlers.push(handler);
+  }
+
+  async publish(message: ChatBusMessage): Promise<void> {
+    this.deliver(message);
+  }
+
+  protected deliver(message: ChatBusMessage) {
+    this.handlers.forEach(handler => handler(message));
+  }
+}
+
+const channel = "chat_events";
+// NOTIFY payloads have to be under 8000 bytes
+const maxPayloadBytes = 7900;
+const relistenDelayMs = 5000;
+
+// What goes over the channel. Messages too long to fit are sent by id and
+// loaded from the database by the instances that receive them; other events
+// are sent in parts, each for some of their users.
+type Notification =
+  | { origin: string; message: ChatBusMessage }
+  | { origin: string; messageId: number; userIds: number[]; except?: string };
+
+const userIdsSchema = z.array(z.number().int().positive());
+// Events are checked as the frames sockets get, with the version added
+const eventSchema = z.preprocess(
+  event => (typeof event === "object" && event !== null ? { ...event, v: chatProtocolVersion } : event),
+  chatServerFrameSchema,
+);
+const notificationSchema: z.ZodType<Notification, z.ZodTypeDef, unknown> = z.union([
+  z.object({
+    origin: z.string(),
+    message: z.discriminatedUnion("type", [
+      z.object({ type: z.literal("event"), userIds: userIdsSchema, event: eventSchema, except: z.string().optional() }),
+      z.object({ type: z.literal("disconnect"), userIds: userIdsSchema }),
+    ]),
+  }),
+  z.object({ origin: z.string(), messageId: z.number().int().positive(), userIds: userIdsSchema, except: z.string().optional() }),
+]);
+
+// Instances sharing a database, through LISTEN/NOTIFY. Each instance
+// delivers its own messages directly and skips them when they come back.
+// Anything published while an instance isn't listening is missed there;
+// its clients catch up when their sockets reconnect and resume.
+export class PostgresChatBus extends InProcessChatBus {
+  private instanceId = randomBytes(8).toString("hex");
+  private listening = false;
+
+  subscribe(handler: (message: ChatBusMessage) => void) {
+    super.subscribe(handler);
+    if (!this.listening) {
+      this.listening = true;
+      this.listen();
+    }
+  }
+
+  async publish(message: ChatBusMessage): Promise<void> {
+    this.deliver(message);
+
+    for (const payload of this.payloads(message)) {
+      await pool.query("SELECT pg_notify($1, $2)", [channel, payload]);
+    }
+  }
+
+  // The message as notifications that fit: a chat message too long to fit
+  // goes by id, and anything else too long is split between its users
+  private payloads(message: ChatBusMessage): string[] {
+    const payload = JSON.stringify({ origin: this.instanceId, message } satisfies Notification);
+    if (Buffer.byteLength(payload) <= maxPayloadBytes) return [payload];
+
+    if (message.type === "event" && message.event.type === "message") {
+      const { userIds, except } = message;
+      return [JSON.stringify({
+        origin: this.instanceId,
+        messageId: message.event.message.id,
+        userIds,
+        except,
+      } satisfies Notification)];
+    }
+    if (message.userIds.length > 1) {
+      const half = Math.ceil(message.userIds.length / 2);
+      return [message.userIds.slice(0, half), message.userIds.slice(half)]
+        .flatMap(userIds => this.payloads({ ...message, userIds }));
+    }
+    throw new Error(`a ${message.type} for one user is too large for a notification`);
+  }
+
+  private async receive(payload: string) {
+    const parsed = notificationSchema.safeParse(JSON.parse(payload));
+    if (!parsed.success) {
+      return log("ignored a chat event that isn't valid", "chat");
+    }
+    const notification = parsed.data;
+    if (notification.origin === this.instanceId) return;
+    if ("message" in notification) {
+      return this.deliver(notification.message);
+    }
+
+    const message = await storage.getMessageById(notification.messageId);
+    if (!message) return;
+    const { userIds, except } = notification;
+    this.deliver({ type: "event", userIds, except, event: { type: "message", message } });
+  }
+
+  // Holds a connection open for LISTEN, starting over whenever it drops
+  private async listen() {
+    let client: PoolClient | undefined;
+    let failed = false;
+    const fail = (error: Error) => {
+      if (failed) return;
+      failed = true;
+      log(`stopped listening for chat events: ${error.message}`, "chat");
+      client?.release(error);
+      setTimeout(() => this.listen(), relistenDelayMs);
+    };
+
+    try {
+      client = await pool.connect();
+      client.on("notification", ({ payload }) => {
+        if (!payload) return;
+        this.receive(payload).catch(error => log(`couldn't deliver a chat event: ${(error as Error).message}`, "chat"));
+      });
+      client.on("error", fail);
+      client.on("end", () => fail(new Error("connection closed")));
+      await client.query(`LISTEN ${channel}`);
+    } catch (error) {
+      fail(error as Error);
+    }
+  }
+}
+
+// CHAT_BUS picks the bus explicitly ("memory" or "postgres"); otherwise
+// instances sharing a database share chat events too
+export const chatBusDriver = process.env.CHAT_BUS ?? (storageDriver === "database" ? "postgres" : "memory");
+
+function createChatBus(driver: string): ChatBus {
+  switch (driver) {
+    case "memory":
+      return new InProcessChatBus();
+    case "postgres":
+      return new PostgresChatBus();
+    default:
+      throw new Error(`Unknown CHAT_BUS "${driver}"`);
+  }
+}
+
+export const chatBus = createChatBus(chatBusDriver);
@@ -0,0 +1,358 @@
+import { randomBytes } from "crypto";
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import type { Request, RequestHandler, Response } from "express";
+import passport from "passport";
+import { WebSocketServer, type RawData, type WebSocket } from "ws";
+import { z, ZodError } from "zod";
+import { storage } from "./storage";
+import { chatBus, chatBusDriver, type ChatBusMessage } from "./chat-bus";
+import { ChatError, getParticipantChat, markChatRead, otherParticipant, presenceOf, sendChatMessage } from "./chat";
+import { signInProblem } from "./permissions";
+import { log } from "./vite";
+import type { Chat, User } from "@shared/schema";
+import {
+  chatClientFrameSchema,
+  chatCloseCodes,
+  chatProtocolVersion,
+  typingIntervalMs,
+  type ChatClientFrame,
+  type ChatErrorCode,
+  type ChatServerEvent,
+} from "@shared/chat-protocol";
+
+// Real-time chat on /ws/chat. The upgrade request is authenticated from the
+// session cookie by the same session and passport middleware as the API, so
+// a socket always acts as its session's user and never as one it names.
+// Users can have any number of sockets open (tabs, devices), on any server
+// instance; events go out through the chat bus and each socket gets every
+// event for its user.
+// Users are online while they have a socket open. Each instance keeps the
+// lastSeenAt of the users it holds sockets for a little ahead of now, so
+// instances agree on who's online and users drop off on their own if the
+// instance holding their sockets goes away.
+
+const chatPath = "/ws/chat";
+const maxFrameBytes = 16 * 1024;
+// Sockets that haven't answered the previous ping by the next are dropped
+const heartbeatIntervalMs = 30 * 1000;
+// Most missed messages one "resume" sends back
+const resumeLimit = 500;
+// What's needed from any frame to answer it, even one that isn't valid
+const frameEnvelopeSchema = z.object({
+  v: z.unknown(),
+  ref: z.string().optional().catch(undefined),
+});
+// How far ahead of now lastSeenAt is kept; long enough to outlast a late
+// heartbeat
+const presenceLeaseMs = 2 * heartbeatIntervalMs + 15 * 1000;
+// "typing" frames closer together than this are dropped, with some slack
+// for frames held up on the way
+const minTypingGapMs = typingIntervalMs - 500;
+
+interface Connection {
+  id: string;
+  ws: WebSocket;
+  userId: number;
+  // An admin viewing as the user; sockets are read-only, as the API is
+  impersonating: boolean;
+  // Cleared by each heartbeat, set again by the pong
+  alive: boolean;
+  // When the last "typing" frame for each chat was passed on
+  lastTypingAt: Map<number, number>;
+}
+
+// Sockets open on this instance, by user id
+const clients = new Map<number, Set<Connection>>();
+
+function send(ws: WebSocket, event: ChatServerEvent) {
+  ws.send(JSON.stringify({ v: chatProtocolVersion, ...event }));
+}
+
+function publish(message: ChatBusMessage) {
+  chatBus.publish(message).catch(error => log(`couldn't publish a chat event: ${(error as Error).message}`, "chat"));
+}
+
+// To all of the user's sockets but `except`, the connection the event came from
+export function sendToUser(userId: number, event: ChatServerEvent, except?: Connection) {
+  publish({ type: "event", userIds: [userId], event, except: except?.id });
+}
+
+export function sendToChat(chat: Chat, event: ChatServerEvent, except?: Connection) {
+  publish({ type: "event", userIds: [chat.buyerId, chat.sellerId], event, except: except?.id });
+}
+
+// Closes a user's sockets once they're suspended or deleted
+export function disconnectUser(userId: number) {
+  publish({ type: "disconnect", userIds: [userId] });
+}
+
+// Whether the user has a socket of their own open on this instance, not
+// counting admins viewing as them
+function isHere(userId: number) {
+  return Array.from(clients.get(userId) ?? []).some(connection => !connection.impersonating);
+}
+
+// Tells everyone the user has a chat with what they now see of the user
+export async function announcePresence(user: User) {
+  const partnerIds = await storage.getChatPartnerIds(user.id);
+  if (!partnerIds.length) return;
+  publish({ type: "event", userIds: partnerIds, event: { type: "presence", userId: user.id, ...presenceOf(user) } });
+}
+
+async function setPresence(userId: number, online: boolean): Promise<void> {
+  const now = Date.now();
+  await storage.setLastSeen([userId], new Date(online ? now + presenceLeaseMs : now));
+  // Reconnected while going offline was being saved
+  if (!online && isHere(userId)) return setPresence(userId, true);
+
+  const user = await storage.getUser(userId);
+  if (user && !user.hidePresence) await announcePresence(user);
+}
+
+// Keeps the users with sockets here online
+function extendPresence() {
+  const userIds = Array.from(clients.keys()).filter(isHere);
+  storage.setLastSeen(userIds, new Date(Date.now() + presenceLeaseMs))
+    .catch(error => log(`couldn't update presence: ${(error as Error).message}`, "chat"));
+}
+
+// Hands what comes off the bus to the sockets on this instance
+function deliver(message: ChatBusMessage) {
+  // The user closed their last socket on another instance but still has
+  // one here, so they're still online
+  if (message.type === "event" && message.event.type === "presence" && !message.event.online && isHere(message.event.userId)) {
+    const { userId } = message.event;
+    setPresence(userId, true).catch(error => log(`couldn't update presence for user ${userId}: ${(error as Error).message}`, "chat"));
+  }
+
+  message.userIds.forEach(userId => {
+    const connections = clients.get(userId);
+    if (!connections) return;
+
+    if (message.type === "disconnect") {
+      connections.forEach(({ ws }) => ws.close(chatCloseCodes.accountUnavailable, "Account unavailable"));
+      clients.delete(userId);
+      return;
+    }
+    connections.forEach(connection => {
+      if (connection.id !== message.except) send(connection.ws, message.event);
+    });
+  });
+}
+
+// Runs the API's session and passport middleware against the upgrade request
+async function authenticate(req: IncomingMessage, sessionParser: RequestHandler): Promise<Request> {
+  const request = req as Request;
+  // Nothing is written back; the socket has no response to set cookies on
+  const response = {} as Response;
+  const run = (middleware: RequestHandler) =>
+    new Promise<void>((resolve, reject) =>
+      middleware(request, response, error => (error ? reject(error) : resolve())));
+
+  await run(sessionParser);
+  await run(passport.initialize());
+  await run(passport.session());
+  return request;
+}
+
+function reject(socket: Duplex, status: 401 | 403, reason: string) {
+  socket.end(`HTTP/1.1 ${status} ${reason}\r\nConnection: close\r\n\r\n`);
+}
+
+function errorEvent(error: unknown, ref?: string): ChatServerEvent {
+  let code: ChatErrorCode = "server_error";
+  let message = "Something went wrong, try again";
+  if (error instanceof ChatError) {
+    code = error.status === 404 ? "not_found" : error.status === 409 ? "read_only" : "forbidden";
+    message = error.message;
+  } else if (error instanceof ZodError) {
+    code = "bad_request";
+    message = error.errors[0]?.message ?? "Invalid frame";
+  }
+  return { type: "error", ref, code, message };
+}
+
+// Checks the frame against the protocol, sending back an error if it's not
+function parseFrame(ws: WebSocket, data: RawData): ChatClientFrame | undefined {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(data.toString());
+  } catch {
+    send(ws, { type: "error", code: "bad_request", message: "Frames must be JSON" });
+    return undefined;
+  }
+
+  const envelope = frameEnvelopeSchema.safeParse(raw);
+  const ref = envelope.success ? envelope.data.ref : undefined;
+  if (!envelope.success || envelope.data.v !== chatProtocolVersion) {
+    send(ws, {
+      type: "error",
+      ref,
+      code: "unsupported_version",
+      message: `This server speaks version ${chatProtocolVersion} of the chat protocol`,
+    });
+    return undefined;
+  }
+
+  const parsed = chatClientFrameSchema.safeParse(raw);
+  if (!parsed.success) {
+    send(ws, errorEvent(parsed.error, ref));
+    return undefined;
+  }
+  return parsed.data;
+}
+
+async function handleFrame(connection: Connection, frame: ChatClientFrame) {
+  const { ws } = connection;
+  const ref = frame.type === "send" ? frame.ref : undefined;
+
+  // Suspensions and resets may have happened since the socket opened
+  const user = await storage.getUser(connection.userId);
+  if (!user || user.suspendedAt) {
+    return ws.close(chatCloseCodes.accountUnavailable, "Account unavailable");
+  }
+  if (user.mustResetPassword && !connection.impersonating) {
+    return send(ws, { type: "error", ref, code: "forbidden", message: "Choose a new password to continue" });
+  }
+  if (connection.impersonating && frame.type !== "resume") {
+    return send(ws, { type: "error", ref, code: "forbidden", message: "You're viewing as another user; changes are turned off" });
+  }
+
+  try {
+    switch (frame.type) {
+      case "send": {
+        const { chat, message } = await sendChatMessage(user, frame.chatId, frame.content);
+        send(ws, { type: "ack", ref: frame.ref, message });
+        sendToChat(chat, { type: "message", message }, connection);
+        break;
+      }
+      case "typing": {
+        const now = Date.now();
+        if (now - (connection.lastTypingAt.get(frame.chatId) ?? 0) < minTypingGapMs) break;
+        connection.lastTypingAt.set(frame.chatId, now);
+
+        const chat = await getParticipantChat(user, frame.chatId);
+        if (chat.propertyId === null) break;
+        sendToUser(otherParticipant(chat, user.id), { type: "typing", chatId: chat.id, userId: user.id });
+        break;
+      }
+      case "read": {
+        const { chat, lastReadId } = await markChatRead(user, frame.chatId, frame.messageId);
+        sendToChat(chat, { type: "read", chatId: chat.id, userId: user.id, messageId: lastReadId }, connection);
+        break;
+      }
+      case "resume": {
+        const missed = await storage.getMessagesForUserSince(user.id, frame.afterMessageId, resumeLimit + 1);
+        send(ws, { type: "resumed", messages: missed.slice(0, resumeLimit), complete: missed.length <= resumeLimit });
+        break;
+      }
+    }
+  } catch (error) {
+    if (!(error instanceof ChatError) && !(error instanceof ZodError)) {
+      log(`${frame.type} from user ${user.id} failed: ${(error as Error).message}`, "chat");
+    }
+    send(ws, errorEvent(error, ref));
+  }
+}
+
+function onConnection(ws: WebSocket, req: Request) {
+  const impersonation = req.session.impersonation;
+  const connection: Connection = {
+    id: randomBytes(8).toString("hex"),
+    ws,
+    userId: req.user!.id,
+    impersonating: !!impersonation,
+    alive: true,
+    lastTypingAt: new Map(),
+  };
+
+  const fail = (error: Error) => log(`socket for user ${connection.userId} failed: ${error.message}`, "chat");
+
+  if (!connection.impersonating && !isHere(connection.userId)) {
+    setPresence(connection.userId, true).catch(fail);
+  }
+  const connections = clients.get(connection.userId) ?? new Set<Connection>();
+  connections.add(connection);
+  clients.set(connection.userId, connections);
+
+  const expiry = impersonation
+    ? setTimeout(
+        () => ws.close(chatCloseCodes.sessionExpired, "Session expired"),
+        new Date(impersonation.expiresAt).getTime() - Date.now(),
+      )
+    : undefined;
+
+  // Lets the client tell whether it missed anything while it was away
+  storage.getLatestMessageIdForUser(connection.userId)
+    .then(lastMessageId => send(ws, { type: "ready", lastMessageId }))
+    .catch(fail);
+
+  ws.on("pong", () => {
+    connection.alive = true;
+  });
+
+  ws.on("message", data => {
+    const frame = parseFrame(ws, data);
+    if (!frame) return;
+    handleFrame(connection, frame).catch(fail);
+  });
+
+  ws.on("close", () => {
+    clearTimeout(expiry);
+    connections.delete(connection);
+    if (!connections.size && clients.get(connection.userId) === connections) clients.delete(connection.userId);
+    if (!connection.impersonating && !isHere(connection.userId)) {
+      setPresence(connection.userId, false).catch(fail);
+    }
+  });
+}
+
+// Drops sockets whose other end went away without closing them, and keeps
+// the users still connected online
+function checkHeartbeats() {
+  clients.forEach(connections => connections.forEach(connection => {
+    if (!connection.alive) {
+      // Emits close, which removes it
+      connection.ws.terminate();
+      return;
+    }
+    connection.alive = false;
+    connection.ws.ping();
+  }));
+  extendPresence();
+}
+
+export function setupChatSocket(httpServer: Server, sessionParser: RequestHandler) {
+  const wss = new WebSocketServer({ noServer: true, maxPayload: maxFrameBytes });
+
+  httpServer.on("upgrade", (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    // Other sockets on this server, like Vite's, have their own handlers
+    if (new URL(req.url || "/", "http://localhost").pathname !== chatPath) return;
+
+    authenticate(req, sessionParser)
+      .then(request => {
+        const problem = signInProblem(request);
+        if (problem) {
+          return reject(socket, problem.status, problem.status === 401 ? "Unauthorized" : "Forbidden");
+        }
+        // Expired view-as-user sessions are ended by the next API request
+        const impersonation = request.session.impersonation;
+        if (impersonation && new Date(impersonation.expiresAt) <= new Date()) {
+          return reject(socket, 401, "Unauthorized");
+        }
+        wss.handleUpgrade(req, socket, head, ws => onConnection(ws, request));
+      })
+      .catch(error => {
+        log(`couldn't authenticate a chat socket: ${(error as Error).message}`, "chat");
+        socket.destroy();
+      });
+  });
+
+  chatBus.subscribe(deliver);
+
+  const heartbeat = setInterval(checkHeartbeats, heartbeatIntervalMs);
+  httpServer.on("close", () => clearInterval(heartbeat));
+
+  log(`chat socket listening on ${chatPath}, ${chatBusDriver} bus`, "chat");
+}
@@ -0,0 +1,77 @@
+import { storage } from "./storage";
+import { insertMessageSchema, type Chat, type Message, type User } from "@shared/schema";
+import type { Presence } from "@shared/chat-protocol";
+
+// Chat access shared by the HTTP routes and the chat socket, so both make
+// exactly the same checks
+
+// Carries the HTTP status the routes answer with
+export class ChatError extends Error {
+  constructor(message: string, public status: 403 | 404 | 409) {
+    super(message);
+  }
+}
+
+export async function getParticipantChat(user: User, chatId: number): Promise<Chat> {
+  const chat = await storage.getChatById(chatId);
+  if (!chat) {
+    throw new ChatError("Chat not found", 404);
+  }
+  if (chat.buyerId !== user.id && chat.sellerId !== user.id) {
+    throw new ChatError("You are not a participant in this chat", 403);
+  }
+  return chat;
+}
+
+export const otherParticipant = (chat: Chat, userId: number) =>
+  (userId === chat.buyerId ? chat.sellerId : chat.buyerId);
+
+export async function sendChatMessage(sender: User, chatId: number, content: unknown): Promise<{ chat: Chat; message: Message }> {
+  const chat = await getParticipantChat(sender, chatId);
+  if (chat.propertyId === null) {
+    throw new ChatError("This listing has been removed, the conversation is read-only", 409);
+  }
+
+  const validatedData = insertMessageSchema.parse({ chatId, senderId: sender.id, content });
+  const message = await storage.createMessage(validatedData);
+  return { chat, message };
+}
+
+export const lastReadId = (chat: Chat, userId: number) =>
+  (userId === chat.buyerId ? chat.buyerLastReadId : chat.sellerLastReadId);
+
+// Moves the user's read mark up to messageId, or to the newest message when
+// it's left out. Returns the chat and where the mark ended up.
+export async function markChatRead(user: User, chatId: number, messageId?: number): Promise<{ chat: Chat; lastReadId: number }> {
+  const chat = await getParticipantChat(user, chatId);
+
+  if (messageId === undefined) {
+    const chatMessages = await storage.getMessagesByChatId(chat.id);
+    messageId = chatMessages.reduce((latest, message) => Math.max(latest, message.id), 0);
+  } else {
+    const message = await storage.getMessageById(messageId);
+    if (!message || message.chatId !== chat.id) {
+      throw new ChatError("Message not found", 404);
+    }
+  }
+
+  const updatedChat = await storage.markChatRead(chat.id, user.id, messageId);
+  return { chat: updatedChat, lastReadId: lastReadId(updatedChat, user.id) };
+}
+
+// What the people the user chats with see
+export function presenceOf(user: User, now = new Date()): Presence {
+  if (user.hidePresence || !user.lastSeenAt) {
+    return { online: false, lastSeenAt: null };
+  }
+  const online = user.lastSeenAt > now;
+  return { online, lastSeenAt: online ? null : user.lastSeenAt };
+}
+
+// What a chat shows of the other participant
+export const chatParticipant = (user: User, now = new Date()) => ({
+  id: user.id,
+  firstName: user.firstName,
+  lastName: user.lastName,
+  presence: presenceOf(user, now),
+});
@@ -0,0 +1,26 @@
+import type { PropertySort } from "@shared/schema";
+
+// Position after the last listing of a page: the value it was sorted on
+// (null when it has none, e.g. no distance) and its id to break ties.
+// Cursors only make sense for the sort they were issued with.
+export interface PageCursor {
+  sort: PropertySort;
+  key: number | null;
+  id: number;
+}
+
+// Clients treat cursors as opaque strings
+export function encodeCursor(cursor: PageCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+export function decodeCursor(value: string): PageCursor | null {
+  try {
+    const { sort, key, id } = JSON.parse(Buffer.from(value, "base64url").toString("utf-8"));
+    if (typeof sort !== "string" || !Number.isInteger(id)) return null;
+    if (key !== null && typeof key !== "number") return null;
+    return { sort: sort as PropertySort, key, id };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,14 @@
+// Whole UTC days, as the analytics and audit log date ranges take them
+
+// A YYYY-MM-DD query parameter as the start of that day in UTC; undefined
+// when it's missing
+export function parseDay(value: unknown, name: string): Date | undefined {
+  if (typeof value !== "string" || !value) return undefined;
+  const date = new Date(`${value}T00:00:00.000Z`);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(date.getTime())) {
+    throw new Error(`${name} must be a date like 2024-01-31`);
+  }
+  return date;
+}
+
+export const nextDay = (day: Date) => new Date(day.getTime() + 24 * 60 * 60 * 1000);
@@ -0,0 +1,92 @@
+import type { Request } from "express";
+import type { PropertyFilters } from "./storage";
+import { parseBoundingBox, isValidLatLng, type LatLng } from "./geo";
+import { propertySortOptions, amenityOptions, type PropertySort, type Amenity } from "@shared/schema";
+
+const rangeParams = [
+  "minBedrooms", "maxBedrooms", "minBathrooms", "maxBathrooms",
+  "minSquareFeet", "maxSquareFeet", "minYearBuilt", "maxYearBuilt",
+] as const;
+
+// Parses the search filters shared by the list and map endpoints. Returns an
+// error message when a parameter is invalid.
+export function parsePropertyFilters(query: Request["query"]): PropertyFilters | string {
+  const { 
+    type, minPrice, maxPrice, location, search, sort,
+    lat, lng, radiusKm, bbox, amenities
+  } = query;
+  
+  // Whole-number bounds on the optional listing fields
+  const ranges: Partial<Record<typeof rangeParams[number], number>> = {};
+  for (const param of rangeParams) {
+    const value = query[param];
+    if (value === undefined || value === "") continue;
+    
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < 0) {
+      return `${param} must be a whole number`;
+    }
+    ranges[param] = parsed;
+  }
+  
+  // amenities=pool,garden (or repeated amenities=pool&amenities=garden)
+  const requiredAmenities = ([] as string[])
+    .concat((amenities as string | string[] | undefined) ?? [])
+    .flatMap(value => value.split(","))
+    .filter(Boolean);
+  const unknownAmenity = requiredAmenities.find(amenity => !amenityOptions.includes(amenity as Amenity));
+  if (unknownAmenity) {
+    return `Unknown amenity "${unknownAmenity}"; expected one of: ${amenityOptions.join(", ")}`;
+  }
+  
+  if (sort && !propertySortOptions.includes(sort as PropertySort)) {
+    return `sort must be one of: ${propertySortOptions.join(", ")}`;
+  }
+  
+  // Location search: a point (lat/lng, optionally with radiusKm) and/or a bbox
+  let near: LatLng | undefined;
+  if (lat !== undefined || lng !== undefined) {
+    near = { lat: parseFloat(lat as string), lng: parseFloat(lng as string) };
+    if (!isValidLatLng(near)) {
+      return "lat and lng must be given together as valid coordinates";
+    }
+  }
+  
+  const parsedRadius = radiusKm !== undefined ? parseFloat(radiusKm as string) : undefined;
+  if (parsedRadius !== undefined && (!near || !(parsedRadius > 0))) {
+    return "radiusKm must be a positive number and requires lat and lng";
+  }
+  
+  const parsedBbox = bbox !== undefined ? parseBoundingBox(bbox as string) : undefined;
+  if (parsedBbox === null) {
+    return "bbox must be minLng,minLat,maxLng,maxLat";
+  }
+  
+  if (sort === "distance" && !near) {
+    return "Sorting by distance requires lat and lng";
+  }
+  
+  return {
+    propertyType: type as string, 
+    minPrice: minPrice ? parseFloat(minPrice as string) : undefined,
+    maxPrice: maxPrice ? parseFloat(maxPrice as string) : undefined,
+    location: location as string,
+    ...ranges,
+    amenities: requiredAmenities as Amenity[],
+    search: search as string,
+    near,
+    radiusKm: parsedRadius,
+    bbox: parsedBbox,
+    sort: sort as PropertySort | undefined,
+  };
+}
+
+// Filters from a stored query string, as kept by saved searches
+export function parseFilterQuery(query: string): PropertyFilters | string {
+  const params: Record<string, string | string[]> = {};
+  new URLSearchParams(query).forEach((value, key) => {
+    const existing = params[key];
+    params[key] = existing === undefined ? value : ([] as string[]).concat(existing, value);
+  });
+  return parsePropertyFilters(params);
+}
@@ -0,0 +1,91 @@
+// Geographic helpers for property location search. Coordinates are WGS84
+// degrees; distances are in kilometres.
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+// minLng > maxLng describes a box crossing the antimeridian
+export interface BoundingBox {
+  minLat: number;
+  minLng: number;
+  maxLat: number;
+  maxLng: number;
+}
+
+export const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+// Great-circle distance using the haversine formula; what radius searches
+// compare, as DatabaseStorage does in SQL
+export function greatCircleKm(from: LatLng, to: LatLng): number {
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+}
+
+// The distance reported with results, rounded to 10 m
+export function distanceKm(from: LatLng, to: LatLng): number {
+  return Math.round(greatCircleKm(from, to) * 100) / 100;
+}
+
+// Smallest box containing the circle, used to narrow radius searches before
+// computing exact distances. The circle reaches furthest east and west north
+// of the centre's latitude (south of it in the southern hemisphere), so its
+// longitude span is wider than the radius at the centre's latitude.
+export function boundingBoxAround(center: LatLng, radiusKm: number): BoundingBox {
+  const latDelta = toDegrees(radiusKm / EARTH_RADIUS_KM);
+  const minLat = Math.max(center.lat - latDelta, -90);
+  const maxLat = Math.min(center.lat + latDelta, 90);
+
+  // Near the poles every longitude is within range
+  if (minLat === -90 || maxLat === 90) {
+    return { minLat, minLng: -180, maxLat, maxLng: 180 };
+  }
+
+  const spread = Math.sin(radiusKm / EARTH_RADIUS_KM) / Math.cos(toRadians(center.lat));
+  if (spread >= 1) {
+    return { minLat, minLng: -180, maxLat, maxLng: 180 };
+  }
+  const lngDelta = toDegrees(Math.asin(spread));
+
+  const wrap = (lng: number) => ((lng + 540) % 360) - 180;
+  return {
+    minLat,
+    minLng: wrap(center.lng - lngDelta),
+    maxLat,
+    maxLng: wrap(center.lng + lngDelta),
+  };
+}
+
+export function inBoundingBox(point: LatLng, box: BoundingBox): boolean {
+  if (point.lat < box.minLat || point.lat > box.maxLat) return false;
+
+  return box.minLng <= box.maxLng
+    ? point.lng >= box.minLng && point.lng <= box.maxLng
+    : point.lng >= box.minLng || point.lng <= box.maxLng;
+}
+
+export function isValidLatLng({ lat, lng }: LatLng): boolean {
+  return isFinite(lat) && isFinite(lng) && Math.abs(lat) <= 90 && Math.abs(lng) <= 180;
+}
+
+// Parses "minLng,minLat,maxLng,maxLat" (the GeoJSON bbox order)
+export function parseBoundingBox(value: string): BoundingBox | null {
+  const parts = value.split(",").map(part => parseFloat(part));
+  if (parts.length !== 4) return null;
+
+  const [minLng, minLat, maxLng, maxLat] = parts;
+  if (!isValidLatLng({ lat: minLat, lng: minLng }) || !isValidLatLng({ lat: maxLat, lng: maxLng })) {
+    return null;
+  }
+
+  return minLat <= maxLat ? { minLat, minLng, maxLat, maxLng } : null;
+}
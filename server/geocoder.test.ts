@@ -0,0 +1,84 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { geocode, parseAddress } from "./geocoder";
+
+// Address parsing and lookups against the bundled gazetteer
+
+describe("parseAddress", () => {
+  test("splits an address into street, city, state and postcode", () => {
+    assert.deepEqual(parseAddress("245 Palm Grove, Miami, FL 33101"), {
+      street: "245 Palm Grove",
+      city: "Miami",
+      state: "FL",
+      postcode: "33101",
+    });
+  });
+
+  test("keeps the five-digit part of a ZIP+4", () => {
+    assert.equal(parseAddress("1 Main Street, New York, NY 10001-1234").postcode, "10001");
+  });
+
+  test("takes the state by name, and from the city's segment", () => {
+    assert.deepEqual(parseAddress("12 Main Street, Austin Texas"), {
+      street: "12 Main Street",
+      city: "Austin",
+      state: "TX",
+      postcode: null,
+    });
+    assert.deepEqual(parseAddress("9 Water Street, Portland ME 04101"), {
+      street: "9 Water Street",
+      city: "Portland",
+      state: "ME",
+      postcode: "04101",
+    });
+    assert.deepEqual(parseAddress("Apt 4, 70 Pine Street, New York, New York"), {
+      street: "Apt 4, 70 Pine Street",
+      city: "New York",
+      state: "NY",
+      postcode: null,
+    });
+  });
+
+  test("leaves out what isn't there", () => {
+    assert.deepEqual(parseAddress("Springfield"), { street: null, city: "Springfield", state: null, postcode: null });
+    assert.deepEqual(parseAddress(""), { street: null, city: null, state: null, postcode: null });
+  });
+});
+
+describe("geocode", () => {
+  test("finds a known postcode", () => {
+    assert.deepEqual(geocode("245 Palm Grove, Miami, FL 33101"), {
+      street: "245 Palm Grove",
+      city: "Miami",
+      state: "FL",
+      postcode: "33101",
+      latitude: 25.7617,
+      longitude: -80.1918,
+      precision: "postcode",
+    });
+  });
+
+  test("falls back to the city when the postcode isn't known", () => {
+    const result = geocode("12 Main Street, Austin, TX 78799");
+    assert.equal(result?.precision, "city");
+    assert.equal(result?.city, "Austin");
+    assert.equal(result?.postcode, "78799");
+    assert.equal(result?.latitude, 30.2672);
+  });
+
+  test("picks the city in the state given, or the largest of that name", () => {
+    assert.equal(geocode("Springfield, MA")?.state, "MA");
+    assert.equal(geocode("Portland")?.state, "OR");
+    assert.equal(geocode("Portland, Maine")?.state, "ME");
+  });
+
+  test("matches city names however they're written", () => {
+    assert.equal(geocode("1 Market Street, Saint Louis, MO")?.city, "St. Louis");
+    assert.equal(geocode("1 Market Street, st louis, missouri")?.city, "St. Louis");
+  });
+
+  test("returns null for places it doesn't know", () => {
+    assert.equal(geocode("1 Main Street, Nowhereville, TX"), null);
+    assert.equal(geocode("Miami, OR"), null);
+  });
+});
@@ -0,0 +1,206 @@
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+
+// Offline geocoding of free-text US addresses against the gazetteer bundled
+// in server/data. Resolution is to the city (or the postcode when it's a
+// known one), so coordinates are city centroids rather than rooftops.
+
+interface GazetteerEntry {
+  city: string;
+  state: string;
+  postcode: string;
+  latitude: number;
+  longitude: number;
+  population: number;
+}
+
+export interface GeocodedAddress {
+  street: string | null;
+  city: string;
+  state: string;
+  postcode: string | null;
+  latitude: number;
+  longitude: number;
+  precision: "postcode" | "city";
+}
+
+export interface AddressSuggestion {
+  label: string;
+  city: string;
+  state: string;
+  postcode: string;
+  latitude: number;
+  longitude: number;
+}
+
+// Next to this module: server/data when run from source, dist/data once built
+const gazetteerPath = path.join(path.dirname(fileURLToPath(import.meta.url)), "data", "gazetteer.csv");
+
+const stateNames: Record<string, string> = {
+  AL: "Alabama", AK: "Alaska", AZ: "Arizona", AR: "Arkansas", CA: "California",
+  CO: "Colorado", CT: "Connecticut", DE: "Delaware", DC: "District of Columbia",
+  FL: "Florida", GA: "Georgia", HI: "Hawaii", ID: "Idaho", IL: "Illinois",
+  IN: "Indiana", IA: "Iowa", KS: "Kansas", KY: "Kentucky", LA: "Louisiana",
+  ME: "Maine", MD: "Maryland", MA: "Massachusetts", MI: "Michigan", MN: "Minnesota",
+  MS: "Mississippi", MO: "Missouri", MT: "Montana", NE: "Nebraska", NV: "Nevada",
+  NH: "New Hampshire", NJ: "New Jersey", NM: "New Mexico", NY: "New York",
+  NC: "North Carolina", ND: "North Dakota", OH: "Ohio", OK: "Oklahoma", OR: "Oregon",
+  PA: "Pennsylvania", RI: "Rhode Island", SC: "South Carolina", SD: "South Dakota",
+  TN: "Tennessee", TX: "Texas", UT: "Utah", VT: "Vermont", VA: "Virginia",
+  WA: "Washington", WV: "West Virginia", WI: "Wisconsin", WY: "Wyoming",
+};
+
+let gazetteer: GazetteerEntry[] | null = null;
+
+// Read on first use and kept in memory; the file is small
+function loadGazetteer(): GazetteerEntry[] {
+  if (!gazetteer) {
+    const [, ...rows] = fs.readFileSync(gazetteerPath, "utf-8").trim().split("\n");
+    gazetteer = rows.map(row => {
+      const [city, state, postcode, latitude, longitude, population] = row.split(",");
+      return {
+        city,
+        state,
+        postcode,
+        latitude: parseFloat(latitude),
+        longitude: parseFloat(longitude),
+        population: parseInt(population),
+      };
+    });
+  }
+  return gazetteer;
+}
+
+// "St. Louis" and "Saint Louis" both become "st louis"
+function normalize(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/\./g, "")
+    .replace(/\bsaint\b/g, "st")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function toStateCode(value: string): string | null {
+  const normalized = normalize(value);
+  for (const [code, name] of Object.entries(stateNames)) {
+    if (normalized === code.toLowerCase() || normalized === normalize(name)) {
+      return code;
+    }
+  }
+  return null;
+}
+
+// Splits "245 Palm Grove, Miami, FL 33101" into street, city, state and
+// postcode. The state may be a code or a name and may share the city's segment.
+export function parseAddress(address: string) {
+  const postcode = address.match(/\b(\d{5})(?:-\d{4})?\s*$/)?.[1] ?? null;
+  const segments = address
+    .replace(/\b\d{5}(?:-\d{4})?\s*$/, "")
+    .split(",")
+    .map(segment => segment.trim())
+    .filter(Boolean);
+
+  let state: string | null = null;
+  const last = segments[segments.length - 1];
+
+  if (last) {
+    state = toStateCode(last);
+    if (state) {
+      segments.pop();
+    } else {
+      // "Miami FL" or "Austin Texas": peel the state off the end
+      const words = last.split(/\s+/);
+      for (let take = Math.min(3, words.length - 1); take >= 1 && !state; take--) {
+        state = toStateCode(words.slice(-take).join(" "));
+        if (state) {
+          segments[segments.length - 1] = words.slice(0, -take).join(" ");
+        }
+      }
+    }
+  }
+
+  const city = segments.length ? segments.pop()! : null;
+  const street = segments.length ? segments.join(", ") : null;
+
+  return { street, city, state, postcode };
+}
+
+export function geocode(address: string): GeocodedAddress | null {
+  const parsed = parseAddress(address);
+  const entries = loadGazetteer();
+
+  const byPopulation = (a: GazetteerEntry, b: GazetteerEntry) => b.population - a.population;
+  const matchesState = (entry: GazetteerEntry) => !parsed.state || entry.state === parsed.state;
+
+  let entry = parsed.postcode
+    ? entries.find(e => e.postcode === parsed.postcode && matchesState(e))
+    : undefined;
+  const precision = entry ? "postcode" : "city";
+
+  if (!entry && parsed.city) {
+    const city = normalize(parsed.city);
+    entry = entries
+      .filter(e => normalize(e.city) === city && matchesState(e))
+      .sort(byPopulation)[0];
+  }
+
+  if (!entry) return null;
+
+  return {
+    street: parsed.street,
+    city: entry.city,
+    state: entry.state,
+    postcode: parsed.postcode,
+    latitude: entry.latitude,
+    longitude: entry.longitude,
+    precision,
+  };
+}
+
+// Completes the city part of an address as it's typed. Anything before the
+// last comma is treated as the street and kept in the suggested label.
+export function suggestAddresses(query: string, limit = 5): AddressSuggestion[] {
+  const lastComma = query.lastIndexOf(",");
+  const street = lastComma >= 0 ? query.slice(0, lastComma).trim() : "";
+  const term = normalize(lastComma >= 0 ? query.slice(lastComma + 1) : query);
+
+  if (term.length < 2) return [];
+
+  return loadGazetteer()
+    .filter(entry => {
+      const city = normalize(entry.city);
+      return (
+        city.startsWith(term) ||
+        `${city} ${entry.state.toLowerCase()}`.startsWith(term) ||
+        entry.postcode.startsWith(term)
+      );
+    })
+    .sort((a, b) => b.population - a.population)
+    .slice(0, limit)
+    .map(entry => ({
+      label: [street, `${entry.city}, ${entry.state} ${entry.postcode}`].filter(Boolean).join(", "),
+      city: entry.city,
+      state: entry.state,
+      postcode: entry.postcode,
+      latitude: entry.latitude,
+      longitude: entry.longitude,
+    }));
+}
+
+// Adds the normalised city/state/postcode to listing data and falls back to
+// the gazetteer coordinates when the seller hasn't dropped a pin
+export function withGeocodedAddress<T extends { address: string; latitude?: number | null; longitude?: number | null }>(data: T) {
+  const result = geocode(data.address);
+  const hasPin = data.latitude != null && data.longitude != null;
+
+  return {
+    ...data,
+    city: result?.city ?? null,
+    state: result?.state ?? null,
+    postcode: result?.postcode ?? null,
+    latitude: hasPin ? data.latitude : result?.latitude ?? null,
+    longitude: hasPin ? data.longitude : result?.longitude ?? null,
+  };
+}
@@ -0,0 +1,109 @@
+import type { Request, Response, NextFunction } from "express";
+import { storage } from "./storage";
+import { checkManageable } from "./accounts";
+import { recordAudit } from "./audit";
+import { log } from "./vite";
+import type { SessionUser, User } from "@shared/schema";
+
+// "View as user": an admin's session is switched to the user's so support
+// can see exactly what they see. It's read-only, ends after
+// IMPERSONATION_MINUTES, and every session is logged with its reason.
+
+declare module "express-session" {
+  interface SessionData {
+    impersonation?: { sessionId: number; adminId: number; expiresAt: string };
+  }
+}
+
+export const impersonationMinutes = parseInt(process.env.IMPERSONATION_MINUTES || "30");
+
+// Still allowed while viewing as someone else
+const writablePaths = ["/api/admin/impersonation/stop", "/api/logout"];
+
+const login = (req: Request, user: User) =>
+  new Promise<void>((resolve, reject) => req.login(user, error => (error ? reject(error) : resolve())));
+
+export async function startImpersonation(req: Request, user: User, reason?: string): Promise<void> {
+  const admin = req.user!;
+  if (req.session.impersonation) {
+    throw new Error("Stop viewing as the current user first");
+  }
+  checkManageable(admin, user);
+  if (user.suspendedAt) {
+    throw new Error("Suspended accounts can't be viewed as; unsuspend it first");
+  }
+  reason = reason?.trim();
+  if (!reason) {
+    throw new Error("A reason is required to view as another user");
+  }
+
+  const expiresAt = new Date(Date.now() + impersonationMinutes * 60 * 1000);
+  const session = await storage.createImpersonationSession({ adminId: admin.id, userId: user.id, reason, expiresAt });
+  // Logging in starts a fresh session, so the marker goes on afterwards
+  await login(req, user);
+  req.session.impersonation = { sessionId: session.id, adminId: admin.id, expiresAt: expiresAt.toISOString() };
+  await recordAudit(req, {
+    action: "impersonation.start",
+    actor: admin,
+    target: { type: "user", id: user.id },
+    after: { sessionId: session.id, reason, expiresAt },
+  });
+  log(`admin ${admin.id} is viewing as user ${user.id}`, "impersonation");
+}
+
+// Switches back to the admin, or signs out if their account has gone
+export async function stopImpersonation(req: Request): Promise<User | undefined> {
+  const impersonation = req.session.impersonation;
+  if (!impersonation) {
+    throw new Error("You aren't viewing as another user");
+  }
+
+  await storage.endImpersonationSession(impersonation.sessionId);
+  const admin = await storage.getUser(impersonation.adminId);
+  await recordAudit(req, {
+    action: "impersonation.stop",
+    actor: admin ?? null,
+    // The user may have been signed out by a suspension in the meantime
+    target: req.user ? { type: "user", id: req.user.id } : undefined,
+    after: { sessionId: impersonation.sessionId, expired: new Date(impersonation.expiresAt) <= new Date() },
+  });
+  if (!admin || admin.suspendedAt) {
+    await new Promise<void>((resolve, reject) => req.logout(error => (error ? reject(error) : resolve())));
+    return undefined;
+  }
+  await login(req, admin);
+  return admin;
+}
+
+// Ends sessions that have run out and keeps the rest read-only
+export async function impersonationGuard(req: Request, res: Response, next: NextFunction) {
+  const impersonation = req.session?.impersonation;
+  if (!impersonation) return next();
+
+  try {
+    if (new Date(impersonation.expiresAt) <= new Date()) {
+      await stopImpersonation(req);
+      return next();
+    }
+  } catch (error) {
+    return next(error);
+  }
+
+  if (req.method !== "GET" && req.method !== "HEAD" && !writablePaths.includes(req.path)) {
+    return res.status(403).json({ message: "You're viewing as another user; changes are turned off" });
+  }
+  next();
+}
+
+// The signed-in user as sent to the client
+export async function toSessionUser(req: Request): Promise<SessionUser> {
+  const { password, ...user } = req.user!;
+  const impersonation = req.session.impersonation;
+  const admin = impersonation ? await storage.getUser(impersonation.adminId) : undefined;
+  if (!impersonation || !admin) return user;
+
+  return {
+    ...user,
+    impersonation: { admin: { id: admin.id, username: admin.username }, expiresAt: impersonation.expiresAt },
+  };
+}
@@ -1,6 +1,11 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { storage, storageDriver } from "./storage";
+import { runMigrations } from "./migrate";
+import { seedDatabase } from "./seed";
+import { startDailyDigests } from "./alerts";
+import { startListingExpiry } from "./lifecycle";
 
 const app = express();
 app.use(express.json());
@@ -37,6 +42,13 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  if (storageDriver === "database") {
+    await runMigrations();
+  } else {
+    // The in-memory storage starts empty on every boot
+    await seedDatabase(storage, { demo: app.get("env") === "development" });
+  }
+
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -67,4 +79,7 @@ app.use((req, res, next) => {
   }, () => {
     log(`serving on port ${port}`);
   });
+
+  startDailyDigests();
+  startListingExpiry();
 })();
@@ -0,0 +1,90 @@
+import { storage } from "./storage";
+import { notifyListingExpired, notifyWatchers } from "./alerts";
+import { log } from "./vite";
+import { listingTransitions, type ListingStatus, type Property, type User } from "@shared/schema";
+import { canManageListing, hasPermission } from "@shared/permissions";
+
+// Listing lifecycle: sellers move their listings between the statuses in
+// listingTransitions. A listing stays on the market for LISTING_EXPIRY_DAYS
+// from when it goes active and then expires, unless the seller renews it.
+
+export const listingExpiryDays = parseInt(process.env.LISTING_EXPIRY_DAYS || "90");
+
+const dayMs = 24 * 60 * 60 * 1000;
+const expiryCheckInterval = 60 * 60 * 1000;
+
+const statusLabels: Record<ListingStatus, string> = {
+  draft: "draft",
+  pending_review: "pending review",
+  active: "active",
+  under_offer: "under offer",
+  sold: "sold",
+  expired: "expired",
+  rejected: "rejected",
+};
+
+export const listingExpiry = (from = new Date()) => new Date(from.getTime() + listingExpiryDays * dayMs);
+
+// Status and expiry for a listing being created. Sellers' listings start out
+// as drafts or waiting for review; only seeded ones go straight on the market.
+export function initialListingState(status: "draft" | "pending_review" | "active") {
+  return { status, expiresAt: status === "active" ? listingExpiry() : null };
+}
+
+// Listings that never made it to market are only shown to their seller,
+// admins and moderators
+export const unpublishedStatuses: ListingStatus[] = ["draft", "pending_review", "rejected"];
+
+export function isListingVisible(property: Property, user?: User) {
+  if (!unpublishedStatuses.includes(property.status)) return true;
+  return canManageListing(user, property) || hasPermission(user, "listings:moderate");
+}
+
+// Throws when the move isn't in listingTransitions. Going active starts a
+// fresh expiry period; leaving the market clears it. Resubmitting for review
+// clears the moderator's note from last time.
+export async function changeListingStatus(property: Property, status: ListingStatus, changedBy: number): Promise<Property> {
+  if (!listingTransitions[property.status].includes(status)) {
+    throw new Error(`A ${statusLabels[property.status]} listing can't be marked ${statusLabels[status]}`);
+  }
+
+  const expiresAt = status === "active" ? listingExpiry()
+    : status === "under_offer" ? property.expiresAt
+    : null;
+  return storage.updateProperty(property.id, {
+    status,
+    expiresAt,
+    ...(status === "pending_review" && { moderationNote: null }),
+  }, changedBy);
+}
+
+// Extends an active listing, or puts an expired one back on the market;
+// through review first when it needs it (rewritten while it was expired)
+export async function renewListing(property: Property, changedBy: number, needsReview = false): Promise<Property> {
+  if (property.status === "expired") {
+    if (needsReview) {
+      return storage.updateProperty(property.id, { status: "pending_review", expiresAt: null, moderationNote: null }, changedBy);
+    }
+    return changeListingStatus(property, "active", changedBy);
+  }
+  if (property.status !== "active") {
+    throw new Error("Only active or expired listings can be renewed");
+  }
+  return storage.updateProperty(property.id, { expiresAt: listingExpiry() }, changedBy);
+}
+
+export async function expireListings() {
+  for (const property of await storage.getListingsToExpire(new Date())) {
+    const expired = await storage.updateProperty(property.id, { status: "expired" });
+    await notifyListingExpired(expired);
+    await notifyWatchers(property, expired);
+  }
+}
+
+export function startListingExpiry() {
+  const run = () => {
+    expireListings().catch(error => log(`listing expiry failed: ${(error as Error).message}`, "lifecycle"));
+  };
+  run();
+  setInterval(run, expiryCheckInterval);
+}
@@ -0,0 +1,68 @@
+import fs from "fs";
+import path from "path";
+import nodemailer from "nodemailer";
+import { log } from "./vite";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+  // Extra headers, e.g. List-Unsubscribe
+  headers?: Record<string, string>;
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+const mailFrom = process.env.MAIL_FROM || "Estatetify <alerts@estatetify.com>";
+
+// Writes each message to MAIL_DIR as an .eml file instead of sending it, so
+// emails can be checked locally without a mail server
+class FileMailer implements Mailer {
+  private dir = path.resolve(process.env.MAIL_DIR || "mail");
+
+  async send(message: MailMessage): Promise<void> {
+    // streamTransport renders the full MIME message without delivering it
+    const transport = nodemailer.createTransport({ streamTransport: true, buffer: true });
+    const info = await transport.sendMail({ from: mailFrom, ...message });
+
+    await fs.promises.mkdir(this.dir, { recursive: true });
+    const file = path.join(this.dir, `${Date.now()}-${info.messageId.replace(/[^\w.-]/g, "")}.eml`);
+    await fs.promises.writeFile(file, info.message as Buffer);
+    log(`wrote "${message.subject}" for ${message.to} to ${file}`, "mail");
+  }
+}
+
+// Any SMTP server; for development a catcher such as Mailpit (SMTP_PORT=1025)
+class SmtpMailer implements Mailer {
+  private transport = nodemailer.createTransport({
+    host: process.env.SMTP_HOST || "localhost",
+    port: parseInt(process.env.SMTP_PORT || "587"),
+    secure: process.env.SMTP_SECURE === "true",
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+      : undefined,
+  });
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transport.sendMail({ from: mailFrom, ...message });
+  }
+}
+
+// MAIL_TRANSPORT picks how email goes out ("file" or "smtp")
+export const mailTransport = process.env.MAIL_TRANSPORT ?? "file";
+
+function createMailer(transport: string): Mailer {
+  switch (transport) {
+    case "file":
+      return new FileMailer();
+    case "smtp":
+      return new SmtpMailer();
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${transport}"`);
+  }
+}
+
+export const mailer = createMailer(mailTransport);
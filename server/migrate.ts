@@ -0,0 +1,14 @@
+import path from "path";
+import { migrate } from "drizzle-orm/neon-serverless/migrator";
+import { db } from "./db";
+import { log } from "./vite";
+
+const migrationsFolder = path.join(process.cwd(), "migrations");
+
+// Applies every migration in migrations/ that the database hasn't seen yet.
+// New migrations are generated from shared/schema.ts with `npm run db:generate`.
+export async function runMigrations() {
+  log("applying pending migrations", "db");
+  await migrate(db, { migrationsFolder });
+  log("database is up to date", "db");
+}
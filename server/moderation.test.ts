@@ -0,0 +1,132 @@
+import { after, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { Property } from "@shared/schema";
+import { signIn, startTestServer } from "./testing/server";
+
+// Sellers' edits to listings buyers can see, through the API, against the
+// in-memory storage
+
+process.env.STORAGE_DRIVER = "memory";
+const { storage } = await import("./storage");
+const { hashPassword } = await import("./auth");
+const { listingExpiry } = await import("./lifecycle");
+
+const password = "password123";
+
+const server = await startTestServer();
+let sellerId: number;
+let cookie: string;
+let moderatorCookie: string;
+
+before(async () => {
+  const seller = await storage.createUser({
+    username: "seller",
+    password: await hashPassword(password),
+    email: "seller@example.com",
+    firstName: "Sam",
+    lastName: "Seller",
+    role: "seller",
+  });
+  await storage.createUser({
+    username: "moderator",
+    password: await hashPassword(password),
+    email: "moderator@example.com",
+    firstName: "Mo",
+    lastName: "Moderator",
+    role: "moderator",
+  });
+  sellerId = seller.id;
+  cookie = await signIn(server.url, "seller", password);
+  moderatorCookie = await signIn(server.url, "moderator", password);
+});
+
+after(() => server.close());
+
+const listing = {
+  title: "Bright family house",
+  address: "12 Main Street, Austin, TX",
+  price: 250000,
+  contactNumber: "555-0100",
+  propertyType: "house",
+  description: "Three bedrooms close to the park",
+};
+
+async function request(method: string, path: string, body?: BodyInit, as: string | null = cookie) {
+  const res = await fetch(`${server.url}${path}`, {
+    method,
+    body,
+    headers: { ...(as && { cookie: as }), ...(typeof body === "string" && { "Content-Type": "application/json" }) },
+  });
+  return { status: res.status, body: await res.json() };
+}
+
+// The edit form's fields, as the seller dashboard sends them
+function editForm(changes: Partial<typeof listing>) {
+  const form = new FormData();
+  Object.entries({ ...listing, ...changes }).forEach(([field, value]) => form.append(field, String(value)));
+  form.append("keepImages", "[]");
+  return form;
+}
+
+describe("editing a listing buyers can see", () => {
+  let property: Property;
+
+  beforeEach(async () => {
+    property = await storage.createProperty({ ...listing, sellerId, images: [], status: "active", expiresAt: listingExpiry() });
+  });
+
+  // Approved, sold listings stay sold and expired ones go back on the market
+  for (const [status, approvedStatus] of [["sold", "sold"], ["expired", "active"]] as const) {
+    test(`holds a ${status} one for review and hides it until approved`, async () => {
+      await storage.updateProperty(property.id, { status });
+
+      const edited = await request("PUT", `/api/properties/${property.id}`, editForm({ title: "Now with a pool" }));
+      assert.equal(edited.status, 200);
+      assert.equal(edited.body.status, "pending_review");
+      assert.equal((await request("GET", `/api/properties/${property.id}`, undefined, null)).status, 404);
+
+      const approved = await request(
+        "POST",
+        `/api/admin/moderation/${property.id}`,
+        JSON.stringify({ decision: "approved" }),
+        moderatorCookie,
+      );
+      assert.equal(approved.status, 200);
+      assert.equal(approved.body.status, approvedStatus);
+      assert.equal(approved.body.title, "Now with a pool");
+    });
+  }
+
+  test("leaves it as it is when only the price changes", async () => {
+    await storage.updateProperty(property.id, { status: "sold" });
+
+    const edited = await request("PUT", `/api/properties/${property.id}`, editForm({ price: 240000 }));
+    assert.equal(edited.status, 200);
+    assert.equal(edited.body.status, "sold");
+  });
+});
+
+describe("renewing an expired listing", () => {
+  let property: Property;
+
+  beforeEach(async () => {
+    property = await storage.createProperty({ ...listing, sellerId, images: [], status: "active", expiresAt: listingExpiry() });
+    await storage.updateProperty(property.id, { status: "expired" });
+  });
+
+  test("puts it back on the market", async () => {
+    const renewed = await request("POST", `/api/properties/${property.id}/renew`);
+    assert.equal(renewed.status, 200);
+    assert.equal(renewed.body.status, "active");
+  });
+
+  test("sends it for review when it was rewritten while expired", async () => {
+    // As listings edited before expired ones were held for review were
+    await storage.updateProperty(property.id, { description: "Completely different house" }, sellerId);
+
+    const renewed = await request("POST", `/api/properties/${property.id}/renew`);
+    assert.equal(renewed.status, 200);
+    assert.equal(renewed.body.status, "pending_review");
+    assert.equal((await request("GET", `/api/properties/${property.id}`, undefined, null)).status, 404);
+  });
+});
@@ -0,0 +1,92 @@
+import { storage } from "./storage";
+import { isListingVisible, listingExpiry, unpublishedStatuses } from "./lifecycle";
+import { sameValue } from "./versions";
+import { publicListingStatuses, type InsertProperty, type ModerationDecisionType, type ModerationQueueItem, type Property, type PropertySnapshot } from "@shared/schema";
+
+// Listing moderation. New listings, and edits to what buyers read and see
+// on a live listing, wait in pending_review until a moderator approves them,
+// rejects them, or sends them back to the seller as a draft with a note on
+// what to change. Every decision is logged.
+
+// Edits to these on a listing buyers can see (on the market, sold or
+// expired) hold it for review; price and room counts change too often to
+// hold up
+const materialFields: (keyof PropertySnapshot)[] = ["title", "description", "address", "propertyType", "images"];
+
+export function isMaterialEdit(property: Property, data: Partial<InsertProperty>): boolean {
+  if (!isListingVisible(property)) return false;
+  return materialFields.some(field => data[field] !== undefined && !sameValue(data[field], property[field]));
+}
+
+// Whether what buyers read and see has changed since the listing was last
+// on the market, i.e. it was rewritten while off it without being reviewed
+export async function hasUnreviewedEdits(property: Property): Promise<boolean> {
+  const versions = await storage.getPropertyVersions(property.id);
+  const lastLive = versions.reverse().find(version => publicListingStatuses.includes(version.snapshot.status));
+  if (!lastLive) return false;
+  return materialFields.some(field => !sameValue(lastLive.snapshot[field], property[field]));
+}
+
+export async function getModerationQueue(): Promise<ModerationQueueItem[]> {
+  const pending = await storage.getPropertiesByStatus("pending_review");
+
+  return Promise.all(pending.map(async (property) => {
+    const [seller, statusHistory, versions] = await Promise.all([
+      storage.getUser(property.sellerId),
+      storage.getStatusHistory(property.id),
+      storage.getPropertyVersions(property.id),
+    ]);
+    const submittedFrom = statusHistory[statusHistory.length - 1]?.fromStatus ?? null;
+    const changedFields = submittedFrom && !unpublishedStatuses.includes(submittedFrom)
+      ? versions[versions.length - 1].changedFields.filter(field => field !== "status")
+      : [];
+
+    return {
+      ...property,
+      sellerName: seller ? `${seller.firstName} ${seller.lastName}` : "Unknown",
+      submittedFrom,
+      changedFields,
+    };
+  }));
+}
+
+// Approved listings go back under offer or sold if that's where they were
+// edited, otherwise on the market with a fresh expiry. A reason is required for
+// anything but approval, and is shown to the seller.
+export async function moderateListing(
+  property: Property,
+  decision: ModerationDecisionType,
+  moderatorId: number,
+  reason?: string,
+): Promise<Property> {
+  if (property.status !== "pending_review") {
+    throw new Error("This listing isn't waiting for review");
+  }
+  reason = reason?.trim() || undefined;
+  if (decision !== "approved" && !reason) {
+    throw new Error("A reason is required when rejecting a listing or requesting changes");
+  }
+
+  let updatedProperty: Property;
+  if (decision === "approved") {
+    const statusHistory = await storage.getStatusHistory(property.id);
+    const submittedFrom = statusHistory[statusHistory.length - 1]?.fromStatus;
+    const status = submittedFrom === "under_offer" || submittedFrom === "sold" ? submittedFrom : "active";
+    updatedProperty = await storage.updateProperty(property.id, {
+      status,
+      expiresAt: status === "sold" ? null
+        : status === "under_offer" && property.expiresAt ? property.expiresAt
+        : listingExpiry(),
+      moderationNote: null,
+    }, moderatorId);
+  } else {
+    updatedProperty = await storage.updateProperty(property.id, {
+      status: decision === "rejected" ? "rejected" : "draft",
+      expiresAt: null,
+      moderationNote: reason,
+    }, moderatorId);
+  }
+
+  await storage.createModerationDecision({ propertyId: property.id, moderatorId, decision, reason });
+  return updatedProperty;
+}
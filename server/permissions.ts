@@ -0,0 +1,43 @@
+import type { Request, Response, NextFunction } from "express";
+import { hasPermission, type Permission } from "@shared/permissions";
+
+// Route guards. Ownership checks (a seller's own listing, a participant's
+// own chat) still happen in the handlers once the record is loaded.
+
+// Why the request can't go ahead as a signed-in user: not signed in, or held
+// up by an admin-forced password reset (which doesn't apply to an admin
+// viewing as them). Also checked by the chat socket on upgrade.
+export function signInProblem(req: Request): { status: 401 | 403; message: string } | undefined {
+  if (!req.isAuthenticated()) {
+    return { status: 401, message: "Unauthorized" };
+  }
+  if (req.user.mustResetPassword && !req.session.impersonation) {
+    return { status: 403, message: "Choose a new password to continue" };
+  }
+  return undefined;
+}
+
+// Sends the error response unless the user is signed in
+function rejectUnlessSignedIn(req: Request, res: Response): boolean {
+  const problem = signInProblem(req);
+  if (problem) {
+    res.status(problem.status).json({ message: problem.message });
+    return true;
+  }
+  return false;
+}
+
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (rejectUnlessSignedIn(req, res)) return;
+  next();
+}
+
+export function requirePermission(permission: Permission, message = "You don't have permission to do that") {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (rejectUnlessSignedIn(req, res)) return;
+    if (!hasPermission(req.user, permission)) {
+      return res.status(403).json({ message });
+    }
+    next();
+  };
+}
@@ -0,0 +1,79 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { startTestServer } from "./testing/server";
+
+// The listing search API, against the in-memory storage
+
+process.env.STORAGE_DRIVER = "memory";
+const { storage } = await import("./storage");
+const { encodeCursor } = await import("./cursor");
+
+const server = await startTestServer();
+let ids: number[];
+
+before(async () => {
+  const seller = await storage.createUser({
+    username: "seller",
+    password: "not-a-real-hash",
+    email: "seller@example.com",
+    firstName: "Sam",
+    lastName: "Seller",
+    role: "seller",
+  });
+  ids = [];
+  for (const price of [300000, 200000, 200000, 150000, 250000]) {
+    const property = await storage.createProperty({
+      sellerId: seller.id,
+      title: "Bright family house",
+      address: "12 Main Street",
+      price,
+      contactNumber: "555-0100",
+      propertyType: "house",
+      description: "Three bedrooms close to the park",
+      images: [],
+    });
+    ids.push(property.id);
+  }
+});
+
+after(() => server.close());
+
+async function search(query: Record<string, string>) {
+  const res = await fetch(`${server.url}/api/properties?${new URLSearchParams(query)}`);
+  return { status: res.status, body: await res.json() };
+}
+
+describe("GET /api/properties with a cursor", () => {
+  test("follows nextCursor through every page", async () => {
+    const seen: number[] = [];
+    let cursor: string | null = null;
+    do {
+      const page = await search({ sort: "price_asc", limit: "2", ...(cursor && { cursor }) });
+      assert.equal(page.status, 200);
+      seen.push(...page.body.properties.map((property: { id: number }) => property.id));
+      cursor = page.body.nextCursor;
+    } while (cursor);
+
+    const [dear, tied, tiedLater, cheap, middle] = ids;
+    assert.deepEqual(seen, [cheap, tied, tiedLater, middle, dear]);
+  });
+
+  test("rejects a cursor that doesn't decode", async () => {
+    const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString("base64url");
+    const malformed = ["not-a-cursor", encode({}), encode({ sort: "newest", key: "x", id: 1 }), encode({ sort: "newest", key: 1, id: 1.5 })];
+
+    for (const cursor of malformed) {
+      const page = await search({ cursor });
+      assert.equal(page.status, 400, cursor);
+      assert.equal(page.body.message, "Invalid cursor for this search");
+    }
+  });
+
+  test("rejects a cursor issued for another sort", async () => {
+    const cursor = encodeCursor({ sort: "price_asc", key: 200000, id: ids[1] });
+
+    assert.equal((await search({ sort: "price_asc", cursor })).status, 200);
+    assert.equal((await search({ sort: "price_desc", cursor })).status, 400);
+    assert.equal((await search({ cursor })).status, 400);
+  });
+});
@@ -5,8 +5,23 @@ import { setupAuth } from "./auth";
 import multer from "multer";
 import path from "path";
 import fs from "fs";
-import { WebSocketServer } from "ws";
-import { insertPropertySchema, insertChatSchema, insertMessageSchema } from "@shared/schema";
+import { suggestAddresses, withGeocodedAddress } from "./geocoder";
+import { decodeCursor, encodeCursor } from "./cursor";
+import { parseFilterQuery, parsePropertyFilters } from "./filters";
+import { diffSnapshots } from "./versions";
+import { notifyModerationDecision, notifySavedSearches, notifyWatchers, notifyWatchersOfRemoval } from "./alerts";
+import { changeListingStatus, initialListingState, isListingVisible, renewListing } from "./lifecycle";
+import { getModerationQueue, hasUnreviewedEdits, isMaterialEdit, moderateListing } from "./moderation";
+import { requireAuth, requirePermission } from "./permissions";
+import { deleteAccount, requirePasswordReset, suspendUser, unsuspendUser } from "./accounts";
+import { startImpersonation, stopImpersonation, toSessionUser } from "./impersonation";
+import { getAuditExport, parseAuditFilters, recordAudit, toAuditCsv } from "./audit";
+import { getAdminAnalytics, parseAnalyticsRange } from "./analytics";
+import { ChatError, chatParticipant, markChatRead, sendChatMessage } from "./chat";
+import { announcePresence, disconnectUser, sendToChat, setupChatSocket } from "./chat-socket";
+import { log } from "./vite";
+import { canManageListing, hasPermission } from "@shared/permissions";
+import { insertPropertySchema, insertChatSchema, insertSavedSearchSchema, userSettingsSchema, listingStatuses, moderationDecisionTypes, publicListingStatuses, userListingPolicies, userRoles, type ListingStatus, type ModerationDecisionType, type PropertyPin, type PublicUser, type UserListingPolicy, type UserRole } from "@shared/schema";
 
 // Configure multer for file uploads
 const uploadDir = path.join(process.cwd(), "uploads");
@@ -39,55 +54,112 @@ const upload = multer({
   }
 });
 
+// Most markers the map view will plot for one search
+const mapPinLimit = 500;
+
+// Paging and display parameters aren't part of a saved search
+const unsavedSearchParams = ["page", "limit", "cursor", "view", "map"];
+
+// Sends alerts without holding up the response
+function queueAlerts(alerts: Promise<void>, description: string) {
+  alerts.catch(error => log(`${description} failed: ${(error as Error).message}`, "alerts"));
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Setup authentication routes
-  setupAuth(app);
+  const sessionParser = setupAuth(app);
   
   // Serve uploaded files
   app.use("/uploads", express.static(uploadDir));
   
+  // Optional locally hosted map tiles ({z}/{x}/{y}.png), used by pointing
+  // VITE_MAP_TILE_URL at /tiles/{z}/{x}/{y}.png
+  if (process.env.MAP_TILES_DIR) {
+    app.use("/tiles", express.static(path.resolve(process.env.MAP_TILES_DIR)));
+  }
+  
   // Properties API
   app.get("/api/properties", async (req, res) => {
     try {
-      const { 
-        type, minPrice, maxPrice, location, search,
-        page = "1", limit = "12" 
-      } = req.query;
-      
-      const parsedPage = parseInt(page as string) || 1;
-      const parsedLimit = parseInt(limit as string) || 12;
-      
-      const properties = await storage.getProperties({
-        propertyType: type as string, 
-        minPrice: minPrice ? parseFloat(minPrice as string) : undefined,
-        maxPrice: maxPrice ? parseFloat(maxPrice as string) : undefined,
-        location: location as string,
-        search: search as string,
-        page: parsedPage,
-        limit: parsedLimit
+      const filters = parsePropertyFilters(req.query);
+      if (typeof filters === "string") {
+        return res.status(400).json({ message: filters });
+      }
+      
+      const { page = "1", limit = "12", cursor } = req.query;
+      
+      // A cursor from the previous page takes precedence over page
+      const parsedCursor = cursor ? decodeCursor(cursor as string) : undefined;
+      if (parsedCursor === null || (parsedCursor && parsedCursor.sort !== (filters.sort ?? "newest"))) {
+        return res.status(400).json({ message: "Invalid cursor for this search" });
+      }
+      
+      const { properties, total, nextCursor } = await storage.getProperties({
+        ...filters,
+        page: parseInt(page as string) || 1,
+        cursor: parsedCursor,
+        limit: Math.min(parseInt(limit as string) || 12, 100)
       });
       
-      res.json(properties);
+      res.json({ properties, total, nextCursor: nextCursor && encodeCursor(nextCursor) });
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+  
+  // Map markers for every match with a location, up to mapPinLimit
+  app.get("/api/properties/map", async (req, res) => {
+    try {
+      const filters = parsePropertyFilters(req.query);
+      if (typeof filters === "string") {
+        return res.status(400).json({ message: filters });
+      }
+      
+      // A bbox only matches listings with coordinates, so default to the whole world
+      const { properties, total } = await storage.getProperties({
+        ...filters,
+        bbox: filters.bbox ?? { minLat: -90, minLng: -180, maxLat: 90, maxLng: 180 },
+        page: 1,
+        limit: mapPinLimit
+      });
+      
+      const pins: PropertyPin[] = properties.map(({ id, title, price, propertyType, latitude, longitude }) => ({
+        id, title, price, propertyType, latitude: latitude!, longitude: longitude!
+      }));
+      
+      res.json({ pins, total, truncated: total > pins.length });
     } catch (error) {
       res.status(500).json({ message: (error as Error).message });
     }
   });
   
+  // Address autocomplete for the listing form, served from the local gazetteer
+  app.get("/api/geocode/autocomplete", (req, res) => {
+    const query = typeof req.query.q === "string" ? req.query.q : "";
+    res.json(suggestAddresses(query));
+  });
+  
   app.get("/api/properties/:id", async (req, res) => {
     try {
       const property = await storage.getPropertyById(parseInt(req.params.id));
-      if (!property) {
+      if (!property || !isListingVisible(property, req.user)) {
         return res.status(404).json({ message: "Property not found" });
       }
+      
+      // Views by the seller, staff and admins viewing as someone don't count
+      if (!canManageListing(req.user, property) && !hasPermission(req.user, "listings:moderate") && !req.session.impersonation) {
+        storage.recordPropertyView(property.id, req.user?.id ?? null)
+          .catch(error => log(`recording a view of property ${property.id} failed: ${(error as Error).message}`, "analytics"));
+      }
       res.json(property);
     } catch (error) {
       res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  app.get("/api/properties/seller/:sellerId", async (req, res) => {
+  app.get("/api/properties/seller/:sellerId", requireAuth, async (req, res) => {
     try {
-      if (!req.isAuthenticated() || req.user.id !== parseInt(req.params.sellerId)) {
+      if (req.user!.id !== parseInt(req.params.sellerId)) {
         return res.status(403).json({ message: "Unauthorized" });
       }
       
@@ -98,35 +170,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.post("/api/properties", upload.array("images", 4), async (req, res) => {
+  app.post("/api/properties", requirePermission("listings:create", "Only sellers and agents can add properties"), upload.array("images", 4), async (req, res) => {
     try {
-      if (!req.isAuthenticated() || req.user.role !== "seller") {
-        return res.status(403).json({ message: "Only sellers can add properties" });
-      }
-      
       const files = req.files as Express.Multer.File[];
       const imagePaths = files.map(file => `/uploads/${file.filename}`);
       
       const propertyData = {
         ...req.body,
-        sellerId: req.user.id,
+        sellerId: req.user!.id,
         price: parseFloat(req.body.price),
         bedrooms: req.body.bedrooms ? parseInt(req.body.bedrooms) : null,
         bathrooms: req.body.bathrooms ? parseInt(req.body.bathrooms) : null,
         squareFeet: req.body.squareFeet ? parseInt(req.body.squareFeet) : null,
         yearBuilt: req.body.yearBuilt ? parseInt(req.body.yearBuilt) : null,
+        latitude: req.body.latitude ? parseFloat(req.body.latitude) : null,
+        longitude: req.body.longitude ? parseFloat(req.body.longitude) : null,
+        amenities: req.body.amenities ? JSON.parse(req.body.amenities) : [],
+        // Goes live once a moderator approves it
+        ...initialListingState(req.body.status === "draft" ? "draft" : "pending_review"),
         images: imagePaths
       };
       
       const validatedData = insertPropertySchema.parse(propertyData);
-      const property = await storage.createProperty(validatedData);
+      const property = await storage.createProperty(withGeocodedAddress(validatedData), req.user!.id);
+      await recordAudit(req, { action: "property.create", target: { type: "property", id: property.id }, after: property });
+      queueAlerts(notifySavedSearches(property), `saved search alerts for property ${property.id}`);
       res.status(201).json(property);
     } catch (error) {
       res.status(400).json({ message: (error as Error).message });
     }
   });
   
-  app.put("/api/properties/:id", upload.array("newImages", 4), async (req, res) => {
+  app.put("/api/properties/:id", requireAuth, upload.array("newImages", 4), async (req, res) => {
     try {
       const propertyId = parseInt(req.params.id);
       const property = await storage.getPropertyById(propertyId);
@@ -135,7 +210,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Property not found" });
       }
       
-      if (!req.isAuthenticated() || (req.user.id !== property.sellerId && req.user.role !== "admin")) {
+      if (!canManageListing(req.user, property)) {
         return res.status(403).json({ message: "Unauthorized" });
       }
       
@@ -154,17 +229,105 @@ export async function registerRoutes(app: Express): Promise<Server> {
         bathrooms: req.body.bathrooms ? parseInt(req.body.bathrooms) : null,
         squareFeet: req.body.squareFeet ? parseInt(req.body.squareFeet) : null,
         yearBuilt: req.body.yearBuilt ? parseInt(req.body.yearBuilt) : null,
+        latitude: req.body.latitude ? parseFloat(req.body.latitude) : null,
+        longitude: req.body.longitude ? parseFloat(req.body.longitude) : null,
+        amenities: req.body.amenities ? JSON.parse(req.body.amenities) : [],
+        // Status changes go through PATCH /api/properties/:id/status
+        status: property.status,
+        expiresAt: property.expiresAt,
         images
       };
       
-      const updatedProperty = await storage.updateProperty(propertyId, propertyData);
+      const validatedData = withGeocodedAddress(insertPropertySchema.parse(propertyData));
+      // A seller's material edits to a listing buyers can see go back through
+      // moderation
+      if (!hasPermission(req.user, "listings:moderate") && isMaterialEdit(property, validatedData)) {
+        validatedData.status = "pending_review";
+      }
+      
+      const updatedProperty = await storage.updateProperty(propertyId, validatedData, req.user!.id);
+      await recordAudit(req, { action: "property.update", target: { type: "property", id: propertyId }, before: property, after: updatedProperty });
+      queueAlerts(notifySavedSearches(updatedProperty), `saved search alerts for property ${propertyId}`);
+      queueAlerts(notifyWatchers(property, updatedProperty), `watcher alerts for property ${propertyId}`);
+      res.json(updatedProperty);
+    } catch (error) {
+      res.status(400).json({ message: (error as Error).message });
+    }
+  });
+  
+  app.patch("/api/properties/:id/status", requireAuth, async (req, res) => {
+    try {
+      const propertyId = parseInt(req.params.id);
+      const property = await storage.getPropertyById(propertyId);
+      
+      if (!property) {
+        return res.status(404).json({ message: "Property not found" });
+      }
+      
+      if (!canManageListing(req.user, property)) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+      
+      const status = req.body.status as ListingStatus;
+      if (!listingStatuses.includes(status)) {
+        return res.status(400).json({ message: "Unknown listing status" });
+      }
+      
+      const updatedProperty = await changeListingStatus(property, status, req.user!.id);
+      await recordAudit(req, { action: "property.status_change", target: { type: "property", id: propertyId }, before: property, after: updatedProperty });
+      queueAlerts(notifySavedSearches(updatedProperty), `saved search alerts for property ${propertyId}`);
+      queueAlerts(notifyWatchers(property, updatedProperty), `watcher alerts for property ${propertyId}`);
       res.json(updatedProperty);
     } catch (error) {
       res.status(400).json({ message: (error as Error).message });
     }
   });
   
-  app.delete("/api/properties/:id", async (req, res) => {
+  app.post("/api/properties/:id/renew", requireAuth, async (req, res) => {
+    try {
+      const propertyId = parseInt(req.params.id);
+      const property = await storage.getPropertyById(propertyId);
+      
+      if (!property) {
+        return res.status(404).json({ message: "Property not found" });
+      }
+      
+      if (!canManageListing(req.user, property)) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+      
+      const needsReview = property.status === "expired" && !hasPermission(req.user, "listings:moderate") &&
+        await hasUnreviewedEdits(property);
+      const updatedProperty = await renewListing(property, req.user!.id, needsReview);
+      await recordAudit(req, { action: "property.renew", target: { type: "property", id: propertyId }, before: property, after: updatedProperty });
+      queueAlerts(notifySavedSearches(updatedProperty), `saved search alerts for property ${propertyId}`);
+      res.json(updatedProperty);
+    } catch (error) {
+      res.status(400).json({ message: (error as Error).message });
+    }
+  });
+  
+  app.get("/api/properties/:id/status-history", requireAuth, async (req, res) => {
+    try {
+      const propertyId = parseInt(req.params.id);
+      const property = await storage.getPropertyById(propertyId);
+      
+      if (!property) {
+        return res.status(404).json({ message: "Property not found" });
+      }
+      
+      if (!canManageListing(req.user, property)) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+      
+      const history = await storage.getStatusHistory(propertyId);
+      res.json(history);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+  
+  app.delete("/api/properties/:id", requireAuth, async (req, res) => {
     try {
       const propertyId = parseInt(req.params.id);
       const property = await storage.getPropertyById(propertyId);
@@ -173,53 +336,120 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Property not found" });
       }
       
-      if (!req.isAuthenticated() || (req.user.id !== property.sellerId && req.user.role !== "admin")) {
+      if (!canManageListing(req.user, property)) {
         return res.status(403).json({ message: "Unauthorized" });
       }
       
+      const watcherIds = await storage.getFavouriteUserIds(propertyId);
       await storage.deleteProperty(propertyId);
+      await recordAudit(req, { action: "property.delete", target: { type: "property", id: propertyId }, before: property });
+      queueAlerts(notifyWatchersOfRemoval(property, watcherIds), `watcher alerts for property ${propertyId}`);
       res.status(204).end();
     } catch (error) {
       res.status(500).json({ message: (error as Error).message });
     }
   });
   
-  // Chat API
-  app.get("/api/chats", async (req, res) => {
+  app.get("/api/properties/:id/price-history", async (req, res) => {
     try {
-      if (!req.isAuthenticated()) {
-        return res.status(401).json({ message: "Unauthorized" });
+      const propertyId = parseInt(req.params.id);
+      const property = await storage.getPropertyById(propertyId);
+      
+      if (!property || !isListingVisible(property, req.user)) {
+        return res.status(404).json({ message: "Property not found" });
       }
       
-      const userId = req.user.id;
-      const userRole = req.user.role;
+      const history = await storage.getPriceHistory(propertyId);
+      res.json(history);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+  
+  // Favourites API
+  app.get("/api/favourites", requireAuth, async (req, res) => {
+    try {
+      const favourites = await storage.getFavouritesByUserId(req.user!.id);
+      res.json(favourites);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+  
+  app.put("/api/favourites/:propertyId", requirePermission("favourites:save", "Only buyers can save homes"), async (req, res) => {
+    try {
+      const property = await storage.getPropertyById(parseInt(req.params.propertyId));
+      if (!property) {
+        return res.status(404).json({ message: "Property not found" });
+      }
+      
+      if (!publicListingStatuses.includes(property.status)) {
+        return res.status(400).json({ message: "This listing is no longer available" });
+      }
+      
+      const favourite = await storage.addFavourite(req.user!.id, property.id);
+      res.json(favourite);
+    } catch (error) {
+      res.status(400).json({ message: (error as Error).message });
+    }
+  });
+  
+  app.delete("/api/favourites/:propertyId", requireAuth, async (req, res) => {
+    try {
+      await storage.removeFavourite(req.user!.id, parseInt(req.params.propertyId));
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+  
+  // Chat API
+  app.get("/api/chats", requireAuth, async (req, res) => {
+    try {
+      const userId = req.user!.id;
       
+      // Buyers see the chats they started, everyone else the ones about their listings
       let chats;
-      if (userRole === "buyer") {
+      if (hasPermission(req.user, "chats:start")) {
         chats = await storage.getChatsByBuyerId(userId);
       } else {
         chats = await storage.getChatsBySellerId(userId);
       }
       
-      res.json(chats);
+      const unreadCounts = await storage.getUnreadCounts(userId);
+      const now = new Date();
+      res.json(chats.map(chat => ({
+        ...chat,
+        ...("seller" in chat ? { seller: chatParticipant(chat.seller, now) } : { buyer: chatParticipant(chat.buyer, now) }),
+        unreadCount: unreadCounts[chat.id] ?? 0,
+      })));
     } catch (error) {
       res.status(500).json({ message: (error as Error).message });
     }
   });
   
-  app.post("/api/chats", async (req, res) => {
+  app.post("/api/chats", requirePermission("chats:start", "Only buyers can initiate chats"), async (req, res) => {
     try {
-      if (!req.isAuthenticated() || req.user.role !== "buyer") {
-        return res.status(403).json({ message: "Only buyers can initiate chats" });
-      }
-      
       const chatData = {
         ...req.body,
-        buyerId: req.user.id
+        buyerId: req.user!.id
       };
       
       const validatedData = insertChatSchema.parse(chatData);
       
+      const property = await storage.getPropertyById(validatedData.propertyId);
+      if (!property) {
+        return res.status(404).json({ message: "Property not found" });
+      }
+      
+      if (property.sellerId !== validatedData.sellerId) {
+        return res.status(400).json({ message: "Seller does not own this property" });
+      }
+      
+      if (!publicListingStatuses.includes(property.status)) {
+        return res.status(400).json({ message: "This listing is no longer available" });
+      }
+      
       // Check if chat already exists
       const existingChat = await storage.findChat(validatedData.buyerId, validatedData.sellerId, validatedData.propertyId);
       if (existingChat) {
@@ -227,18 +457,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const chat = await storage.createChat(validatedData);
+      await recordAudit(req, { action: "chat.start", target: { type: "chat", id: chat.id }, after: chat });
       res.status(201).json(chat);
     } catch (error) {
       res.status(400).json({ message: (error as Error).message });
     }
   });
   
-  app.get("/api/chats/:id/messages", async (req, res) => {
+  // Body: { messageId }, the newest message seen; the newest in the chat if left out
+  app.post("/api/chats/:id/read", requireAuth, async (req, res) => {
     try {
-      if (!req.isAuthenticated()) {
-        return res.status(401).json({ message: "Unauthorized" });
+      const messageId = req.body.messageId === undefined ? undefined : parseInt(req.body.messageId);
+      if (messageId !== undefined && isNaN(messageId)) {
+        return res.status(400).json({ message: "messageId must be a message id" });
       }
       
+      const { chat, lastReadId } = await markChatRead(req.user!, parseInt(req.params.id), messageId);
+      sendToChat(chat, { type: "read", chatId: chat.id, userId: req.user!.id, messageId: lastReadId });
+      res.json({ chatId: chat.id, lastReadId });
+    } catch (error) {
+      res.status(error instanceof ChatError ? error.status : 400).json({ message: (error as Error).message });
+    }
+  });
+  
+  app.get("/api/chats/:id/messages", requireAuth, async (req, res) => {
+    try {
       const chatId = parseInt(req.params.id);
       const chat = await storage.getChatById(chatId);
       
@@ -246,7 +489,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Chat not found" });
       }
       
-      if (chat.buyerId !== req.user.id && chat.sellerId !== req.user.id) {
+      if (chat.buyerId !== req.user!.id && chat.sellerId !== req.user!.id) {
         return res.status(403).json({ message: "Unauthorized" });
       }
       
@@ -257,41 +500,157 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.post("/api/messages", async (req, res) => {
+  app.post("/api/messages", requireAuth, async (req, res) => {
     try {
-      if (!req.isAuthenticated()) {
-        return res.status(401).json({ message: "Unauthorized" });
+      const { chat, message } = await sendChatMessage(req.user!, parseInt(req.body.chatId), req.body.content);
+      sendToChat(chat, { type: "message", message });
+      
+      res.status(200).json(message);
+    } catch (error) {
+      res.status(error instanceof ChatError ? error.status : 400).json({ message: (error as Error).message });
+    }
+  });
+  
+  // Saved search API
+  app.get("/api/saved-searches", requireAuth, async (req, res) => {
+    try {
+      const savedSearches = await storage.getSavedSearchesByUserId(req.user!.id);
+      res.json(savedSearches);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+  
+  app.post("/api/saved-searches", requirePermission("searches:save", "Only buyers can save searches"), async (req, res) => {
+    try {
+      // query is the GET /api/properties query string of the search
+      const params = new URLSearchParams(typeof req.body.query === "string" ? req.body.query : "");
+      unsavedSearchParams.forEach(param => params.delete(param));
+      const query = params.toString();
+      
+      const filters = parseFilterQuery(query);
+      if (typeof filters === "string") {
+        return res.status(400).json({ message: filters });
       }
       
-      const { chatId, content } = req.body;
-      const senderId = req.user.id;
+      const validatedData = insertSavedSearchSchema.parse({
+        ...req.body,
+        userId: req.user!.id,
+        query,
+      });
+      const savedSearch = await storage.createSavedSearch(validatedData);
+      res.status(201).json(savedSearch);
+    } catch (error) {
+      res.status(400).json({ message: (error as Error).message });
+    }
+  });
+  
+  app.patch("/api/saved-searches/:id", requireAuth, async (req, res) => {
+    try {
+      const savedSearch = await storage.getSavedSearchById(parseInt(req.params.id));
       
-      // Validate that the user is part of this chat
-      const chat = await storage.getChatById(parseInt(chatId));
-      if (!chat) {
-        return res.status(404).json({ message: "Chat not found" });
+      if (!savedSearch) {
+        return res.status(404).json({ message: "Saved search not found" });
       }
       
-      if (chat.buyerId !== senderId && chat.sellerId !== senderId) {
-        return res.status(403).json({ message: "You are not a participant in this chat" });
+      if (req.user!.id !== savedSearch.userId) {
+        return res.status(403).json({ message: "Unauthorized" });
       }
       
-      const messageData = {
-        chatId: parseInt(chatId),
-        senderId,
-        content
-      };
+      // The filters themselves are fixed; save a new search to change them
+      const validatedData = insertSavedSearchSchema
+        .pick({ name: true, frequency: true, emailEnabled: true })
+        .partial()
+        .parse(req.body);
+      const updatedSavedSearch = await storage.updateSavedSearch(savedSearch.id, validatedData);
+      res.json(updatedSavedSearch);
+    } catch (error) {
+      res.status(400).json({ message: (error as Error).message });
+    }
+  });
+  
+  app.delete("/api/saved-searches/:id", requireAuth, async (req, res) => {
+    try {
+      const savedSearch = await storage.getSavedSearchById(parseInt(req.params.id));
       
-      const validatedData = insertMessageSchema.parse(messageData);
-      const message = await storage.createMessage(validatedData);
+      if (!savedSearch) {
+        return res.status(404).json({ message: "Saved search not found" });
+      }
       
-      res.status(200).json(message);
+      if (req.user!.id !== savedSearch.userId) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+      
+      await storage.deleteSavedSearch(savedSearch.id);
+      res.status(204).end();
     } catch (error) {
-      res.status(400).json({ message: (error as Error).message });
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+  
+  // Linked from alert emails, so it works without signing in
+  app.get("/api/saved-searches/unsubscribe/:token", async (req, res) => {
+    try {
+      const savedSearch = await storage.getSavedSearchByUnsubscribeToken(req.params.token);
+      
+      if (!savedSearch) {
+        return res.status(404).type("text/plain").send("This unsubscribe link is no longer valid.");
+      }
+      
+      await storage.updateSavedSearch(savedSearch.id, { emailEnabled: false });
+      res.type("text/plain").send(`You will no longer get emails for "${savedSearch.name}". ` +
+        "In-app notifications continue; manage them from Saved searches.");
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+  
+  // Notification API
+  app.get("/api/notifications", requireAuth, async (req, res) => {
+    try {
+      const notifications = await storage.getNotificationsByUserId(req.user!.id);
+      res.json(notifications);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+  
+  app.post("/api/notifications/read", requireAuth, async (req, res) => {
+    try {
+      // Marks the listed notifications read, or all of them without ids
+      const { ids } = req.body;
+      if (ids !== undefined && (!Array.isArray(ids) || !ids.every(Number.isInteger))) {
+        return res.status(400).json({ message: "ids must be a list of notification ids" });
+      }
+      
+      await storage.markNotificationsRead(req.user!.id, ids);
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
     }
   });
   
   // User routes
+  app.patch("/api/user/settings", requireAuth, async (req, res) => {
+    try {
+      const parsed = userSettingsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid settings" });
+      }
+      
+      const settings = parsed.data;
+      const user = await storage.updateUser(req.user!.id, settings);
+      if (settings.hidePresence !== undefined && settings.hidePresence !== req.user!.hidePresence) {
+        await announcePresence(user);
+      }
+      
+      const { password, ...userData } = user;
+      res.json(userData);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+  
   app.get("/api/users/:id", async (req, res) => {
     try {
       const userId = parseInt(req.params.id);
@@ -301,21 +660,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "User not found" });
       }
       
-      // Remove password before sending the user data
-      const { password, ...userData } = user;
-      res.json(userData);
+      // Only what a public profile shows; account state, settings and
+      // presence (only for the people they chat with) stay private
+      const { id, username, firstName, lastName, role, createdAt } = user;
+      const profile: PublicUser = { id, username, firstName, lastName, role, createdAt };
+      res.json(profile);
     } catch (error) {
       res.status(500).json({ message: (error as Error).message });
     }
   });
   
   // Admin routes
-  app.get("/api/admin/properties", async (req, res) => {
+  app.get("/api/admin/properties", requirePermission("listings:moderate"), async (req, res) => {
     try {
-      if (!req.isAuthenticated() || req.user.role !== "admin") {
-        return res.status(403).json({ message: "Admin access required" });
-      }
-      
       const properties = await storage.getAllProperties();
       res.json(properties);
     } catch (error) {
@@ -323,90 +680,297 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.get("/api/admin/users", async (req, res) => {
+  app.get("/api/admin/properties/:id/versions", requirePermission("listings:moderate"), async (req, res) => {
+    try {
+      const versions = await storage.getPropertyVersions(parseInt(req.params.id));
+      if (!versions.length) {
+        return res.status(404).json({ message: "Property not found" });
+      }
+      
+      res.json(versions);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+  
+  // What changed between two versions: ?from=1&to=3 (either order)
+  app.get("/api/admin/properties/:id/versions/diff", requirePermission("listings:moderate"), async (req, res) => {
+    try {
+      const propertyId = parseInt(req.params.id);
+      const fromVersion = Number(req.query.from);
+      const toVersion = Number(req.query.to);
+      if (!Number.isInteger(fromVersion) || !Number.isInteger(toVersion)) {
+        return res.status(400).json({ message: "from and to must be version numbers" });
+      }
+      
+      const [from, to] = await Promise.all([
+        storage.getPropertyVersion(propertyId, fromVersion),
+        storage.getPropertyVersion(propertyId, toVersion),
+      ]);
+      if (!from || !to) {
+        return res.status(404).json({ message: "Version not found" });
+      }
+      
+      const { snapshot: _fromSnapshot, ...fromVersionInfo } = from;
+      const { snapshot: _toSnapshot, ...toVersionInfo } = to;
+      res.json({
+        propertyId,
+        from: fromVersionInfo,
+        to: toVersionInfo,
+        changes: diffSnapshots(from.snapshot, to.snapshot),
+      });
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+  
+  // Listings waiting for review, longest waiting first
+  app.get("/api/admin/moderation", requirePermission("listings:moderate"), async (req, res) => {
     try {
-      if (!req.isAuthenticated() || req.user.role !== "admin") {
-        return res.status(403).json({ message: "Admin access required" });
+      const queue = await getModerationQueue();
+      res.json(queue);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+  
+  // Decisions, newest first; ?propertyId= for one listing's
+  app.get("/api/admin/moderation/log", requirePermission("listings:moderate"), async (req, res) => {
+    try {
+      const propertyId = req.query.propertyId ? parseInt(req.query.propertyId as string) : undefined;
+      const decisions = await storage.getModerationDecisions(propertyId);
+      res.json(decisions);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+  
+  // Body: { decision: "approved" | "rejected" | "changes_requested", reason? }
+  app.post("/api/admin/moderation/:propertyId", requirePermission("listings:moderate"), async (req, res) => {
+    try {
+      const propertyId = parseInt(req.params.propertyId);
+      const property = await storage.getPropertyById(propertyId);
+      if (!property) {
+        return res.status(404).json({ message: "Property not found" });
+      }
+      
+      const decision = req.body.decision as ModerationDecisionType;
+      if (!moderationDecisionTypes.includes(decision)) {
+        return res.status(400).json({ message: "Unknown moderation decision" });
       }
       
+      const reason = typeof req.body.reason === "string" ? req.body.reason : undefined;
+      const updatedProperty = await moderateListing(property, decision, req.user!.id, reason);
+      await recordAudit(req, { action: "moderation.decision", target: { type: "property", id: propertyId }, before: property, after: updatedProperty });
+      queueAlerts(notifyModerationDecision(updatedProperty, decision), `moderation alert for property ${propertyId}`);
+      queueAlerts(notifySavedSearches(updatedProperty), `saved search alerts for property ${propertyId}`);
+      queueAlerts(notifyWatchers(property, updatedProperty), `watcher alerts for property ${propertyId}`);
+      res.json(updatedProperty);
+    } catch (error) {
+      res.status(400).json({ message: (error as Error).message });
+    }
+  });
+  
+  app.get("/api/admin/users", requirePermission("users:view"), async (req, res) => {
+    try {
       const users = await storage.getAllUsers();
-      res.json(users);
+      res.json(users.map(({ password, ...user }) => user));
     } catch (error) {
       res.status(500).json({ message: (error as Error).message });
     }
   });
   
-  // Create HTTP server
-  const httpServer = createServer(app);
+  // Body: { role }
+  app.patch("/api/admin/users/:id/role", requirePermission("users:manage_roles"), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      if (userId === req.user!.id) {
+        return res.status(400).json({ message: "You can't change your own role" });
+      }
+      
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      const role = req.body.role as UserRole;
+      if (!userRoles.includes(role)) {
+        return res.status(400).json({ message: "Unknown role" });
+      }
+      
+      const updatedUser = await storage.updateUser(userId, { role });
+      await recordAudit(req, { action: "user.role_change", target: { type: "user", id: userId }, before: user, after: updatedUser });
+      const { password, ...userData } = updatedUser;
+      res.json(userData);
+    } catch (error) {
+      res.status(400).json({ message: (error as Error).message });
+    }
+  });
   
-  // Set up WebSocket server for real-time chat on a separate path
-  // to avoid conflicts with Vite's WebSocket server
-  const wss = new WebSocketServer({ 
-    server: httpServer,
-    path: "/ws/chat"
+  // Body: { reason }, shown to the user when they try to sign in
+  app.post("/api/admin/users/:id/suspend", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const user = await storage.getUser(parseInt(req.params.id));
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      const reason = typeof req.body.reason === "string" ? req.body.reason : undefined;
+      const updatedUser = await suspendUser(req.user!, user, reason);
+      await recordAudit(req, { action: "user.suspend", target: { type: "user", id: user.id }, before: user, after: updatedUser });
+      const { password, ...userData } = updatedUser;
+      disconnectUser(user.id);
+      res.json(userData);
+    } catch (error) {
+      res.status(400).json({ message: (error as Error).message });
+    }
   });
   
-  // Store active connections
-  const clients = new Map();
+  app.post("/api/admin/users/:id/unsuspend", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const user = await storage.getUser(parseInt(req.params.id));
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      const updatedUser = await unsuspendUser(req.user!, user);
+      await recordAudit(req, { action: "user.unsuspend", target: { type: "user", id: user.id }, before: user, after: updatedUser });
+      const { password, ...userData } = updatedUser;
+      res.json(userData);
+    } catch (error) {
+      res.status(400).json({ message: (error as Error).message });
+    }
+  });
   
-  console.log("WebSocket server initialized on path: /ws/chat");
+  app.post("/api/admin/users/:id/reset-password", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const user = await storage.getUser(parseInt(req.params.id));
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      const updatedUser = await requirePasswordReset(req.user!, user);
+      await recordAudit(req, { action: "user.password_reset", target: { type: "user", id: user.id }, before: user, after: updatedUser });
+      const { password, ...userData } = updatedUser;
+      res.json(userData);
+    } catch (error) {
+      res.status(400).json({ message: (error as Error).message });
+    }
+  });
   
-  wss.on("connection", (ws, req) => {
-    console.log("New WebSocket connection established");
-    
-    // Extract user information from session or query params
-    const url = new URL(req.url || "", `http://${req.headers.host}`);
-    const userId = url.searchParams.get("userId");
-    
-    if (userId) {
-      console.log(`User ${userId} connected to WebSocket`);
-      clients.set(userId, ws);
+  // ?listings=delete removes the user's listings too; ?listings=transfer&transferTo=<id>
+  // hands them to another seller or agent
+  app.delete("/api/admin/users/:id", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const user = await storage.getUser(parseInt(req.params.id));
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      const listingPolicy = req.query.listings as UserListingPolicy;
+      if (!userListingPolicies.includes(listingPolicy)) {
+        return res.status(400).json({ message: "listings must be delete or transfer" });
+      }
+      
+      const transferToId = req.query.transferTo ? parseInt(req.query.transferTo as string) : undefined;
+      const removed = await deleteAccount(req.user!, user, listingPolicy, transferToId);
+      // after records what became of the account's listings
+      await recordAudit(req, {
+        action: "user.delete",
+        target: { type: "user", id: user.id },
+        before: user,
+        after: { listings: listingPolicy, transferTo: transferToId ?? null, deletedListingIds: removed.map(({ property }) => property.id) },
+      });
+      disconnectUser(user.id);
+      removed.forEach(({ property, watcherIds }) =>
+        queueAlerts(notifyWatchersOfRemoval(property, watcherIds), `watcher alerts for property ${property.id}`));
+      res.status(204).end();
+    } catch (error) {
+      res.status(400).json({ message: (error as Error).message });
     }
-    
-    ws.on("message", async (messageData) => {
-      try {
-        const { chatId, senderId, content } = JSON.parse(messageData.toString());
-        console.log(`Received message from user ${senderId} in chat ${chatId}`);
-        
-        // Save message to database
-        const messagePayload = {
-          chatId,
-          senderId,
-          content
-        };
-        
-        const validatedData = insertMessageSchema.parse(messagePayload);
-        const message = await storage.createMessage(validatedData);
-        
-        // Get chat to find recipient
-        const chat = await storage.getChatById(chatId);
-        if (!chat) return;
-        
-        // Determine recipient based on sender
-        const recipientId = senderId === chat.buyerId ? chat.sellerId : chat.buyerId;
-        
-        // Send message to recipient if online
-        const recipientWs = clients.get(recipientId.toString());
-        if (recipientWs) {
-          console.log(`Sending message to recipient ${recipientId}`);
-          recipientWs.send(JSON.stringify(message));
-        }
-        
-        // Send confirmation back to sender
-        ws.send(JSON.stringify(message));
-      } catch (error) {
-        console.error("WebSocket message error:", error);
-      }
-    });
-    
-    ws.on("close", () => {
-      if (userId) {
-        console.log(`User ${userId} disconnected from WebSocket`);
-        clients.delete(userId);
+  });
+  
+  // Body: { reason }. Switches this session to the user, read-only, until
+  // it's stopped or runs out
+  app.post("/api/admin/users/:id/impersonate", requirePermission("users:impersonate"), async (req, res) => {
+    try {
+      const user = await storage.getUser(parseInt(req.params.id));
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
       }
-    });
+      
+      const reason = typeof req.body.reason === "string" ? req.body.reason : undefined;
+      await startImpersonation(req, user, reason);
+      res.json(await toSessionUser(req));
+    } catch (error) {
+      res.status(400).json({ message: (error as Error).message });
+    }
   });
   
+  // Signed in as the impersonated user, so only needs a session. Returns
+  // the admin again, or null if they've been signed out.
+  app.post("/api/admin/impersonation/stop", requireAuth, async (req, res) => {
+    try {
+      const admin = await stopImpersonation(req);
+      res.json(admin ? await toSessionUser(req) : null);
+    } catch (error) {
+      res.status(400).json({ message: (error as Error).message });
+    }
+  });
+  
+  app.get("/api/admin/impersonations", requirePermission("users:view"), async (req, res) => {
+    try {
+      const sessions = await storage.getImpersonationSessions();
+      res.json(sessions);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+  
+  // Newest first, 100 at a time; ?before= is nextCursor from the previous page.
+  // Filters are described in parseAuditFilters.
+  app.get("/api/admin/audit", requirePermission("audit:view"), async (req, res) => {
+    try {
+      const filters = parseAuditFilters(req.query);
+      const limit = filters.limit ?? 100;
+      const entries = await storage.getAuditLog({ ...filters, limit });
+      res.json({
+        entries,
+        nextCursor: entries.length === limit ? entries[entries.length - 1].id : null,
+      });
+    } catch (error) {
+      res.status(400).json({ message: (error as Error).message });
+    }
+  });
+  
+  // Same filters, as a CSV download
+  app.get("/api/admin/audit/export", requirePermission("audit:view"), async (req, res) => {
+    try {
+      const entries = await getAuditExport(parseAuditFilters(req.query));
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="audit-log-${new Date().toISOString().slice(0, 10)}.csv"`);
+      res.send(toAuditCsv(entries));
+    } catch (error) {
+      res.status(400).json({ message: (error as Error).message });
+    }
+  });
+  
+  // ?from=&to= (YYYY-MM-DD, both included); defaults to the last 30 days
+  app.get("/api/admin/analytics", requirePermission("analytics:view"), async (req, res) => {
+    try {
+      const range = parseAnalyticsRange(req.query);
+      res.json(await getAdminAnalytics(range));
+    } catch (error) {
+      res.status(400).json({ message: (error as Error).message });
+    }
+  });
+  
+  // Create HTTP server
+  const httpServer = createServer(app);
+  
+  // Real-time chat, on a separate path from Vite's WebSocket server
+  setupChatSocket(httpServer, sessionParser);
+  
   return httpServer;
 }
 
@@ -0,0 +1,126 @@
+// Full-text search for the in-memory storage, mirroring the Postgres
+// tsvector search: stemmed terms, prefix matches, typo tolerance and
+// field weights that follow ts_rank's defaults for A/B/C weighted text.
+
+export interface SearchField {
+  text: string;
+  weight: number;
+  // Whether misspelt terms match it; Postgres's trigram fallback only
+  // covers the title and address (propertyFuzzyText)
+  typos: boolean;
+}
+
+export const fieldWeights = {
+  title: 1.0,
+  address: 0.4,
+  description: 0.2,
+};
+
+const stopWords = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "in", "is",
+  "it", "of", "on", "or", "that", "the", "to", "with",
+]);
+
+// Match quality for a query term against a document term
+const exactMatch = 1;
+const prefixMatch = 0.75;
+const typoMatch = 0.5;
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token && !stopWords.has(token));
+}
+
+// A light English stemmer covering plurals and the common verb/adverb suffixes
+export function stem(word: string): string {
+  if (word.length <= 3 || /^\d+$/.test(word)) return word;
+
+  if (word.endsWith("sses")) return word.slice(0, -2);
+  if (word.endsWith("ies")) return word.slice(0, -3) + "y";
+
+  for (const suffix of ["ing", "ed", "ly"]) {
+    const base = word.slice(0, -suffix.length);
+    if (word.endsWith(suffix) && base.length >= 3 && /[aeiouy]/.test(base)) {
+      // hopping -> hop, but keep fill -> fill, pass -> pass
+      return /([^aeioulsz])\1$/.test(base) ? base.slice(0, -1) : base;
+    }
+  }
+
+  if (word.endsWith("s") && !word.endsWith("ss") && !word.endsWith("us")) {
+    return word.slice(0, -1);
+  }
+
+  return word;
+}
+
+// Levenshtein distance, giving up as soon as it exceeds max
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+function matchTerm(queryTerm: string, docTerm: string, typos: boolean): number {
+  if (queryTerm === docTerm) return exactMatch;
+  if (docTerm.startsWith(queryTerm)) return prefixMatch;
+
+  // Allow one typo from four characters, two from eight
+  if (typos && queryTerm.length >= 4) {
+    const allowed = queryTerm.length >= 8 ? 2 : 1;
+    if (editDistance(queryTerm, docTerm, allowed) <= allowed) return typoMatch;
+  }
+
+  return 0;
+}
+
+export function parseQuery(query: string): string[] {
+  return tokenize(query).map(stem);
+}
+
+// Every term has to match one of the fields. The score is the mean of each
+// term's best weighted match, or 0 when the document doesn't match.
+export function scoreDocument(terms: string[], fields: SearchField[]): number {
+  if (!terms.length) return 0;
+
+  const documentTerms = fields.map(field => ({
+    terms: parseQuery(field.text),
+    weight: field.weight,
+    typos: field.typos,
+  }));
+
+  let total = 0;
+  for (const term of terms) {
+    let best = 0;
+    for (const field of documentTerms) {
+      for (const docTerm of field.terms) {
+        best = Math.max(best, matchTerm(term, docTerm, field.typos) * field.weight);
+      }
+    }
+    if (best === 0) return 0;
+    total += best;
+  }
+
+  return Math.round((total / terms.length) * 10000) / 10000;
+}
+
+// Builds a Postgres to_tsquery() expression requiring every term, each as a
+// prefix. Returns null when the query has no searchable terms.
+export function toTsQuery(query: string): string | null {
+  const terms = tokenize(query);
+  return terms.length ? terms.map(term => `${term}:*`).join(" & ") : null;
+}
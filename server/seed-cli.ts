@@ -0,0 +1,16 @@
+import { storage, storageDriver } from "./storage";
+import { pool } from "./db";
+import { runMigrations } from "./migrate";
+import { seedDatabase } from "./seed";
+
+// `npm run db:seed`: brings the database up to date, then creates the admin
+// user plus demo data (demo data is skipped when NODE_ENV=production)
+if (storageDriver !== "database") {
+  throw new Error("db:seed requires DATABASE_URL, the in-memory storage seeds itself on startup");
+}
+
+(async () => {
+  await runMigrations();
+  await seedDatabase(storage, { demo: process.env.NODE_ENV !== "production" });
+  await pool.end();
+})();
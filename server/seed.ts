@@ -0,0 +1,231 @@
+import type { IStorage } from "./storage";
+import type { InsertProperty } from "@shared/schema";
+import { hashPassword } from "./auth";
+import { withGeocodedAddress } from "./geocoder";
+import { initialListingState } from "./lifecycle";
+import { log } from "./vite";
+
+interface SeedOptions {
+  // Demo sellers, buyers, listings and chats for local development
+  demo?: boolean;
+}
+
+const demoSellers = [
+  {
+    username: "sarah.seller",
+    email: "sarah@example.com",
+    firstName: "Sarah",
+    lastName: "Mitchell",
+    phoneNumber: "555-201-3344",
+  },
+  {
+    username: "raj.homes",
+    email: "raj@example.com",
+    firstName: "Raj",
+    lastName: "Kumar",
+    phoneNumber: "555-876-1200",
+  },
+];
+
+const demoBuyers = [
+  {
+    username: "ben.buyer",
+    email: "ben@example.com",
+    firstName: "Ben",
+    lastName: "Carter",
+    phoneNumber: "555-430-9981",
+  },
+  {
+    username: "priya.p",
+    email: "priya@example.com",
+    firstName: "Priya",
+    lastName: "Patel",
+    phoneNumber: null,
+  },
+];
+
+// sellerIndex refers to demoSellers; images are the sample photos in uploads/
+const demoProperties: Array<Omit<InsertProperty, "sellerId" | "contactNumber"> & { sellerIndex: number }> = [
+  {
+    sellerIndex: 0,
+    title: "Modern Family Home with Garden",
+    address: "245 Palm Grove, Miami, FL 33101",
+    price: 685000,
+    propertyType: "house",
+    description: "Bright four-bedroom home with an open-plan kitchen, landscaped garden and a double garage on a quiet street.",
+    images: ["/uploads/1742666894366-612938224.jpeg", "/uploads/1742666894367-884032234.jpeg"],
+    bedrooms: 4,
+    bathrooms: 3,
+    squareFeet: 2600,
+    yearBuilt: 2015,
+    amenities: ["parking", "garage", "garden", "air_conditioning"],
+    latitude: 25.7743,
+    longitude: -80.1937,
+  },
+  {
+    sellerIndex: 0,
+    title: "Downtown Apartment with City Views",
+    address: "88 Biscayne Blvd, Miami, FL 33132",
+    price: 420000,
+    propertyType: "apartment",
+    description: "Two-bedroom apartment on the 18th floor with floor-to-ceiling windows, a gym and a rooftop pool in the building.",
+    images: ["/uploads/1742666899544-775911308.jpeg", "/uploads/1742666899544-917724321.jpeg"],
+    bedrooms: 2,
+    bathrooms: 2,
+    squareFeet: 1150,
+    yearBuilt: 2019,
+    amenities: ["parking", "pool", "lift", "gym", "balcony", "air_conditioning"],
+    latitude: 25.7867,
+    longitude: -80.1868,
+  },
+  {
+    sellerIndex: 0,
+    title: "Corner Residential Plot",
+    address: "12 Orchid Lane, Fort Lauderdale, FL 33301",
+    price: 150000,
+    propertyType: "plot",
+    description: "Cleared corner plot approved for residential construction, close to schools and the beach.",
+    images: ["/uploads/1742668313787-904169538.jpeg"],
+    bedrooms: null,
+    bathrooms: null,
+    squareFeet: 6000,
+    yearBuilt: null,
+    amenities: [],
+    latitude: 26.1224,
+    longitude: -80.1373,
+  },
+  {
+    sellerIndex: 1,
+    title: "Craftsman Bungalow Near the Park",
+    address: "1720 Elm Street, Austin, TX 78701",
+    price: 535000,
+    propertyType: "house",
+    description: "Renovated three-bedroom bungalow with original hardwood floors, a covered porch and a short walk to Zilker Park.",
+    images: ["/uploads/1742668313788-179248698.jpeg", "/uploads/1742668314020-168962226.jpeg"],
+    bedrooms: 3,
+    bathrooms: 2,
+    squareFeet: 1800,
+    yearBuilt: 1948,
+    amenities: ["garden", "parking", "pets_allowed"],
+    latitude: 30.2672,
+    longitude: -97.7431,
+  },
+  {
+    sellerIndex: 1,
+    title: "Studio Loft in the Arts District",
+    address: "501 Congress Ave, Austin, TX 78701",
+    price: 265000,
+    propertyType: "apartment",
+    description: "Industrial-style studio loft with exposed brick, high ceilings and secure parking in the heart of downtown.",
+    images: ["/uploads/1742668314020-576266835.jpeg"],
+    bedrooms: 1,
+    bathrooms: 1,
+    squareFeet: 720,
+    yearBuilt: 2008,
+    amenities: ["parking", "lift", "furnished"],
+    latitude: 30.2686,
+    longitude: -97.7425,
+  },
+  {
+    sellerIndex: 1,
+    title: "Ten Acres of Hill Country Land",
+    address: "Ranch Road 12, Dripping Springs, TX 78620",
+    price: 390000,
+    propertyType: "land",
+    description: "Rolling hill country acreage with mature oaks, road frontage and electricity available at the boundary.",
+    images: ["/uploads/1742702585766-10360677.jpeg"],
+    bedrooms: null,
+    bathrooms: null,
+    squareFeet: null,
+    yearBuilt: null,
+    amenities: [],
+    latitude: 30.1902,
+    longitude: -98.0867,
+  },
+];
+
+// buyerIndex/propertyIndex refer to demoBuyers/demoProperties; messages alternate buyer, seller
+const demoChats = [
+  {
+    buyerIndex: 0,
+    propertyIndex: 0,
+    messages: [
+      "Hi, is the garden south facing?",
+      "Yes, it gets sun most of the day. Would you like to arrange a viewing?",
+      "That would be great, is Saturday morning possible?",
+    ],
+  },
+  {
+    buyerIndex: 1,
+    propertyIndex: 3,
+    messages: [
+      "Hello! Has the roof been replaced during the renovation?",
+      "It was replaced in 2021, I can share the paperwork.",
+    ],
+  },
+];
+
+// Creates the admin account and, optionally, demo data. Safe to run repeatedly:
+// nothing is created if the admin user already exists.
+export async function seedDatabase(storage: IStorage, { demo = false }: SeedOptions = {}) {
+  if (await storage.getUserByUsername("admin")) {
+    log("admin user already exists, skipping seed", "seed");
+    return;
+  }
+
+  await storage.createUser({
+    username: "admin",
+    password: await hashPassword(process.env.ADMIN_PASSWORD || "admin123"),
+    email: "admin@estatetify.com",
+    firstName: "Admin",
+    lastName: "User",
+    role: "admin",
+    phoneNumber: "123-456-7890",
+  });
+  log("created admin user", "seed");
+
+  if (!demo) return;
+
+  const demoPassword = await hashPassword("password123");
+
+  const sellers = [];
+  for (const seller of demoSellers) {
+    sellers.push(await storage.createUser({ ...seller, password: demoPassword, role: "seller" }));
+  }
+
+  const buyers = [];
+  for (const buyer of demoBuyers) {
+    buyers.push(await storage.createUser({ ...buyer, password: demoPassword, role: "buyer" }));
+  }
+
+  const listings = [];
+  for (const { sellerIndex, ...property } of demoProperties) {
+    const seller = sellers[sellerIndex];
+    listings.push(await storage.createProperty(withGeocodedAddress({
+      ...property,
+      sellerId: seller.id,
+      contactNumber: seller.phoneNumber ?? "",
+      ...initialListingState("active"),
+    })));
+  }
+
+  for (const { buyerIndex, propertyIndex, messages } of demoChats) {
+    const buyer = buyers[buyerIndex];
+    const property = listings[propertyIndex];
+    const chat = await storage.createChat({
+      buyerId: buyer.id,
+      sellerId: property.sellerId,
+      propertyId: property.id,
+    });
+
+    for (let i = 0; i < messages.length; i++) {
+      await storage.createMessage({
+        chatId: chat.id,
+        senderId: i % 2 === 0 ? buyer.id : property.sellerId,
+        content: messages[i],
+      });
+    }
+  }
+
+  log(`created ${sellers.length + buyers.length} demo users, ${listings.length} listings and ${demoChats.length} chats (password "password123")`, "seed");
+}
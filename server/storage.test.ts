@@ -0,0 +1,556 @@
+import { after, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { SessionData } from "express-session";
+import { propertySortOptions, type InsertProperty, type InsertUser, type Property, type UserRole } from "@shared/schema";
+import { resetDatabase, startTestDatabase } from "./testing/postgres";
+import type { PageCursor } from "./cursor";
+import type { IStorage, PropertyFilters } from "./storage";
+
+// The contract both storages keep: every case runs against MemStorage and
+// against DatabaseStorage on a throwaway Postgres
+
+const database = await startTestDatabase();
+process.env.DATABASE_URL = database.url;
+// Imported once DATABASE_URL is set, which the database module reads on import
+const { pool } = await import("./db");
+const { runMigrations } = await import("./migrate");
+const { DatabaseStorage, MemStorage } = await import("./storage");
+
+const newUser = (username: string, role: UserRole = "buyer"): InsertUser => ({
+  username,
+  password: "not-a-real-hash",
+  email: `${username}@example.com`,
+  firstName: "Test",
+  lastName: username,
+  role,
+});
+
+const newListing = (sellerId: number, listing: Partial<InsertProperty> = {}): InsertProperty => ({
+  sellerId,
+  title: "Bright family house",
+  address: "12 Main Street",
+  price: 250000,
+  contactNumber: "555-0100",
+  propertyType: "house",
+  description: "Three bedrooms close to the park",
+  images: [],
+  ...listing,
+});
+
+const byId = (a: number, b: number) => a - b;
+
+function storageContract(name: string, createStorage: () => Promise<IStorage>) {
+  describe(name, () => {
+    let storage: IStorage;
+
+    beforeEach(async () => {
+      storage = await createStorage();
+    });
+
+    // A seller with a listing and a buyer with a chat about it
+    async function chatFixture() {
+      const seller = await storage.createUser(newUser("seller", "seller"));
+      const buyer = await storage.createUser(newUser("buyer"));
+      const listing = await storage.createProperty(newListing(seller.id));
+      const chat = await storage.createChat({ buyerId: buyer.id, sellerId: seller.id, propertyId: listing.id });
+      return { seller, buyer, listing, chat };
+    }
+
+    describe("users", () => {
+      test("finds users by id and username", async () => {
+        const user = await storage.createUser(newUser("ben"));
+
+        assert.equal(user.role, "buyer");
+        assert.equal(user.suspendedAt, null);
+        assert.equal(user.mustResetPassword, false);
+        assert.equal(user.hidePresence, false);
+        assert.deepEqual(await storage.getUser(user.id), user);
+        assert.deepEqual(await storage.getUserByUsername("ben"), user);
+        assert.equal(await storage.getUser(user.id + 1), undefined);
+        assert.equal(await storage.getUserByUsername("nobody"), undefined);
+      });
+
+      test("updates only the given fields", async () => {
+        const user = await storage.createUser(newUser("ben"));
+        const updated = await storage.updateUser(user.id, { firstName: "Benjamin", mustResetPassword: true });
+
+        assert.equal(updated.firstName, "Benjamin");
+        assert.equal(updated.mustResetPassword, true);
+        assert.equal(updated.lastName, user.lastName);
+        assert.deepEqual(await storage.getUser(user.id), updated);
+        await assert.rejects(storage.updateUser(user.id + 1, { firstName: "Nobody" }), /User not found/);
+      });
+
+      test("sets lastSeenAt for several users at once", async () => {
+        const ben = await storage.createUser(newUser("ben"));
+        const sarah = await storage.createUser(newUser("sarah"));
+        const raj = await storage.createUser(newUser("raj"));
+        const at = new Date("2030-01-01T12:00:00Z");
+
+        await storage.setLastSeen([ben.id, sarah.id], at);
+        await storage.setLastSeen([], at);
+
+        assert.deepEqual((await storage.getUser(ben.id))?.lastSeenAt, at);
+        assert.deepEqual((await storage.getUser(sarah.id))?.lastSeenAt, at);
+        assert.equal((await storage.getUser(raj.id))?.lastSeenAt, null);
+      });
+
+      test("deleting a user removes their listings and chats", async () => {
+        const { seller, buyer, listing, chat } = await chatFixture();
+        await storage.createMessage({ chatId: chat.id, senderId: buyer.id, content: "Is it available?" });
+
+        await storage.deleteUser(seller.id);
+
+        assert.equal(await storage.getUser(seller.id), undefined);
+        assert.equal(await storage.getPropertyById(listing.id), undefined);
+        assert.equal(await storage.getChatById(chat.id), undefined);
+        assert.deepEqual(await storage.getMessagesByChatId(chat.id), []);
+        assert.ok(await storage.getUser(buyer.id));
+      });
+    });
+
+    describe("properties", () => {
+      test("creates active listings with their first price and version", async () => {
+        const seller = await storage.createUser(newUser("seller", "seller"));
+        const listing = await storage.createProperty(newListing(seller.id, { bedrooms: 3 }));
+
+        assert.equal(listing.status, "active");
+        assert.equal(listing.bedrooms, 3);
+        assert.equal(listing.bathrooms, null);
+        assert.deepEqual(listing.amenities, []);
+        assert.deepEqual(await storage.getPropertyById(listing.id), listing);
+        assert.deepEqual((await storage.getPriceHistory(listing.id)).map(entry => entry.price), [250000]);
+        assert.deepEqual((await storage.getPropertyVersions(listing.id)).map(version => version.version), [1]);
+      });
+
+      test("records price changes and new versions on update", async () => {
+        const seller = await storage.createUser(newUser("seller", "seller"));
+        const listing = await storage.createProperty(newListing(seller.id));
+
+        const updated = await storage.updateProperty(listing.id, { price: 240000 });
+        await storage.updateProperty(listing.id, { price: 240000 });
+
+        assert.equal(updated.price, 240000);
+        assert.deepEqual((await storage.getPriceHistory(listing.id)).map(entry => entry.price), [250000, 240000]);
+        assert.deepEqual((await storage.getPropertyVersions(listing.id)).map(version => version.version), [1, 2]);
+      });
+
+      test("searches public listings by type and price", async () => {
+        const seller = await storage.createUser(newUser("seller", "seller"));
+        const cheap = await storage.createProperty(newListing(seller.id, { price: 100000 }));
+        const dear = await storage.createProperty(newListing(seller.id, { price: 900000 }));
+        await storage.createProperty(newListing(seller.id, { propertyType: "apartment", price: 150000 }));
+        await storage.createProperty(newListing(seller.id, { status: "draft", price: 120000 }));
+
+        const page = await storage.getProperties({ propertyType: "house", maxPrice: 500000 });
+        assert.equal(page.total, 1);
+        assert.deepEqual(page.properties.map(property => property.id), [cheap.id]);
+
+        const byPrice = await storage.getProperties({ propertyType: "house", sort: "price_desc" });
+        assert.deepEqual(byPrice.properties.map(property => property.id), [dear.id, cheap.id]);
+      });
+
+      test("lists a seller's listings whatever their status", async () => {
+        const seller = await storage.createUser(newUser("seller", "seller"));
+        const other = await storage.createUser(newUser("other", "seller"));
+        const active = await storage.createProperty(newListing(seller.id));
+        const draft = await storage.createProperty(newListing(seller.id, { status: "draft" }));
+        await storage.createProperty(newListing(other.id));
+
+        const ids = (await storage.getPropertiesBySellerId(seller.id)).map(property => property.id);
+        assert.deepEqual(ids.sort(byId), [active.id, draft.id]);
+      });
+
+      test("deleting a listing leaves its chats read-only", async () => {
+        const { buyer, listing, chat } = await chatFixture();
+
+        await storage.deleteProperty(listing.id);
+
+        assert.equal(await storage.getPropertyById(listing.id), undefined);
+        assert.equal((await storage.getChatById(chat.id))?.propertyId, null);
+        const [buyerChat] = await storage.getChatsByBuyerId(buyer.id);
+        assert.equal(buyerChat.property, null);
+      });
+    });
+
+    describe("search", () => {
+      const search = async (query: string, filters: PropertyFilters = {}) =>
+        (await storage.getProperties({ search: query, ...filters })).properties.map(property => property.id);
+
+      let cottage: Property;
+      let flat: Property;
+
+      beforeEach(async () => {
+        const seller = await storage.createUser(newUser("seller", "seller"));
+        cottage = await storage.createProperty(newListing(seller.id, {
+          title: "Stone cottage",
+          address: "4 Mill Lane",
+          description: "Renovated kitchen and a heated conservatory",
+        }));
+        flat = await storage.createProperty(newListing(seller.id, {
+          title: "Garden flat",
+          address: "90 Harbour Road",
+          description: "Walk to the parks and shops",
+        }));
+      });
+
+      test("matches stemmed words", async () => {
+        assert.deepEqual(await search("park"), [flat.id]);
+        assert.deepEqual(await search("gardens"), [flat.id]);
+        assert.deepEqual(await search("renovating"), [cottage.id]);
+      });
+
+      test("matches the start of words", async () => {
+        assert.deepEqual(await search("cott"), [cottage.id]);
+        assert.deepEqual(await search("harb"), [flat.id]);
+      });
+
+      test("requires every word to match", async () => {
+        assert.deepEqual(await search("stone kitchen"), [cottage.id]);
+        assert.deepEqual(await search("stone shops"), []);
+      });
+
+      test("tolerates typos in the title and address only", async () => {
+        assert.deepEqual(await search("cotage"), [cottage.id]);
+        assert.deepEqual(await search("harbor"), [flat.id]);
+        assert.deepEqual(await search("consrvatory"), []);
+      });
+
+      test("sorts by relevance, title matches first", async () => {
+        const seller = await storage.createUser(newUser("other", "seller"));
+        const mentioned = await storage.createProperty(newListing(seller.id, {
+          title: "Family home",
+          description: "Views over the stone walls of the old mill",
+        }));
+
+        assert.deepEqual(await search("stone", { sort: "relevance" }), [cottage.id, mentioned.id]);
+        const { properties } = await storage.getProperties({ search: "stone", sort: "relevance" });
+        assert.ok(properties.every(property => property.relevance! > 0));
+      });
+    });
+
+    describe("range and amenity filters", () => {
+      let small: number;
+      let large: number;
+      let unknown: number;
+
+      beforeEach(async () => {
+        const seller = await storage.createUser(newUser("seller", "seller"));
+        const create = async (listing: Partial<InsertProperty>) =>
+          (await storage.createProperty(newListing(seller.id, listing))).id;
+
+        small = await create({
+          bedrooms: 2, bathrooms: 1, squareFeet: 900, yearBuilt: 1990, amenities: ["parking", "garden"],
+        });
+        large = await create({
+          bedrooms: 4, bathrooms: 3, squareFeet: 2400, yearBuilt: 2015, amenities: ["parking", "pool", "garden"],
+        });
+        // Nothing known about the rooms, size or age
+        unknown = await create({ amenities: ["pool"] });
+      });
+
+      const found = async (filters: PropertyFilters) =>
+        (await storage.getProperties(filters)).properties.map(property => property.id).sort(byId);
+
+      test("includes listings on either bound", async () => {
+        assert.deepEqual(await found({ minBedrooms: 2, maxBedrooms: 2 }), [small]);
+        assert.deepEqual(await found({ minBathrooms: 1, maxBathrooms: 3 }), [small, large]);
+        assert.deepEqual(await found({ minSquareFeet: 900, maxSquareFeet: 2400 }), [small, large]);
+        assert.deepEqual(await found({ minSquareFeet: 901 }), [large]);
+        assert.deepEqual(await found({ maxYearBuilt: 2014 }), [small]);
+        assert.deepEqual(await found({ minYearBuilt: 2015 }), [large]);
+      });
+
+      test("leaves out listings without the value once a bound is set", async () => {
+        assert.deepEqual(await found({}), [small, large, unknown]);
+        assert.deepEqual(await found({ minBedrooms: 0 }), [small, large]);
+        assert.deepEqual(await found({ maxYearBuilt: 3000 }), [small, large]);
+      });
+
+      test("combines ranges with each other and with amenities", async () => {
+        assert.deepEqual(await found({ minBedrooms: 2, maxSquareFeet: 1000 }), [small]);
+        assert.deepEqual(await found({ minBedrooms: 3, amenities: ["parking"] }), [large]);
+        assert.deepEqual(await found({ maxBedrooms: 3, amenities: ["pool"] }), []);
+      });
+
+      test("requires every amenity asked for", async () => {
+        assert.deepEqual(await found({ amenities: ["pool"] }), [large, unknown]);
+        assert.deepEqual(await found({ amenities: ["parking", "garden"] }), [small, large]);
+        assert.deepEqual(await found({ amenities: ["pool", "garden", "parking"] }), [large]);
+        assert.deepEqual(await found({ amenities: ["pool", "gym"] }), []);
+        assert.deepEqual(await found({ amenities: [] }), [small, large, unknown]);
+      });
+    });
+
+    describe("location", () => {
+      let sellerId: number;
+
+      beforeEach(async () => {
+        sellerId = (await storage.createUser(newUser("seller", "seller"))).id;
+      });
+
+      const at = async (latitude: number | null, longitude: number | null) =>
+        (await storage.createProperty(newListing(sellerId, { latitude, longitude }))).id;
+      const found = async (filters: PropertyFilters) =>
+        (await storage.getProperties(filters)).properties.map(property => property.id).sort(byId);
+
+      test("includes listings up to the radius and no further", async () => {
+        const near = { lat: 51.5, lng: -0.12 };
+        const inside = await at(51.544966, -0.12);
+        await at(51.54497, -0.12);
+        const centre = await at(51.5, -0.12);
+        await at(null, null);
+
+        // 4.99999 km and 5.0004 km north
+        assert.deepEqual(await found({ near, radiusKm: 5 }), [inside, centre]);
+      });
+
+      test("reaches the widest point of the radius in longitude", async () => {
+        const near = { lat: 60, lng: 10 };
+        // 99.99 km away, further east than 100 km along the centre's latitude
+        const east = await at(60.0122, 11.79875);
+        await at(60.0122, 11.8);
+
+        assert.deepEqual(await found({ near, radiusKm: 100 }), [east]);
+      });
+
+      test("sorts by distance with the distance rounded to 10 m, unlocated listings last", async () => {
+        const near = { lat: 51.5, lng: -0.12 };
+        const far = await at(51.6, -0.12);
+        const close = await at(51.51, -0.12);
+        const unlocated = await at(null, null);
+
+        const { properties } = await storage.getProperties({ near, sort: "distance" });
+        assert.deepEqual(properties.map(property => property.id), [close, far, unlocated]);
+        assert.deepEqual(properties.map(property => property.distance), [1.11, 11.12, null]);
+      });
+
+      test("searches a bounding box, including one across the antimeridian", async () => {
+        const west = await at(-17, 178);
+        const east = await at(-17, -179);
+        const further = await at(-17, 170);
+        await at(-30, 179);
+        await at(null, null);
+
+        assert.deepEqual(await found({ bbox: { minLat: -20, minLng: 175, maxLat: -15, maxLng: -175 } }), [west, east]);
+        assert.deepEqual(await found({ bbox: { minLat: -20, minLng: 170, maxLat: -15, maxLng: 178 } }), [west, further]);
+      });
+    });
+
+    describe("pagination", () => {
+      const near = { lat: 51.5, lng: -0.12 };
+      let ids: number[];
+
+      // Prices and prices per square foot with ties, listings without a size
+      // (none, or 0) and without a location, all matching "house"
+      beforeEach(async () => {
+        const seller = await storage.createUser(newUser("seller", "seller"));
+        const listings: Partial<InsertProperty>[] = [
+          { price: 300000, squareFeet: 1500, latitude: 51.5, longitude: -0.12, title: "House by the river" },
+          { price: 200000, squareFeet: null, latitude: 51.51, longitude: -0.12, title: "House with a garden" },
+          { price: 300000, squareFeet: 1000, title: "Small house" },
+          { price: 200000, squareFeet: 1000, latitude: 51.6, longitude: -0.1, title: "House" },
+          { price: 150000, squareFeet: 0, latitude: 51.5, longitude: -0.12, title: "Town house" },
+          { price: 250000, squareFeet: 2500, latitude: 52.2, longitude: 0.12, title: "House in the country" },
+        ];
+        ids = [];
+        for (const listing of listings) {
+          ids.push((await storage.createProperty(newListing(seller.id, listing))).id);
+        }
+      });
+
+      // Every page in turn, following nextCursor
+      async function walk(filters: PropertyFilters, limit: number) {
+        const seen: number[] = [];
+        let cursor: PageCursor | undefined;
+        for (let pages = 0; pages < 20; pages++) {
+          const page = await storage.getProperties({ ...filters, limit, cursor });
+          seen.push(...page.properties.map(property => property.id));
+          if (!page.nextCursor) return seen;
+          assert.equal(page.properties.length, limit);
+          assert.equal(page.nextCursor.sort, filters.sort ?? "newest");
+          cursor = page.nextCursor;
+        }
+        throw new Error("pagination never ended");
+      }
+
+      const orderOf = async (filters: PropertyFilters) =>
+        (await storage.getProperties(filters)).properties.map(property => property.id);
+
+      test("breaks ties on id and puts listings without a value last", async () => {
+        const [river, garden, small, plain, town, country] = ids;
+
+        assert.deepEqual(await orderOf({ sort: "price_asc" }), [town, garden, plain, country, river, small]);
+        assert.deepEqual(await orderOf({ sort: "price_desc" }), [small, river, country, plain, garden, town]);
+        assert.deepEqual(await orderOf({ sort: "price_per_sqft" }), [country, river, plain, small, garden, town]);
+        assert.deepEqual(await orderOf({ sort: "distance", near }), [river, town, garden, plain, country, small]);
+      });
+
+      for (const sort of propertySortOptions) {
+        const filters: PropertyFilters = {
+          sort,
+          ...(sort === "relevance" && { search: "house" }),
+          ...(sort === "distance" && { near }),
+        };
+
+        test(`walks every page sorted by ${sort} without gaps or repeats`, async () => {
+          const all = await orderOf(filters);
+          assert.equal(all.length, ids.length);
+
+          for (const limit of [1, 2, 4]) {
+            assert.deepEqual(await walk(filters, limit), all, `${limit} per page`);
+          }
+        });
+      }
+
+      test("pages by number as well", async () => {
+        const all = await orderOf({ sort: "price_asc" });
+        const second = await storage.getProperties({ sort: "price_asc", page: 2, limit: 4 });
+
+        assert.equal(second.total, ids.length);
+        assert.deepEqual(second.properties.map(property => property.id), all.slice(4));
+        assert.equal(second.nextCursor, null);
+      });
+    });
+
+    describe("chats", () => {
+      test("starts chats with nothing read", async () => {
+        const { seller, buyer, listing, chat } = await chatFixture();
+
+        assert.equal(chat.buyerLastReadId, 0);
+        assert.equal(chat.sellerLastReadId, 0);
+        assert.deepEqual(await storage.findChat(buyer.id, seller.id, listing.id), chat);
+        assert.equal(await storage.findChat(seller.id, buyer.id, listing.id), undefined);
+      });
+
+      test("lists chats with the listing and the other participant", async () => {
+        const { seller, buyer, listing, chat } = await chatFixture();
+
+        const [buyerChat] = await storage.getChatsByBuyerId(buyer.id);
+        assert.equal(buyerChat.id, chat.id);
+        assert.equal(buyerChat.property?.id, listing.id);
+        assert.equal(buyerChat.seller.id, seller.id);
+
+        const [sellerChat] = await storage.getChatsBySellerId(seller.id);
+        assert.equal(sellerChat.id, chat.id);
+        assert.equal(sellerChat.buyer.id, buyer.id);
+        assert.deepEqual(await storage.getChatsByBuyerId(seller.id), []);
+      });
+
+      test("finds everyone a user has a chat with", async () => {
+        const { seller, buyer } = await chatFixture();
+        const other = await storage.createUser(newUser("other", "seller"));
+        const listing = await storage.createProperty(newListing(other.id));
+        await storage.createChat({ buyerId: buyer.id, sellerId: other.id, propertyId: listing.id });
+
+        assert.deepEqual((await storage.getChatPartnerIds(buyer.id)).sort(byId), [seller.id, other.id].sort(byId));
+        assert.deepEqual(await storage.getChatPartnerIds(seller.id), [buyer.id]);
+      });
+
+      test("read marks only move forward and set unread counts", async () => {
+        const { seller, buyer, chat } = await chatFixture();
+        const first = await storage.createMessage({ chatId: chat.id, senderId: seller.id, content: "Hello" });
+        const second = await storage.createMessage({ chatId: chat.id, senderId: seller.id, content: "Still there?" });
+        await storage.createMessage({ chatId: chat.id, senderId: buyer.id, content: "Yes" });
+
+        assert.deepEqual(await storage.getUnreadCounts(buyer.id), { [chat.id]: 2 });
+        assert.deepEqual(await storage.getUnreadCounts(seller.id), { [chat.id]: 1 });
+
+        const read = await storage.markChatRead(chat.id, buyer.id, second.id);
+        const unmoved = await storage.markChatRead(chat.id, buyer.id, first.id);
+
+        assert.equal(read.buyerLastReadId, second.id);
+        assert.equal(read.sellerLastReadId, 0);
+        assert.equal(unmoved.buyerLastReadId, second.id);
+        assert.deepEqual(await storage.getUnreadCounts(buyer.id), {});
+        await assert.rejects(storage.markChatRead(chat.id + 1, buyer.id, first.id), /Chat not found/);
+      });
+
+      test("transfers a seller's chats and their messages to another seller", async () => {
+        const { seller, buyer, listing, chat } = await chatFixture();
+        const agent = await storage.createUser(newUser("agent", "agent"));
+        const own = await storage.createChat({ buyerId: agent.id, sellerId: seller.id, propertyId: listing.id });
+        await storage.createMessage({ chatId: chat.id, senderId: buyer.id, content: "Is it available?" });
+        await storage.createMessage({ chatId: chat.id, senderId: seller.id, content: "It is" });
+
+        await storage.transferChats(seller.id, agent.id);
+        await storage.deleteUser(seller.id);
+
+        assert.equal((await storage.getChatById(chat.id))?.sellerId, agent.id);
+        assert.deepEqual(
+          (await storage.getMessagesByChatId(chat.id)).map(message => message.senderId),
+          [buyer.id, agent.id],
+        );
+        // The new seller can't take over a chat with themselves
+        assert.equal(await storage.getChatById(own.id), undefined);
+      });
+    });
+
+    describe("messages", () => {
+      test("lists a chat's messages oldest first", async () => {
+        const { seller, buyer, chat } = await chatFixture();
+        const question = await storage.createMessage({ chatId: chat.id, senderId: buyer.id, content: "Is it available?" });
+        const answer = await storage.createMessage({ chatId: chat.id, senderId: seller.id, content: "It is" });
+
+        assert.ok(answer.id > question.id);
+        assert.deepEqual(await storage.getMessagesByChatId(chat.id), [question, answer]);
+        assert.deepEqual(await storage.getMessageById(answer.id), answer);
+        assert.equal(await storage.getMessageById(answer.id + 1), undefined);
+      });
+
+      test("catches a user up on messages after an id", async () => {
+        const { seller, buyer, chat } = await chatFixture();
+        const outsider = await storage.createUser(newUser("outsider"));
+        assert.equal(await storage.getLatestMessageIdForUser(buyer.id), 0);
+
+        const sent = [];
+        for (const content of ["one", "two", "three", "four"]) {
+          sent.push(await storage.createMessage({ chatId: chat.id, senderId: seller.id, content }));
+        }
+
+        const since = await storage.getMessagesForUserSince(buyer.id, sent[0].id, 2);
+        assert.deepEqual(since.map(message => message.content), ["two", "three"]);
+        assert.equal(await storage.getLatestMessageIdForUser(buyer.id), sent[3].id);
+        assert.deepEqual(await storage.getMessagesForUserSince(outsider.id, 0, 10), []);
+        assert.equal(await storage.getLatestMessageIdForUser(outsider.id), 0);
+      });
+    });
+
+    describe("sessions", () => {
+      test("stores, loads and destroys sessions", async () => {
+        const { sessionStore } = storage;
+        // With what passport keeps alongside express-session's own fields
+        const sessionData: SessionData & { passport: { user: number } } = {
+          cookie: { originalMaxAge: 60000, expires: new Date(Date.now() + 60000) },
+          passport: { user: 1 },
+        };
+        const call = <T>(run: (done: (error?: unknown, result?: T | null) => void) => void) =>
+          new Promise<T | null | undefined>((resolve, reject) => run((error, result) => (error ? reject(error) : resolve(result))));
+
+        await call(done => sessionStore.set("contract-session", sessionData, done));
+        const loaded = await call<SessionData>(done => sessionStore.get("contract-session", done));
+        assert.equal(loaded?.cookie.originalMaxAge, 60000);
+        assert.deepEqual(loaded && "passport" in loaded ? loaded.passport : undefined, { user: 1 });
+
+        await call(done => sessionStore.destroy("contract-session", done));
+        assert.equal(await call<SessionData>(done => sessionStore.get("contract-session", done)) ?? null, null);
+      });
+    });
+  });
+}
+
+before(async () => {
+  await runMigrations();
+});
+
+after(async () => {
+  await pool.end();
+  await database.stop();
+});
+
+storageContract("MemStorage", async () => new MemStorage());
+
+storageContract("DatabaseStorage", async () => {
+  await resetDatabase(pool);
+  return new DatabaseStorage();
+});
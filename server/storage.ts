@@ -1,55 +1,350 @@
-import { users, properties, chats, messages } from "@shared/schema";
+import { users, properties, chats, messages, savedSearches, notifications, favourites, moderationDecisions, impersonationSessions, auditLog, propertyViews, propertyPriceHistory, propertyStatusHistory, propertyVersions, propertySearchDocument, propertyFuzzyText, publicListingStatuses } from "@shared/schema";
 import type { 
   InsertUser, User, 
-  InsertProperty, Property, 
+  InsertProperty, Property, PropertySearchResult, PropertySort, Amenity,
   InsertChat, Chat,
-  InsertMessage, Message 
+  InsertMessage, Message,
+  InsertSavedSearch, SavedSearch,
+  InsertNotification, Notification,
+  Favourite, FavouriteWithProperty, PriceHistoryEntry, StatusHistoryEntry, PropertyVersion, ListingStatus,
+  InsertModerationDecision, ModerationDecision, ModerationLogEntry,
+  InsertImpersonationSession, ImpersonationSession, ImpersonationLogEntry,
+  InsertAuditLogEntry, AuditLogEntry, AuditAction,
+  AdminAnalytics, DailyActivity
 } from "@shared/schema";
+import { diffSnapshots, toSnapshot } from "./versions";
+import { randomBytes } from "crypto";
 import session from "express-session";
 import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import { and, arrayContains, desc, eq, gt, gte, ilike, inArray, isNull, lt, lte, ne, or, count, sql, getTableColumns, isNotNull, type SQL } from "drizzle-orm";
+import { alias, type PgColumn, type PgTable } from "drizzle-orm/pg-core";
+import { db, pool } from "./db";
+import type { PageCursor } from "./cursor";
+import { fieldWeights, parseQuery, scoreDocument, toTsQuery } from "./search";
+import { boundingBoxAround, distanceKm, greatCircleKm, inBoundingBox, EARTH_RADIUS_KM, type BoundingBox, type LatLng } from "./geo";
 
 const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
 
-// Filter options for property search
-interface PropertyFilters {
+// Filter options for property search, which only ever finds listings in
+// publicListingStatuses
+export interface PropertyFilters {
+  // Only consider this listing, to check whether it matches a saved search
+  propertyId?: number;
   propertyType?: string;
   minPrice?: number;
   maxPrice?: number;
   location?: string;
+  // Bounds on the optional numeric fields; listings without a value don't
+  // match once a bound is set
+  minBedrooms?: number;
+  maxBedrooms?: number;
+  minBathrooms?: number;
+  maxBathrooms?: number;
+  minSquareFeet?: number;
+  maxSquareFeet?: number;
+  minYearBuilt?: number;
+  maxYearBuilt?: number;
+  // Listings must have every one of these
+  amenities?: Amenity[];
   search?: string;
+  // Distances are reported from near; radiusKm limits results around it
+  near?: LatLng;
+  radiusKm?: number;
+  bbox?: BoundingBox;
+  // Defaults to newest first; relevance only applies to text searches
+  // and distance to searches around a point
+  sort?: PropertySort;
+  // Either a page number or a cursor from a previous page, which stays
+  // stable when listings are added
   page?: number;
+  cursor?: PageCursor;
   limit?: number;
 }
 
+// A span of time for analytics: from is included, to isn't
+export interface DateRange {
+  from: Date;
+  to: Date;
+}
+
+type PropertyView = typeof propertyViews.$inferSelect;
+type ActivityCounts = Omit<DailyActivity, "date">;
+
+const inRange = (date: Date, range: DateRange) => date >= range.from && date < range.to;
+
+// Interpolated like Postgres' percentile_cont(0.5); null for no values
+function median(values: number[]): number | null {
+  if (!values.length) return null;
+  const sorted = values.slice().sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// "Austin, TX", or just the city when there's no state
+const areaLabel = (city: string, state: string | null) => (state ? `${city}, ${state}` : city);
+
+// Filter options for the audit log, which is read newest first
+export interface AuditLogFilters {
+  actorId?: number;
+  action?: AuditAction;
+  from?: Date;
+  to?: Date;
+  // Entries older than this id, for the next page
+  beforeId?: number;
+  limit?: number;
+}
+
+export interface PropertyPage {
+  properties: PropertySearchResult[];
+  // Every match, regardless of the page
+  total: number;
+  // Null on the last page
+  nextCursor: PageCursor | null;
+}
+
+// The numeric listing fields with min/max filters, and their filter keys
+const rangeFilters = [
+  { field: "bedrooms", min: "minBedrooms", max: "maxBedrooms" },
+  { field: "bathrooms", min: "minBathrooms", max: "maxBathrooms" },
+  { field: "squareFeet", min: "minSquareFeet", max: "maxSquareFeet" },
+  { field: "yearBuilt", min: "minYearBuilt", max: "maxYearBuilt" },
+] as const;
+
+// Which way each sort runs. Ties are broken by id in the same direction and
+// listings without a value to sort on come last either way.
+const sortDirections: Record<PropertySort, "asc" | "desc"> = {
+  newest: "desc",
+  price_asc: "asc",
+  price_desc: "desc",
+  price_per_sqft: "asc",
+  relevance: "desc",
+  distance: "asc",
+};
+
+// Relevance needs a text search and distance a point; without them results
+// are newest first
+function resolveSort(filters: PropertyFilters, hasRelevance: boolean): PropertySort {
+  const sort = filters.sort ?? "newest";
+  if (sort === "relevance" && !hasRelevance) return "newest";
+  if (sort === "distance" && !filters.near) return "newest";
+  return sort;
+}
+
+interface SortPosition {
+  key: number | null;
+  id: number;
+}
+
+function compareSortPositions(a: SortPosition, b: SortPosition, direction: "asc" | "desc"): number {
+  if (a.key !== b.key) {
+    if (a.key === null) return 1;
+    if (b.key === null) return -1;
+    return direction === "asc" ? a.key - b.key : b.key - a.key;
+  }
+  return direction === "asc" ? a.id - b.id : b.id - a.id;
+}
+
+// Account state only admins change, and settings, so aren't in InsertUser
+type UserUpdate = Partial<InsertUser> & Partial<Pick<User, "suspendedAt" | "suspensionReason" | "mustResetPassword" | "hidePresence">>;
+
+// The moderation note is only ever set by moderators, so isn't in InsertProperty
+type PropertyUpdate = Partial<InsertProperty> & { moderationNote?: string | null };
+
+type SavedSearchUpdate = Partial<Omit<InsertSavedSearch, "userId">> & { lastEmailedAt?: Date };
+
+// Unguessable token for unsubscribe links
+const newUnsubscribeToken = () => randomBytes(24).toString("hex");
+
 export interface IStorage {
   // User methods
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  updateUser(id: number, data: UserUpdate): Promise<User>;
+  // Removes the account and everything it owns, listings included
+  deleteUser(id: number): Promise<void>;
   getAllUsers(): Promise<User[]>;
+  // Moves lastSeenAt for all of these users at once; the chat socket does it
+  // on every heartbeat
+  setLastSeen(userIds: number[], at: Date): Promise<void>;
 
   // Property methods
-  getProperties(filters: PropertyFilters): Promise<{ properties: Property[], total: number }>;
+  getProperties(filters: PropertyFilters): Promise<PropertyPage>;
   getPropertyById(id: number): Promise<Property | undefined>;
   getPropertiesBySellerId(sellerId: number): Promise<Property[]>;
-  createProperty(property: InsertProperty): Promise<Property>;
-  updateProperty(id: number, property: Partial<InsertProperty>): Promise<Property>;
+  // changedBy is recorded on the listing's versions; it defaults to the seller on create
+  createProperty(property: InsertProperty, changedBy?: number): Promise<Property>;
+  // Records a new version when any listing field actually changes, and the
+  // transition when the status does
+  updateProperty(id: number, property: PropertyUpdate, changedBy?: number): Promise<Property>;
   deleteProperty(id: number): Promise<void>;
   getAllProperties(): Promise<Property[]>;
+  // Longest in that status first
+  getPropertiesByStatus(status: ListingStatus): Promise<Property[]>;
+  // Active listings whose expiresAt has passed
+  getListingsToExpire(now: Date): Promise<Property[]>;
+  // Oldest first; an entry is added on create and on every price change
+  getPriceHistory(propertyId: number): Promise<PriceHistoryEntry[]>;
+  // Oldest first; an entry is added on create and on every status change
+  getStatusHistory(propertyId: number): Promise<StatusHistoryEntry[]>;
+  // Oldest first, starting with version 1 from when the listing was created
+  getPropertyVersions(propertyId: number): Promise<PropertyVersion[]>;
+  getPropertyVersion(propertyId: number, version: number): Promise<PropertyVersion | undefined>;
+
+  // Moderation methods
+  createModerationDecision(decision: InsertModerationDecision): Promise<ModerationDecision>;
+  // Newest first, for one listing or all of them
+  getModerationDecisions(propertyId?: number, limit?: number): Promise<ModerationLogEntry[]>;
+
+  // Impersonation methods
+  createImpersonationSession(session: InsertImpersonationSession): Promise<ImpersonationSession>;
+  endImpersonationSession(id: number): Promise<void>;
+  // Newest first
+  getImpersonationSessions(limit?: number): Promise<ImpersonationLogEntry[]>;
+
+  // Audit log methods; entries are never changed or removed
+  createAuditLogEntry(entry: InsertAuditLogEntry): Promise<AuditLogEntry>;
+  getAuditLog(filters: AuditLogFilters): Promise<AuditLogEntry[]>;
+
+  // Analytics methods. Days are UTC; listing figures cover listings created in the range.
+  recordPropertyView(propertyId: number, userId: number | null): Promise<void>;
+  // Only days with some activity, oldest first
+  getDailyActivity(range: DateRange): Promise<DailyActivity[]>;
+  // Most common first
+  getListingBreakdown(range: DateRange): Promise<Pick<AdminAnalytics, "listingsByType" | "listingsByStatus">>;
+  // Areas with the most listings first
+  getMedianPricesByArea(range: DateRange, limit: number): Promise<AdminAnalytics["medianPriceByArea"]>;
+  getResponseTimes(range: DateRange): Promise<AdminAnalytics["responseTimes"]>;
+  getViewConversion(range: DateRange): Promise<AdminAnalytics["conversion"]>;
+
+  // Favourite methods
+  // Newest first
+  getFavouritesByUserId(userId: number): Promise<FavouriteWithProperty[]>;
+  // Users watching a listing
+  getFavouriteUserIds(propertyId: number): Promise<number[]>;
+  // Saving a listing again keeps the original favourite and its saved price
+  addFavourite(userId: number, propertyId: number): Promise<Favourite>;
+  removeFavourite(userId: number, propertyId: number): Promise<void>;
 
   // Chat methods
   getChatById(id: number): Promise<Chat | undefined>;
-  getChatsByBuyerId(buyerId: number): Promise<(Chat & { property: Property, seller: User })[]>;
-  getChatsBySellerId(sellerId: number): Promise<(Chat & { property: Property, buyer: User })[]>;
+  // property is null once the listing has been deleted; such chats are read-only
+  getChatsByBuyerId(buyerId: number): Promise<(Chat & { property: Property | null, seller: User })[]>;
+  getChatsBySellerId(sellerId: number): Promise<(Chat & { property: Property | null, buyer: User })[]>;
   findChat(buyerId: number, sellerId: number, propertyId: number): Promise<Chat | undefined>;
   createChat(chat: InsertChat): Promise<Chat>;
+  // Moves the participant's read mark up to messageId; it never moves back
+  markChatRead(chatId: number, userId: number, messageId: number): Promise<Chat>;
+  // Messages from the other participant after the user's read mark, by chat id
+  getUnreadCounts(userId: number): Promise<Record<number, number>>;
+  // Everyone the user has a chat with, either side
+  getChatPartnerIds(userId: number): Promise<number[]>;
+  // Hands the seller's chats, with the messages they sent in them, to
+  // another seller. Any where the new seller is the buyer are left behind.
+  transferChats(fromSellerId: number, toSellerId: number): Promise<void>;
 
   // Message methods
+  getMessageById(id: number): Promise<Message | undefined>;
   getMessagesByChatId(chatId: number): Promise<Message[]>;
   createMessage(message: InsertMessage): Promise<Message>;
+  // Messages in any of the user's chats after afterId, oldest first; how a
+  // reconnecting chat socket catches up
+  getMessagesForUserSince(userId: number, afterId: number, limit: number): Promise<Message[]>;
+  // The newest message id across the user's chats, 0 when there are none
+  getLatestMessageIdForUser(userId: number): Promise<number>;
+
+  // Saved search methods
+  getSavedSearchById(id: number): Promise<SavedSearch | undefined>;
+  getSavedSearchesByUserId(userId: number): Promise<SavedSearch[]>;
+  getAllSavedSearches(): Promise<SavedSearch[]>;
+  getSavedSearchByUnsubscribeToken(token: string): Promise<SavedSearch | undefined>;
+  createSavedSearch(savedSearch: InsertSavedSearch): Promise<SavedSearch>;
+  updateSavedSearch(id: number, savedSearch: SavedSearchUpdate): Promise<SavedSearch>;
+  deleteSavedSearch(id: number): Promise<void>;
+
+  // Notification methods
+  // Newest first
+  getNotificationsByUserId(userId: number, limit?: number): Promise<Notification[]>;
+  createNotification(notification: InsertNotification): Promise<Notification>;
+  // Marks the given notifications, or all of the user's, as read
+  markNotificationsRead(userId: number, ids?: number[]): Promise<void>;
+  hasSavedSearchNotification(savedSearchId: number, propertyId: number): Promise<boolean>;
+  // Saved search matches not yet sent by email, oldest first
+  getUnemailedNotifications(savedSearchId: number): Promise<Notification[]>;
+  markNotificationsEmailed(ids: number[]): Promise<void>;
 
   // Session store
-  sessionStore: session.SessionStore;
+  sessionStore: session.Store;
+}
+
+// The value MemStorage sorts a listing on, null when it has none
+function memSortKey(sort: PropertySort, p: PropertySearchResult): number | null {
+  switch (sort) {
+    case "newest":
+      return new Date(p.createdAt).getTime();
+    case "price_asc":
+    case "price_desc":
+      return p.price;
+    case "price_per_sqft":
+      return p.squareFeet ? p.price / p.squareFeet : null;
+    case "relevance":
+      return p.relevance ?? 0;
+    case "distance":
+      return p.distance ?? null;
+  }
+}
+
+const relevanceOf = (p: Property, terms: string[]) =>
+  scoreDocument(terms, [
+    { text: p.title, weight: fieldWeights.title, typos: true },
+    { text: p.address, weight: fieldWeights.address, typos: true },
+    { text: p.description, weight: fieldWeights.description, typos: false },
+  ]);
+
+// Whether getProperties would find the listing with these filters, checked
+// in memory; how MemStorage searches, and how saved search alerts match a
+// changed listing without a query per search. terms are the parsed search.
+export function matchesPropertyFilters(
+  p: Property,
+  filters: PropertyFilters,
+  terms = filters.search ? parseQuery(filters.search) : [],
+): boolean {
+  if (!publicListingStatuses.includes(p.status)) return false;
+  if (filters.propertyId !== undefined && p.id !== filters.propertyId) return false;
+  if (filters.propertyType && p.propertyType !== filters.propertyType) return false;
+  if (filters.minPrice !== undefined && p.price < filters.minPrice) return false;
+  if (filters.maxPrice !== undefined && p.price > filters.maxPrice) return false;
+
+  for (const { field, min, max } of rangeFilters) {
+    const value = p[field];
+    const lower = filters[min];
+    const upper = filters[max];
+    if (lower !== undefined && (value === null || value < lower)) return false;
+    if (upper !== undefined && (value === null || value > upper)) return false;
+  }
+
+  if (filters.amenities?.length && !filters.amenities.every(amenity => p.amenities.includes(amenity))) {
+    return false;
+  }
+
+  if (filters.location) {
+    // Matches part of the address, or a normalised city, state or postcode
+    const location = filters.location.toLowerCase();
+    const inLocation = p.address.toLowerCase().includes(location) ||
+      [p.city, p.state, p.postcode].some(part => part?.toLowerCase() === location);
+    if (!inLocation) return false;
+  }
+
+  if (terms.length && relevanceOf(p, terms) <= 0) return false;
+
+  const point = p.latitude !== null && p.longitude !== null ? { lat: p.latitude, lng: p.longitude } : null;
+  if (filters.bbox && !(point && inBoundingBox(point, filters.bbox))) return false;
+  if (filters.near && filters.radiusKm !== undefined) {
+    if (!point || greatCircleKm(filters.near, point) > filters.radiusKm) return false;
+  }
+  return true;
 }
 
 export class MemStorage implements IStorage {
@@ -57,17 +352,47 @@ export class MemStorage implements IStorage {
   private propertiesData: Map<number, Property>;
   private chatsData: Map<number, Chat>;
   private messagesData: Map<number, Message>;
-  sessionStore: session.SessionStore;
+  private savedSearchesData: Map<number, SavedSearch>;
+  private notificationsData: Map<number, Notification>;
+  private favouritesData: Map<number, Favourite>;
+  private priceHistoryData: Map<number, PriceHistoryEntry>;
+  private statusHistoryData: Map<number, StatusHistoryEntry>;
+  private moderationDecisionsData: Map<number, ModerationDecision>;
+  private propertyVersionsData: Map<number, PropertyVersion>;
+  private impersonationSessionsData: Map<number, ImpersonationSession>;
+  private auditLogData: Map<number, AuditLogEntry>;
+  private propertyViewsData: Map<number, PropertyView>;
+  sessionStore: session.Store;
   private userIdCounter: number;
   private propertyIdCounter: number;
   private chatIdCounter: number;
   private messageIdCounter: number;
+  private savedSearchIdCounter: number;
+  private notificationIdCounter: number;
+  private favouriteIdCounter: number;
+  private priceHistoryIdCounter: number;
+  private statusHistoryIdCounter: number;
+  private moderationDecisionIdCounter: number;
+  private propertyVersionIdCounter: number;
+  private impersonationSessionIdCounter: number;
+  private auditLogIdCounter: number;
+  private propertyViewIdCounter: number;
 
   constructor() {
     this.usersData = new Map();
     this.propertiesData = new Map();
     this.chatsData = new Map();
     this.messagesData = new Map();
+    this.savedSearchesData = new Map();
+    this.notificationsData = new Map();
+    this.favouritesData = new Map();
+    this.priceHistoryData = new Map();
+    this.statusHistoryData = new Map();
+    this.moderationDecisionsData = new Map();
+    this.propertyVersionsData = new Map();
+    this.impersonationSessionsData = new Map();
+    this.auditLogData = new Map();
+    this.propertyViewsData = new Map();
     this.sessionStore = new MemoryStore({
       checkPeriod: 86400000 // prune expired entries every 24h
     });
@@ -75,17 +400,16 @@ export class MemStorage implements IStorage {
     this.propertyIdCounter = 1;
     this.chatIdCounter = 1;
     this.messageIdCounter = 1;
-
-    // Create admin user
-    this.createUser({
-      username: "admin",
-      password: "$2b$10$Y4vVfseJ2yY6gbF956qyAeXD.9Bj1l2LYv6JBNJkjiBxs/P3YiwIW", // hashed "admin123"
-      email: "admin@estatetify.com",
-      firstName: "Admin",
-      lastName: "User",
-      role: "admin",
-      phoneNumber: "123-456-7890"
-    });
+    this.savedSearchIdCounter = 1;
+    this.notificationIdCounter = 1;
+    this.favouriteIdCounter = 1;
+    this.priceHistoryIdCounter = 1;
+    this.statusHistoryIdCounter = 1;
+    this.moderationDecisionIdCounter = 1;
+    this.propertyVersionIdCounter = 1;
+    this.impersonationSessionIdCounter = 1;
+    this.auditLogIdCounter = 1;
+    this.propertyViewIdCounter = 1;
   }
 
   // User methods
@@ -102,61 +426,134 @@ export class MemStorage implements IStorage {
   async createUser(data: InsertUser): Promise<User> {
     const id = this.userIdCounter++;
     const now = new Date();
-    const user: User = { ...data, id, createdAt: now };
+    const user: User = {
+      ...data,
+      id,
+      role: data.role ?? "buyer",
+      phoneNumber: data.phoneNumber ?? null,
+      suspendedAt: null,
+      suspensionReason: null,
+      mustResetPassword: false,
+      lastSeenAt: null,
+      hidePresence: false,
+      createdAt: now
+    };
     this.usersData.set(id, user);
     return user;
   }
 
+  async updateUser(id: number, data: UserUpdate): Promise<User> {
+    const user = this.usersData.get(id);
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const updatedUser = { ...user, ...data };
+    this.usersData.set(id, updatedUser);
+    return updatedUser;
+  }
+
+  async deleteUser(id: number): Promise<void> {
+    const ownListings = Array.from(this.propertiesData.values()).filter(property => property.sellerId === id);
+    await Promise.all(ownListings.map(property => this.deleteProperty(property.id)));
+
+    Array.from(this.chatsData.values())
+      .filter(chat => chat.buyerId === id || chat.sellerId === id)
+      .forEach(chat => this.chatsData.delete(chat.id));
+    Array.from(this.messagesData.values())
+      .filter(message => message.senderId === id || !this.chatsData.has(message.chatId))
+      .forEach(message => this.messagesData.delete(message.id));
+
+    const savedSearches = Array.from(this.savedSearchesData.values()).filter(search => search.userId === id);
+    await Promise.all(savedSearches.map(search => this.deleteSavedSearch(search.id)));
+
+    Array.from(this.notificationsData.values())
+      .filter(notification => notification.userId === id)
+      .forEach(notification => this.notificationsData.delete(notification.id));
+    Array.from(this.favouritesData.values())
+      .filter(favourite => favourite.userId === id)
+      .forEach(favourite => this.favouritesData.delete(favourite.id));
+
+    // History they took part in is kept without them
+    this.statusHistoryData.forEach((entry, key) => {
+      if (entry.changedBy === id) this.statusHistoryData.set(key, { ...entry, changedBy: null });
+    });
+    this.propertyVersionsData.forEach((version, key) => {
+      if (version.changedBy === id) this.propertyVersionsData.set(key, { ...version, changedBy: null });
+    });
+    this.moderationDecisionsData.forEach((decision, key) => {
+      if (decision.moderatorId === id) this.moderationDecisionsData.set(key, { ...decision, moderatorId: null });
+    });
+    this.propertyViewsData.forEach((view, key) => {
+      if (view.userId === id) this.propertyViewsData.set(key, { ...view, userId: null });
+    });
+    this.impersonationSessionsData.forEach((session, key) => {
+      if (session.adminId === id || session.userId === id) {
+        this.impersonationSessionsData.set(key, {
+          ...session,
+          adminId: session.adminId === id ? null : session.adminId,
+          userId: session.userId === id ? null : session.userId,
+        });
+      }
+    });
+
+    this.usersData.delete(id);
+  }
+
   async getAllUsers(): Promise<User[]> {
     return Array.from(this.usersData.values());
   }
 
-  // Property methods
-  async getProperties(filters: PropertyFilters = {}): Promise<{ properties: Property[], total: number }> {
-    let properties = Array.from(this.propertiesData.values());
+  async setLastSeen(userIds: number[], at: Date): Promise<void> {
+    userIds.forEach(id => {
+      const user = this.usersData.get(id);
+      if (user) this.usersData.set(id, { ...user, lastSeenAt: at });
+    });
+  }
 
-    // Apply filters
-    if (filters.propertyType) {
-      properties = properties.filter(p => p.propertyType === filters.propertyType);
-    }
-    
-    if (filters.minPrice !== undefined) {
-      properties = properties.filter(p => p.price >= filters.minPrice!);
-    }
+  // Property methods
+  async getProperties(filters: PropertyFilters = {}): Promise<PropertyPage> {
+    const terms = filters.search ? parseQuery(filters.search) : [];
+    let results: PropertySearchResult[] = Array.from(this.propertiesData.values())
+      .filter(p => matchesPropertyFilters(p, filters, terms));
     
-    if (filters.maxPrice !== undefined) {
-      properties = properties.filter(p => p.price <= filters.maxPrice!);
+    if (terms.length) {
+      results = results.map(p => ({ ...p, relevance: relevanceOf(p, terms) }));
     }
     
-    if (filters.location) {
-      properties = properties.filter(p => 
-        p.address.toLowerCase().includes(filters.location!.toLowerCase())
-      );
+    if (filters.near) {
+      const near = filters.near;
+      results = results.map(p => ({
+        ...p,
+        distance: p.latitude !== null && p.longitude !== null
+          ? distanceKm(near, { lat: p.latitude, lng: p.longitude })
+          : null
+      }));
     }
+
+    const sort = resolveSort(filters, terms.length > 0);
+    const direction = sortDirections[sort];
+    const positionOf = (p: PropertySearchResult): SortPosition => ({ key: memSortKey(sort, p), id: p.id });
     
-    if (filters.search) {
-      const searchTerm = filters.search.toLowerCase();
-      properties = properties.filter(p => 
-        p.title.toLowerCase().includes(searchTerm) || 
-        p.description.toLowerCase().includes(searchTerm) ||
-        p.address.toLowerCase().includes(searchTerm)
-      );
-    }
-
-    // Sort by newest first
-    properties.sort((a, b) => 
-      new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-    );
+    results.sort((a, b) => compareSortPositions(positionOf(a), positionOf(b), direction));
 
-    const total = properties.length;
+    const total = results.length;
     
     // Pagination
-    if (filters.page && filters.limit) {
-      const startIndex = (filters.page - 1) * filters.limit;
-      properties = properties.slice(startIndex, startIndex + filters.limit);
+    if (filters.cursor) {
+      const cursor = filters.cursor;
+      results = results.filter(p => compareSortPositions(positionOf(p), cursor, direction) > 0);
+    } else if (filters.page && filters.limit) {
+      results = results.slice((filters.page - 1) * filters.limit);
+    }
+    
+    let nextCursor: PageCursor | null = null;
+    if (filters.limit && results.length > filters.limit) {
+      results = results.slice(0, filters.limit);
+      nextCursor = { sort: filters.sort ?? "newest", ...positionOf(results[results.length - 1]) };
     }
 
-    return { properties, total };
+    return { properties: results, total, nextCursor };
   }
 
   async getPropertyById(id: number): Promise<Property | undefined> {
@@ -169,89 +566,445 @@ export class MemStorage implements IStorage {
     );
   }
 
-  async createProperty(data: InsertProperty): Promise<Property> {
+  async createProperty(data: InsertProperty, changedBy = data.sellerId): Promise<Property> {
+    if (!this.usersData.has(data.sellerId)) {
+      throw new Error("Seller not found");
+    }
+
     const id = this.propertyIdCounter++;
     const now = new Date();
     const property: Property = { 
       ...data, 
       id, 
-      active: true,
+      bedrooms: data.bedrooms ?? null,
+      bathrooms: data.bathrooms ?? null,
+      squareFeet: data.squareFeet ?? null,
+      yearBuilt: data.yearBuilt ?? null,
+      amenities: data.amenities ?? [],
+      city: data.city ?? null,
+      state: data.state ?? null,
+      postcode: data.postcode ?? null,
+      latitude: data.latitude ?? null,
+      longitude: data.longitude ?? null,
+      status: data.status ?? "active",
+      statusChangedAt: now,
+      expiresAt: data.expiresAt ?? null,
+      moderationNote: null,
       createdAt: now, 
       updatedAt: now 
     };
     this.propertiesData.set(id, property);
+    this.recordPrice(id, property.price, now);
+    this.recordStatus(id, null, property.status, changedBy, now);
+    this.recordVersion(property, changedBy, []);
     return property;
   }
 
-  async updateProperty(id: number, data: Partial<InsertProperty>): Promise<Property> {
+  private recordPrice(propertyId: number, price: number, recordedAt: Date) {
+    const id = this.priceHistoryIdCounter++;
+    this.priceHistoryData.set(id, { id, propertyId, price, recordedAt });
+  }
+
+  private recordStatus(propertyId: number, fromStatus: ListingStatus | null, toStatus: ListingStatus, changedBy: number | null, changedAt: Date) {
+    const id = this.statusHistoryIdCounter++;
+    this.statusHistoryData.set(id, { id, propertyId, fromStatus, toStatus, changedBy, changedAt });
+  }
+
+  private recordVersion(property: Property, changedBy: number | null, changedFields: string[]) {
+    const versions = Array.from(this.propertyVersionsData.values()).filter(v => v.propertyId === property.id);
+    const id = this.propertyVersionIdCounter++;
+    this.propertyVersionsData.set(id, {
+      id,
+      propertyId: property.id,
+      version: versions.length + 1,
+      changedBy,
+      changedFields,
+      snapshot: toSnapshot(property),
+      createdAt: property.updatedAt,
+    });
+  }
+
+  async updateProperty(id: number, data: PropertyUpdate, changedBy?: number): Promise<Property> {
     const property = this.propertiesData.get(id);
     if (!property) {
       throw new Error("Property not found");
     }
     
+    const now = new Date();
     const updatedProperty: Property = {
       ...property,
       ...data,
-      updatedAt: new Date()
+      statusChangedAt: data.status && data.status !== property.status ? now : property.statusChangedAt,
+      updatedAt: now
     };
     
     this.propertiesData.set(id, updatedProperty);
+    if (updatedProperty.price !== property.price) {
+      this.recordPrice(id, updatedProperty.price, now);
+    }
+    if (updatedProperty.status !== property.status) {
+      this.recordStatus(id, property.status, updatedProperty.status, changedBy ?? null, now);
+    }
+    const changes = diffSnapshots(toSnapshot(property), toSnapshot(updatedProperty));
+    if (changes.length) {
+      this.recordVersion(updatedProperty, changedBy ?? null, changes.map(change => change.field));
+    }
     return updatedProperty;
   }
 
   async deleteProperty(id: number): Promise<void> {
     this.propertiesData.delete(id);
+
+    // Chats about the listing are kept but become read-only
+    Array.from(this.chatsData.values())
+      .filter(chat => chat.propertyId === id)
+      .forEach(chat => this.chatsData.set(chat.id, { ...chat, propertyId: null }));
+
+    Array.from(this.notificationsData.values())
+      .filter(notification => notification.propertyId === id)
+      .forEach(notification => this.notificationsData.delete(notification.id));
+
+    Array.from(this.favouritesData.values())
+      .filter(favourite => favourite.propertyId === id)
+      .forEach(favourite => this.favouritesData.delete(favourite.id));
+
+    Array.from(this.priceHistoryData.values())
+      .filter(entry => entry.propertyId === id)
+      .forEach(entry => this.priceHistoryData.delete(entry.id));
+
+    Array.from(this.statusHistoryData.values())
+      .filter(entry => entry.propertyId === id)
+      .forEach(entry => this.statusHistoryData.delete(entry.id));
+
+    Array.from(this.moderationDecisionsData.values())
+      .filter(decision => decision.propertyId === id)
+      .forEach(decision => this.moderationDecisionsData.delete(decision.id));
+
+    Array.from(this.propertyVersionsData.values())
+      .filter(version => version.propertyId === id)
+      .forEach(version => this.propertyVersionsData.delete(version.id));
+
+    Array.from(this.propertyViewsData.values())
+      .filter(view => view.propertyId === id)
+      .forEach(view => this.propertyViewsData.delete(view.id));
   }
 
   async getAllProperties(): Promise<Property[]> {
     return Array.from(this.propertiesData.values());
   }
 
+  async getPropertiesByStatus(status: ListingStatus): Promise<Property[]> {
+    return Array.from(this.propertiesData.values())
+      .filter(property => property.status === status)
+      .sort((a, b) => a.statusChangedAt.getTime() - b.statusChangedAt.getTime() || a.id - b.id);
+  }
+
+  async getListingsToExpire(now: Date): Promise<Property[]> {
+    return Array.from(this.propertiesData.values()).filter(
+      (property) => property.status === "active" && property.expiresAt !== null && property.expiresAt <= now
+    );
+  }
+
+  async getPriceHistory(propertyId: number): Promise<PriceHistoryEntry[]> {
+    return Array.from(this.priceHistoryData.values())
+      .filter(entry => entry.propertyId === propertyId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async getStatusHistory(propertyId: number): Promise<StatusHistoryEntry[]> {
+    return Array.from(this.statusHistoryData.values())
+      .filter(entry => entry.propertyId === propertyId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async getPropertyVersions(propertyId: number): Promise<PropertyVersion[]> {
+    return Array.from(this.propertyVersionsData.values())
+      .filter(version => version.propertyId === propertyId)
+      .sort((a, b) => a.version - b.version);
+  }
+
+  async getPropertyVersion(propertyId: number, version: number): Promise<PropertyVersion | undefined> {
+    return Array.from(this.propertyVersionsData.values()).find(
+      v => v.propertyId === propertyId && v.version === version
+    );
+  }
+
+  // Moderation methods
+  async createModerationDecision(data: InsertModerationDecision): Promise<ModerationDecision> {
+    const id = this.moderationDecisionIdCounter++;
+    const decision: ModerationDecision = {
+      ...data,
+      id,
+      moderatorId: data.moderatorId ?? null,
+      reason: data.reason ?? null,
+      createdAt: new Date(),
+    };
+    this.moderationDecisionsData.set(id, decision);
+    return decision;
+  }
+
+  async getModerationDecisions(propertyId?: number, limit = 100): Promise<ModerationLogEntry[]> {
+    return Array.from(this.moderationDecisionsData.values())
+      .filter(decision => propertyId === undefined || decision.propertyId === propertyId)
+      .sort((a, b) => b.id - a.id)
+      .slice(0, limit)
+      .map(decision => {
+        const { id, title } = this.propertiesData.get(decision.propertyId)!;
+        const moderator = decision.moderatorId !== null ? this.usersData.get(decision.moderatorId) : undefined;
+        return {
+          ...decision,
+          property: { id, title },
+          moderator: moderator ? { id: moderator.id, username: moderator.username } : null,
+        };
+      });
+  }
+
+  // Impersonation methods
+  async createImpersonationSession(data: InsertImpersonationSession): Promise<ImpersonationSession> {
+    const id = this.impersonationSessionIdCounter++;
+    const session: ImpersonationSession = {
+      ...data,
+      id,
+      adminId: data.adminId ?? null,
+      userId: data.userId ?? null,
+      startedAt: new Date(),
+      endedAt: null,
+    };
+    this.impersonationSessionsData.set(id, session);
+    return session;
+  }
+
+  async endImpersonationSession(id: number): Promise<void> {
+    const session = this.impersonationSessionsData.get(id);
+    if (session && !session.endedAt) {
+      this.impersonationSessionsData.set(id, { ...session, endedAt: new Date() });
+    }
+  }
+
+  async getImpersonationSessions(limit = 100): Promise<ImpersonationLogEntry[]> {
+    const account = (id: number | null) => {
+      const user = id !== null ? this.usersData.get(id) : undefined;
+      return user ? { id: user.id, username: user.username } : null;
+    };
+    return Array.from(this.impersonationSessionsData.values())
+      .sort((a, b) => b.id - a.id)
+      .slice(0, limit)
+      .map(session => ({ ...session, admin: account(session.adminId), user: account(session.userId) }));
+  }
+
+  // Audit log methods
+  async createAuditLogEntry(data: InsertAuditLogEntry): Promise<AuditLogEntry> {
+    const id = this.auditLogIdCounter++;
+    const entry: AuditLogEntry = {
+      ...data,
+      id,
+      actorId: data.actorId ?? null,
+      actorUsername: data.actorUsername ?? null,
+      targetType: data.targetType ?? null,
+      targetId: data.targetId ?? null,
+      ip: data.ip ?? null,
+      userAgent: data.userAgent ?? null,
+      before: data.before ?? null,
+      after: data.after ?? null,
+      createdAt: new Date(),
+    };
+    this.auditLogData.set(id, entry);
+    return entry;
+  }
+
+  async getAuditLog(filters: AuditLogFilters): Promise<AuditLogEntry[]> {
+    return Array.from(this.auditLogData.values())
+      .filter(entry =>
+        (filters.actorId === undefined || entry.actorId === filters.actorId) &&
+        (filters.action === undefined || entry.action === filters.action) &&
+        (filters.from === undefined || entry.createdAt >= filters.from) &&
+        (filters.to === undefined || entry.createdAt < filters.to) &&
+        (filters.beforeId === undefined || entry.id < filters.beforeId))
+      .sort((a, b) => b.id - a.id)
+      .slice(0, filters.limit ?? 100);
+  }
+
+  // Analytics methods
+  async recordPropertyView(propertyId: number, userId: number | null): Promise<void> {
+    const id = this.propertyViewIdCounter++;
+    this.propertyViewsData.set(id, { id, propertyId, userId, viewedAt: new Date() });
+  }
+
+  async getDailyActivity(range: DateRange): Promise<DailyActivity[]> {
+    const days = new Map<string, DailyActivity>();
+    const tally = (dates: Date[], key: keyof ActivityCounts) => {
+      dates.filter(date => inRange(date, range)).forEach(date => {
+        const day = date.toISOString().slice(0, 10);
+        const activity = days.get(day) ?? { date: day, users: 0, listings: 0, chats: 0, messages: 0, views: 0 };
+        activity[key]++;
+        days.set(day, activity);
+      });
+    };
+
+    tally(Array.from(this.usersData.values()).map(user => user.createdAt), "users");
+    tally(Array.from(this.propertiesData.values()).map(property => property.createdAt), "listings");
+    tally(Array.from(this.chatsData.values()).map(chat => chat.createdAt), "chats");
+    tally(Array.from(this.messagesData.values()).map(message => message.timestamp), "messages");
+    tally(Array.from(this.propertyViewsData.values()).map(view => view.viewedAt), "views");
+    return Array.from(days.values()).sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  private listingsCreatedIn(range: DateRange): Property[] {
+    return Array.from(this.propertiesData.values()).filter(property => inRange(property.createdAt, range));
+  }
+
+  async getListingBreakdown(range: DateRange): Promise<Pick<AdminAnalytics, "listingsByType" | "listingsByStatus">> {
+    const tally = <K extends string>(keys: K[]) => {
+      const counts = new Map<K, number>();
+      keys.forEach(key => counts.set(key, (counts.get(key) ?? 0) + 1));
+      return Array.from(counts.entries()).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+    };
+    const listings = this.listingsCreatedIn(range);
+    return {
+      listingsByType: tally(listings.map(p => p.propertyType)).map(([propertyType, count]) => ({ propertyType, count })),
+      listingsByStatus: tally(listings.map(p => p.status)).map(([status, count]) => ({ status, count })),
+    };
+  }
+
+  async getMedianPricesByArea(range: DateRange, limit: number): Promise<AdminAnalytics["medianPriceByArea"]> {
+    const areas = new Map<string, number[]>();
+    this.listingsCreatedIn(range).forEach(property => {
+      if (property.city === null) return;
+      const area = areaLabel(property.city, property.state);
+      areas.set(area, [...(areas.get(area) ?? []), property.price]);
+    });
+    return Array.from(areas.entries())
+      .map(([area, prices]) => ({ area, listings: prices.length, medianPrice: median(prices)! }))
+      .sort((a, b) => b.listings - a.listings || a.area.localeCompare(b.area))
+      .slice(0, limit);
+  }
+
+  async getResponseTimes(range: DateRange): Promise<AdminAnalytics["responseTimes"]> {
+    const messages = Array.from(this.messagesData.values());
+    const waits: (number | null)[] = [];
+    this.chatsData.forEach(chat => {
+      const chatMessages = messages.filter(message => message.chatId === chat.id);
+      const askedAt = Math.min(...chatMessages.filter(m => m.senderId === chat.buyerId).map(m => m.timestamp.getTime()));
+      if (!isFinite(askedAt) || !inRange(new Date(askedAt), range)) return;
+      const repliedAt = Math.min(...chatMessages
+        .filter(m => m.senderId === chat.sellerId && m.timestamp.getTime() >= askedAt)
+        .map(m => m.timestamp.getTime()));
+      waits.push(isFinite(repliedAt) ? (repliedAt - askedAt) / 60000 : null);
+    });
+
+    const answered = waits.filter((wait): wait is number => wait !== null);
+    return {
+      answered: answered.length,
+      unanswered: waits.length - answered.length,
+      medianMinutes: median(answered),
+      averageMinutes: answered.length ? answered.reduce((sum, wait) => sum + wait, 0) / answered.length : null,
+    };
+  }
+
+  async getViewConversion(range: DateRange): Promise<AdminAnalytics["conversion"]> {
+    const views = Array.from(this.propertyViewsData.values()).filter(view => inRange(view.viewedAt, range));
+    // First view in the range of each listing by each signed-in viewer
+    const firstViews = new Map<string, PropertyView>();
+    views.forEach(view => {
+      if (view.userId === null) return;
+      const key = `${view.userId}:${view.propertyId}`;
+      const first = firstViews.get(key);
+      if (!first || view.viewedAt < first.viewedAt) firstViews.set(key, view);
+    });
+
+    const chats = Array.from(this.chatsData.values());
+    const converted = Array.from(firstViews.values()).filter(view => chats.some(chat =>
+      chat.buyerId === view.userId && chat.propertyId === view.propertyId &&
+      chat.createdAt >= view.viewedAt && chat.createdAt < range.to));
+    return { views: views.length, viewers: firstViews.size, converted: converted.length };
+  }
+
+  // Favourite methods
+  async getFavouritesByUserId(userId: number): Promise<FavouriteWithProperty[]> {
+    return Array.from(this.favouritesData.values())
+      .filter(favourite => favourite.userId === userId)
+      .sort((a, b) => b.id - a.id)
+      .map(favourite => ({ ...favourite, property: this.propertiesData.get(favourite.propertyId)! }));
+  }
+
+  async getFavouriteUserIds(propertyId: number): Promise<number[]> {
+    return Array.from(this.favouritesData.values())
+      .filter(favourite => favourite.propertyId === propertyId)
+      .map(favourite => favourite.userId);
+  }
+
+  async addFavourite(userId: number, propertyId: number): Promise<Favourite> {
+    const existing = Array.from(this.favouritesData.values()).find(
+      favourite => favourite.userId === userId && favourite.propertyId === propertyId
+    );
+    if (existing) return existing;
+
+    const property = this.propertiesData.get(propertyId);
+    if (!property) {
+      throw new Error("Property not found");
+    }
+
+    const id = this.favouriteIdCounter++;
+    const favourite: Favourite = { id, userId, propertyId, savedPrice: property.price, createdAt: new Date() };
+    this.favouritesData.set(id, favourite);
+    return favourite;
+  }
+
+  async removeFavourite(userId: number, propertyId: number): Promise<void> {
+    Array.from(this.favouritesData.values())
+      .filter(favourite => favourite.userId === userId && favourite.propertyId === propertyId)
+      .forEach(favourite => this.favouritesData.delete(favourite.id));
+  }
+
   // Chat methods
   async getChatById(id: number): Promise<Chat | undefined> {
     return this.chatsData.get(id);
   }
 
-  async getChatsByBuyerId(buyerId: number): Promise<(Chat & { property: Property, seller: User })[]> {
+  async getChatsByBuyerId(buyerId: number): Promise<(Chat & { property: Property | null, seller: User })[]> {
     const chats = Array.from(this.chatsData.values()).filter(
       (chat) => chat.buyerId === buyerId
     );
     
     return Promise.all(
       chats.map(async (chat) => {
-        const property = await this.getPropertyById(chat.propertyId);
+        const property = chat.propertyId !== null
+          ? await this.getPropertyById(chat.propertyId)
+          : undefined;
         const seller = await this.getUser(chat.sellerId);
         
-        if (!property || !seller) {
-          throw new Error("Property or seller not found");
+        if (!seller) {
+          throw new Error("Seller not found");
         }
         
         return {
           ...chat,
-          property,
+          property: property ?? null,
           seller
         };
       })
     );
   }
 
-  async getChatsBySellerId(sellerId: number): Promise<(Chat & { property: Property, buyer: User })[]> {
+  async getChatsBySellerId(sellerId: number): Promise<(Chat & { property: Property | null, buyer: User })[]> {
     const chats = Array.from(this.chatsData.values()).filter(
       (chat) => chat.sellerId === sellerId
     );
     
     return Promise.all(
       chats.map(async (chat) => {
-        const property = await this.getPropertyById(chat.propertyId);
+        const property = chat.propertyId !== null
+          ? await this.getPropertyById(chat.propertyId)
+          : undefined;
         const buyer = await this.getUser(chat.buyerId);
         
-        if (!property || !buyer) {
-          throw new Error("Property or buyer not found");
+        if (!buyer) {
+          throw new Error("Buyer not found");
         }
         
         return {
           ...chat,
-          property,
+          property: property ?? null,
           buyer
         };
       })
@@ -268,14 +1021,73 @@ export class MemStorage implements IStorage {
   }
 
   async createChat(data: InsertChat): Promise<Chat> {
+    if (!this.usersData.has(data.buyerId) || !this.usersData.has(data.sellerId)) {
+      throw new Error("Buyer or seller not found");
+    }
+
+    if (!this.propertiesData.has(data.propertyId)) {
+      throw new Error("Property not found");
+    }
+
     const id = this.chatIdCounter++;
     const now = new Date();
-    const chat: Chat = { ...data, id, createdAt: now };
+    const chat: Chat = { ...data, id, createdAt: now, buyerLastReadId: 0, sellerLastReadId: 0 };
     this.chatsData.set(id, chat);
     return chat;
   }
 
+  async markChatRead(chatId: number, userId: number, messageId: number): Promise<Chat> {
+    const chat = this.chatsData.get(chatId);
+    if (!chat) {
+      throw new Error("Chat not found");
+    }
+
+    const updatedChat: Chat = { ...chat };
+    if (chat.buyerId === userId) updatedChat.buyerLastReadId = Math.max(chat.buyerLastReadId, messageId);
+    if (chat.sellerId === userId) updatedChat.sellerLastReadId = Math.max(chat.sellerLastReadId, messageId);
+    this.chatsData.set(chatId, updatedChat);
+    return updatedChat;
+  }
+
+  async getUnreadCounts(userId: number): Promise<Record<number, number>> {
+    const counts: Record<number, number> = {};
+    const messages = Array.from(this.messagesData.values());
+    this.chatsData.forEach(chat => {
+      if (chat.buyerId !== userId && chat.sellerId !== userId) return;
+      const lastReadId = chat.buyerId === userId ? chat.buyerLastReadId : chat.sellerLastReadId;
+      const unread = messages.filter(m => m.chatId === chat.id && m.senderId !== userId && m.id > lastReadId).length;
+      if (unread) counts[chat.id] = unread;
+    });
+    return counts;
+  }
+
+  async getChatPartnerIds(userId: number): Promise<number[]> {
+    const partnerIds = new Set<number>();
+    this.chatsData.forEach(chat => {
+      if (chat.buyerId === userId) partnerIds.add(chat.sellerId);
+      if (chat.sellerId === userId) partnerIds.add(chat.buyerId);
+    });
+    return Array.from(partnerIds);
+  }
+
+  async transferChats(fromSellerId: number, toSellerId: number): Promise<void> {
+    const moved = Array.from(this.chatsData.values())
+      .filter(chat => chat.sellerId === fromSellerId && chat.buyerId !== toSellerId);
+    const movedIds = new Set(moved.map(chat => chat.id));
+
+    moved.forEach(chat => this.chatsData.set(chat.id, { ...chat, sellerId: toSellerId }));
+    this.messagesData.forEach(message => {
+      if (movedIds.has(message.chatId) && message.senderId === fromSellerId) {
+        this.messagesData.set(message.id, { ...message, senderId: toSellerId });
+      }
+    });
+  }
+
   // Message methods
+  async getMessageById(id: number): Promise<Message | undefined> {
+    return this.messagesData.get(id);
+  }
+
   async getMessagesByChatId(chatId: number): Promise<Message[]> {
     const messages = Array.from(this.messagesData.values()).filter(
       (message) => message.chatId === chatId
@@ -288,12 +1100,1053 @@ export class MemStorage implements IStorage {
   }
 
   async createMessage(data: InsertMessage): Promise<Message> {
+    if (!this.chatsData.has(data.chatId)) {
+      throw new Error("Chat not found");
+    }
+
+    if (!this.usersData.has(data.senderId)) {
+      throw new Error("Sender not found");
+    }
+
     const id = this.messageIdCounter++;
     const now = new Date();
     const message: Message = { ...data, id, timestamp: now };
     this.messagesData.set(id, message);
     return message;
   }
+
+  private userMessages(userId: number): Message[] {
+    const chatIds = new Set(Array.from(this.chatsData.values())
+      .filter(chat => chat.buyerId === userId || chat.sellerId === userId)
+      .map(chat => chat.id));
+    return Array.from(this.messagesData.values()).filter(message => chatIds.has(message.chatId));
+  }
+
+  async getMessagesForUserSince(userId: number, afterId: number, limit: number): Promise<Message[]> {
+    return this.userMessages(userId)
+      .filter(message => message.id > afterId)
+      .sort((a, b) => a.id - b.id)
+      .slice(0, limit);
+  }
+
+  async getLatestMessageIdForUser(userId: number): Promise<number> {
+    return this.userMessages(userId).reduce((latest, message) => Math.max(latest, message.id), 0);
+  }
+
+  // Saved search methods
+  async getSavedSearchById(id: number): Promise<SavedSearch | undefined> {
+    return this.savedSearchesData.get(id);
+  }
+
+  async getSavedSearchesByUserId(userId: number): Promise<SavedSearch[]> {
+    return Array.from(this.savedSearchesData.values()).filter(
+      (savedSearch) => savedSearch.userId === userId
+    );
+  }
+
+  async getAllSavedSearches(): Promise<SavedSearch[]> {
+    return Array.from(this.savedSearchesData.values());
+  }
+
+  async getSavedSearchByUnsubscribeToken(token: string): Promise<SavedSearch | undefined> {
+    return Array.from(this.savedSearchesData.values()).find(
+      (savedSearch) => savedSearch.unsubscribeToken === token
+    );
+  }
+
+  async createSavedSearch(data: InsertSavedSearch): Promise<SavedSearch> {
+    if (!this.usersData.has(data.userId)) {
+      throw new Error("User not found");
+    }
+
+    const id = this.savedSearchIdCounter++;
+    const savedSearch: SavedSearch = {
+      ...data,
+      id,
+      frequency: data.frequency ?? "instant",
+      emailEnabled: data.emailEnabled ?? true,
+      unsubscribeToken: newUnsubscribeToken(),
+      lastEmailedAt: null,
+      createdAt: new Date(),
+    };
+    this.savedSearchesData.set(id, savedSearch);
+    return savedSearch;
+  }
+
+  async updateSavedSearch(id: number, data: SavedSearchUpdate): Promise<SavedSearch> {
+    const savedSearch = this.savedSearchesData.get(id);
+    if (!savedSearch) {
+      throw new Error("Saved search not found");
+    }
+
+    const updatedSavedSearch = { ...savedSearch, ...data };
+    this.savedSearchesData.set(id, updatedSavedSearch);
+    return updatedSavedSearch;
+  }
+
+  async deleteSavedSearch(id: number): Promise<void> {
+    this.savedSearchesData.delete(id);
+
+    Array.from(this.notificationsData.values())
+      .filter(notification => notification.savedSearchId === id)
+      .forEach(notification => this.notificationsData.delete(notification.id));
+  }
+
+  // Notification methods
+  async getNotificationsByUserId(userId: number, limit = 50): Promise<Notification[]> {
+    return Array.from(this.notificationsData.values())
+      .filter((notification) => notification.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id)
+      .slice(0, limit);
+  }
+
+  async createNotification(data: InsertNotification): Promise<Notification> {
+    if (!this.usersData.has(data.userId)) {
+      throw new Error("User not found");
+    }
+
+    const id = this.notificationIdCounter++;
+    const notification: Notification = {
+      ...data,
+      id,
+      link: data.link ?? null,
+      savedSearchId: data.savedSearchId ?? null,
+      propertyId: data.propertyId ?? null,
+      readAt: null,
+      emailedAt: null,
+      createdAt: new Date(),
+    };
+    this.notificationsData.set(id, notification);
+    return notification;
+  }
+
+  async markNotificationsRead(userId: number, ids?: number[]): Promise<void> {
+    const now = new Date();
+    Array.from(this.notificationsData.values())
+      .filter(n => n.userId === userId && n.readAt === null && (!ids || ids.includes(n.id)))
+      .forEach(n => this.notificationsData.set(n.id, { ...n, readAt: now }));
+  }
+
+  async hasSavedSearchNotification(savedSearchId: number, propertyId: number): Promise<boolean> {
+    return Array.from(this.notificationsData.values()).some(
+      (n) => n.savedSearchId === savedSearchId && n.propertyId === propertyId
+    );
+  }
+
+  async getUnemailedNotifications(savedSearchId: number): Promise<Notification[]> {
+    return Array.from(this.notificationsData.values())
+      .filter((n) => n.savedSearchId === savedSearchId && n.emailedAt === null)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async markNotificationsEmailed(ids: number[]): Promise<void> {
+    const now = new Date();
+    ids.forEach(id => {
+      const notification = this.notificationsData.get(id);
+      if (notification) {
+        this.notificationsData.set(id, { ...notification, emailedAt: now });
+      }
+    });
+  }
+}
+
+// SQL counterparts of the helpers in geo.ts
+function haversineKm(center: LatLng): SQL<number> {
+  return sql<number>`(${2 * EARTH_RADIUS_KM} * asin(sqrt(
+    power(sin(radians(${properties.latitude} - ${center.lat}) / 2), 2) +
+    cos(radians(${center.lat})) * cos(radians(${properties.latitude})) *
+    power(sin(radians(${properties.longitude} - ${center.lng}) / 2), 2)
+  )))`;
+}
+
+// The value DatabaseStorage sorts on, mirroring memSortKey. Newest compares
+// whole milliseconds so cursors survive the round trip through JavaScript.
+function sortExpression(sort: PropertySort, relevance?: SQL<number>, distance?: SQL<number>): SQL<number | null> {
+  switch (sort) {
+    case "newest":
+      return sql<number>`floor(extract(epoch from ${properties.createdAt}) * 1000)`.mapWith(Number);
+    case "price_asc":
+    case "price_desc":
+      return sql<number>`${properties.price}`.mapWith(Number);
+    case "price_per_sqft":
+      return sql<number | null>`${properties.price} / nullif(${properties.squareFeet}, 0)`.mapWith(Number);
+    case "relevance":
+      return relevance!;
+    case "distance":
+      return distance!;
+  }
+}
+
+// Rows sorting after the cursor's position, nulls last
+function afterCursor(sortKey: SQL, cursor: PageCursor, direction: "asc" | "desc"): SQL {
+  const after = sql.raw(direction === "asc" ? ">" : "<");
+  const idAfter = sql`${properties.id} ${after} ${cursor.id}`;
+
+  if (cursor.key === null) {
+    return sql`(${sortKey} is null and ${idAfter})`;
+  }
+  return sql`(${sortKey} ${after} ${cursor.key} or (${sortKey} = ${cursor.key} and ${idAfter}) or ${sortKey} is null)`;
+}
+
+function withinBoundingBox(box: BoundingBox): SQL {
+  const longitude = box.minLng <= box.maxLng
+    ? and(gte(properties.longitude, box.minLng), lte(properties.longitude, box.maxLng))
+    : or(gte(properties.longitude, box.minLng), lte(properties.longitude, box.maxLng));
+
+  return and(
+    isNotNull(properties.latitude),
+    gte(properties.latitude, box.minLat),
+    lte(properties.latitude, box.maxLat),
+    longitude
+  )!;
+}
+
+export class DatabaseStorage implements IStorage {
+  sessionStore: session.Store;
+
+  constructor() {
+    if (!process.env.DATABASE_URL) {
+      throw new Error("DATABASE_URL must be set to use the database storage");
+    }
+
+    this.sessionStore = new PostgresSessionStore({
+      pool,
+      createTableIfMissing: true,
+    });
+  }
+
+  // User methods
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(data: InsertUser): Promise<User> {
+    const [user] = await db.insert(users).values(data).returning();
+    return user;
+  }
+
+  async updateUser(id: number, data: UserUpdate): Promise<User> {
+    const [user] = await db
+      .update(users)
+      .set(data)
+      .where(eq(users.id, id))
+      .returning();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    return user;
+  }
+
+  async deleteUser(id: number): Promise<void> {
+    // Listings, chats, messages, favourites, saved searches and notifications
+    // cascade; history rows keep a null in place of the user
+    await db.delete(users).where(eq(users.id, id));
+  }
+
+  async getAllUsers(): Promise<User[]> {
+    return db.select().from(users);
+  }
+
+  async setLastSeen(userIds: number[], at: Date): Promise<void> {
+    if (!userIds.length) return;
+    await db.update(users).set({ lastSeenAt: at }).where(inArray(users.id, userIds));
+  }
+
+  // Property methods
+  async getProperties(filters: PropertyFilters = {}): Promise<PropertyPage> {
+    const conditions: SQL[] = [inArray(properties.status, publicListingStatuses)];
+
+    if (filters.propertyId !== undefined) {
+      conditions.push(eq(properties.id, filters.propertyId));
+    }
+
+    if (filters.propertyType) {
+      conditions.push(eq(properties.propertyType, filters.propertyType));
+    }
+
+    if (filters.minPrice !== undefined) {
+      conditions.push(gte(properties.price, filters.minPrice));
+    }
+
+    if (filters.maxPrice !== undefined) {
+      conditions.push(lte(properties.price, filters.maxPrice));
+    }
+
+    for (const { field, min, max } of rangeFilters) {
+      const lower = filters[min];
+      const upper = filters[max];
+      if (lower !== undefined) {
+        conditions.push(gte(properties[field], lower));
+      }
+      if (upper !== undefined) {
+        conditions.push(lte(properties[field], upper));
+      }
+    }
+
+    if (filters.amenities?.length) {
+      conditions.push(arrayContains(properties.amenities, filters.amenities));
+    }
+
+    if (filters.location) {
+      // Matches part of the address, or a normalised city, state or postcode
+      conditions.push(or(
+        ilike(properties.address, `%${filters.location}%`),
+        sql`lower(${properties.city}) = lower(${filters.location})`,
+        sql`lower(${properties.state}) = lower(${filters.location})`,
+        eq(properties.postcode, filters.location)
+      )!);
+    }
+
+    // Stemmed prefix matches through the tsvector index, with a trigram
+    // fallback (pg_trgm's <% operator) so misspelt searches still match
+    const tsQuery = filters.search ? toTsQuery(filters.search) : null;
+    let relevance: SQL<number> | undefined;
+
+    if (filters.search && tsQuery) {
+      const document = propertySearchDocument(properties);
+      const fuzzyText = propertyFuzzyText(properties);
+      const query = sql`to_tsquery('english', ${tsQuery})`;
+
+      conditions.push(sql`(${document} @@ ${query} or ${filters.search} <% ${fuzzyText})`);
+      relevance = sql<number>`round((ts_rank(${document}, ${query}) + 0.1 * word_similarity(${filters.search}, ${fuzzyText}))::numeric, 4)`.mapWith(Number);
+    }
+
+    if (filters.bbox) {
+      conditions.push(withinBoundingBox(filters.bbox));
+    }
+
+    let distance: SQL<number> | undefined;
+
+    if (filters.near) {
+      const exactDistance = haversineKm(filters.near);
+      distance = sql<number>`round(${exactDistance}::numeric, 2)`.mapWith(Number);
+
+      if (filters.radiusKm !== undefined) {
+        // The box lets Postgres use the location index before computing distances
+        conditions.push(withinBoundingBox(boundingBoxAround(filters.near, filters.radiusKm)));
+        conditions.push(sql`${exactDistance} <= ${filters.radiusKm}`);
+      }
+    }
+
+    const where = conditions.length ? and(...conditions) : undefined;
+
+    const [{ total }] = await db
+      .select({ total: count() })
+      .from(properties)
+      .where(where);
+
+    const sort = resolveSort(filters, relevance !== undefined);
+    const direction = sortDirections[sort];
+    const sortKey = sortExpression(sort, relevance, distance);
+    const directionSql = sql.raw(direction);
+
+    let query = db
+      .select({
+        ...getTableColumns(properties),
+        ...(relevance ? { relevance } : {}),
+        ...(distance ? { distance } : {}),
+        sortKey,
+      })
+      .from(properties)
+      .where(filters.cursor ? and(where, afterCursor(sortKey, filters.cursor, direction)) : where)
+      .orderBy(sql`${sortKey} ${directionSql} nulls last`, sql`${properties.id} ${directionSql}`)
+      .$dynamic();
+
+    // Pagination, fetching one extra row to tell whether there's a next page
+    if (filters.limit) {
+      query = query.limit(filters.limit + 1);
+      if (!filters.cursor && filters.page) {
+        query = query.offset((filters.page - 1) * filters.limit);
+      }
+    }
+
+    let rows = await query;
+    let nextCursor: PageCursor | null = null;
+
+    if (filters.limit && rows.length > filters.limit) {
+      rows = rows.slice(0, filters.limit);
+      const last = rows[rows.length - 1];
+      nextCursor = { sort: filters.sort ?? "newest", key: last.sortKey, id: last.id };
+    }
+
+    return { properties: rows.map(({ sortKey, ...property }) => property), total, nextCursor };
+  }
+
+  async getPropertyById(id: number): Promise<Property | undefined> {
+    const [property] = await db.select().from(properties).where(eq(properties.id, id));
+    return property;
+  }
+
+  async getPropertiesBySellerId(sellerId: number): Promise<Property[]> {
+    return db.select().from(properties).where(eq(properties.sellerId, sellerId));
+  }
+
+  async createProperty(data: InsertProperty, changedBy = data.sellerId): Promise<Property> {
+    return db.transaction(async (tx) => {
+      const [property] = await tx
+        .insert(properties)
+        .values(data)
+        .returning();
+      await tx
+        .insert(propertyPriceHistory)
+        .values({ propertyId: property.id, price: property.price, recordedAt: property.createdAt });
+      await tx
+        .insert(propertyStatusHistory)
+        .values({ propertyId: property.id, toStatus: property.status, changedBy, changedAt: property.createdAt });
+      await tx.insert(propertyVersions).values({
+        propertyId: property.id,
+        version: 1,
+        changedBy,
+        changedFields: [],
+        snapshot: toSnapshot(property),
+        createdAt: property.createdAt,
+      });
+      return property;
+    });
+  }
+
+  async updateProperty(id: number, data: PropertyUpdate, changedBy?: number): Promise<Property> {
+    return db.transaction(async (tx) => {
+      // Locked so concurrent updates record their changes in order
+      const [previous] = await tx
+        .select()
+        .from(properties)
+        .where(eq(properties.id, id))
+        .for("update");
+
+      if (!previous) {
+        throw new Error("Property not found");
+      }
+
+      const now = new Date();
+      const statusChanged = data.status !== undefined && data.status !== previous.status;
+      const [property] = await tx
+        .update(properties)
+        .set({ ...data, ...(statusChanged && { statusChangedAt: now }), updatedAt: now })
+        .where(eq(properties.id, id))
+        .returning();
+
+      if (property.price !== previous.price) {
+        await tx
+          .insert(propertyPriceHistory)
+          .values({ propertyId: id, price: property.price, recordedAt: now });
+      }
+
+      if (statusChanged) {
+        await tx.insert(propertyStatusHistory).values({
+          propertyId: id,
+          fromStatus: previous.status,
+          toStatus: property.status,
+          changedBy: changedBy ?? null,
+          changedAt: now,
+        });
+      }
+
+      const changes = diffSnapshots(toSnapshot(previous), toSnapshot(property));
+      if (changes.length) {
+        const [{ latest }] = await tx
+          .select({ latest: sql<number>`coalesce(max(${propertyVersions.version}), 0)`.mapWith(Number) })
+          .from(propertyVersions)
+          .where(eq(propertyVersions.propertyId, id));
+        await tx.insert(propertyVersions).values({
+          propertyId: id,
+          version: latest + 1,
+          changedBy: changedBy ?? null,
+          changedFields: changes.map(change => change.field),
+          snapshot: toSnapshot(property),
+          createdAt: property.updatedAt,
+        });
+      }
+
+      return property;
+    });
+  }
+
+  async deleteProperty(id: number): Promise<void> {
+    // The chats foreign key nulls out propertyId, leaving those chats read-only;
+    // favourites and price history go with the listing
+    await db.delete(properties).where(eq(properties.id, id));
+  }
+
+  async getAllProperties(): Promise<Property[]> {
+    return db.select().from(properties);
+  }
+
+  async getPropertiesByStatus(status: ListingStatus): Promise<Property[]> {
+    return db
+      .select()
+      .from(properties)
+      .where(eq(properties.status, status))
+      .orderBy(properties.statusChangedAt, properties.id);
+  }
+
+  async getListingsToExpire(now: Date): Promise<Property[]> {
+    return db
+      .select()
+      .from(properties)
+      .where(and(eq(properties.status, "active"), lte(properties.expiresAt, now)));
+  }
+
+  async getPriceHistory(propertyId: number): Promise<PriceHistoryEntry[]> {
+    return db
+      .select()
+      .from(propertyPriceHistory)
+      .where(eq(propertyPriceHistory.propertyId, propertyId))
+      .orderBy(propertyPriceHistory.recordedAt, propertyPriceHistory.id);
+  }
+
+  async getStatusHistory(propertyId: number): Promise<StatusHistoryEntry[]> {
+    return db
+      .select()
+      .from(propertyStatusHistory)
+      .where(eq(propertyStatusHistory.propertyId, propertyId))
+      .orderBy(propertyStatusHistory.changedAt, propertyStatusHistory.id);
+  }
+
+  async getPropertyVersions(propertyId: number): Promise<PropertyVersion[]> {
+    return db
+      .select()
+      .from(propertyVersions)
+      .where(eq(propertyVersions.propertyId, propertyId))
+      .orderBy(propertyVersions.version);
+  }
+
+  async getPropertyVersion(propertyId: number, version: number): Promise<PropertyVersion | undefined> {
+    const [propertyVersion] = await db
+      .select()
+      .from(propertyVersions)
+      .where(and(eq(propertyVersions.propertyId, propertyId), eq(propertyVersions.version, version)));
+    return propertyVersion;
+  }
+
+  // Moderation methods
+  async createModerationDecision(data: InsertModerationDecision): Promise<ModerationDecision> {
+    const [decision] = await db.insert(moderationDecisions).values(data).returning();
+    return decision;
+  }
+
+  async getModerationDecisions(propertyId?: number, limit = 100): Promise<ModerationLogEntry[]> {
+    const rows = await db
+      .select({
+        decision: moderationDecisions,
+        property: { id: properties.id, title: properties.title },
+        moderator: { id: users.id, username: users.username },
+      })
+      .from(moderationDecisions)
+      .innerJoin(properties, eq(moderationDecisions.propertyId, properties.id))
+      .leftJoin(users, eq(moderationDecisions.moderatorId, users.id))
+      .where(propertyId !== undefined ? eq(moderationDecisions.propertyId, propertyId) : undefined)
+      .orderBy(desc(moderationDecisions.createdAt), desc(moderationDecisions.id))
+      .limit(limit);
+
+    return rows.map(({ decision, property, moderator }) => ({ ...decision, property, moderator }));
+  }
+
+  // Impersonation methods
+  async createImpersonationSession(data: InsertImpersonationSession): Promise<ImpersonationSession> {
+    const [session] = await db.insert(impersonationSessions).values(data).returning();
+    return session;
+  }
+
+  async endImpersonationSession(id: number): Promise<void> {
+    await db
+      .update(impersonationSessions)
+      .set({ endedAt: new Date() })
+      .where(and(eq(impersonationSessions.id, id), isNull(impersonationSessions.endedAt)));
+  }
+
+  async getImpersonationSessions(limit = 100): Promise<ImpersonationLogEntry[]> {
+    const admins = alias(users, "admins");
+    const rows = await db
+      .select({
+        session: impersonationSessions,
+        admin: { id: admins.id, username: admins.username },
+        user: { id: users.id, username: users.username },
+      })
+      .from(impersonationSessions)
+      .leftJoin(admins, eq(impersonationSessions.adminId, admins.id))
+      .leftJoin(users, eq(impersonationSessions.userId, users.id))
+      .orderBy(desc(impersonationSessions.startedAt), desc(impersonationSessions.id))
+      .limit(limit);
+
+    return rows.map(({ session, admin, user }) => ({ ...session, admin, user }));
+  }
+
+  // Audit log methods
+  async createAuditLogEntry(data: InsertAuditLogEntry): Promise<AuditLogEntry> {
+    const [entry] = await db.insert(auditLog).values(data).returning();
+    return entry;
+  }
+
+  async getAuditLog(filters: AuditLogFilters): Promise<AuditLogEntry[]> {
+    const conditions: SQL[] = [];
+    if (filters.actorId !== undefined) conditions.push(eq(auditLog.actorId, filters.actorId));
+    if (filters.action !== undefined) conditions.push(eq(auditLog.action, filters.action));
+    if (filters.from !== undefined) conditions.push(gte(auditLog.createdAt, filters.from));
+    if (filters.to !== undefined) conditions.push(lt(auditLog.createdAt, filters.to));
+    if (filters.beforeId !== undefined) conditions.push(lt(auditLog.id, filters.beforeId));
+
+    return db
+      .select()
+      .from(auditLog)
+      .where(and(...conditions))
+      .orderBy(desc(auditLog.id))
+      .limit(filters.limit ?? 100);
+  }
+
+  // Analytics methods
+  async recordPropertyView(propertyId: number, userId: number | null): Promise<void> {
+    await db.insert(propertyViews).values({ propertyId, userId });
+  }
+
+  async getDailyActivity(range: DateRange): Promise<DailyActivity[]> {
+    const days = new Map<string, DailyActivity>();
+    const tally = async (table: PgTable, column: PgColumn, key: keyof ActivityCounts) => {
+      const day = sql<string>`to_char(${column}, 'YYYY-MM-DD')`;
+      const rows = await db
+        .select({ day, count: count() })
+        .from(table)
+        .where(and(gte(column, range.from), lt(column, range.to)))
+        .groupBy(day);
+      rows.forEach(row => {
+        const activity = days.get(row.day) ?? { date: row.day, users: 0, listings: 0, chats: 0, messages: 0, views: 0 };
+        activity[key] = row.count;
+        days.set(row.day, activity);
+      });
+    };
+
+    await tally(users, users.createdAt, "users");
+    await tally(properties, properties.createdAt, "listings");
+    await tally(chats, chats.createdAt, "chats");
+    await tally(messages, messages.timestamp, "messages");
+    await tally(propertyViews, propertyViews.viewedAt, "views");
+    return Array.from(days.values()).sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  async getListingBreakdown(range: DateRange): Promise<Pick<AdminAnalytics, "listingsByType" | "listingsByStatus">> {
+    const created = and(gte(properties.createdAt, range.from), lt(properties.createdAt, range.to));
+    const listingsByType = await db
+      .select({ propertyType: properties.propertyType, count: count() })
+      .from(properties)
+      .where(created)
+      .groupBy(properties.propertyType)
+      .orderBy(desc(count()), properties.propertyType);
+    const listingsByStatus = await db
+      .select({ status: properties.status, count: count() })
+      .from(properties)
+      .where(created)
+      .groupBy(properties.status)
+      .orderBy(desc(count()), properties.status);
+    return { listingsByType, listingsByStatus };
+  }
+
+  async getMedianPricesByArea(range: DateRange, limit: number): Promise<AdminAnalytics["medianPriceByArea"]> {
+    const area = sql<string>`case when ${properties.state} is null then ${properties.city} else ${properties.city} || ', ' || ${properties.state} end`;
+    return db
+      .select({
+        area,
+        listings: count(),
+        medianPrice: sql<number>`percentile_cont(0.5) within group (order by ${properties.price})`.mapWith(Number),
+      })
+      .from(properties)
+      .where(and(gte(properties.createdAt, range.from), lt(properties.createdAt, range.to), isNotNull(properties.city)))
+      .groupBy(properties.city, properties.state)
+      .orderBy(desc(count()), area)
+      .limit(limit);
+  }
+
+  async getResponseTimes(range: DateRange): Promise<AdminAnalytics["responseTimes"]> {
+    const askedAt = sql`min(${messages.timestamp})`;
+    const questions = db
+      .select({ chatId: chats.id, sellerId: chats.sellerId, askedAt: askedAt.as("asked_at") })
+      .from(chats)
+      .innerJoin(messages, and(eq(messages.chatId, chats.id), eq(messages.senderId, chats.buyerId)))
+      .groupBy(chats.id, chats.sellerId)
+      .having(sql`${askedAt} >= ${range.from.toISOString()}::timestamp and ${askedAt} < ${range.to.toISOString()}::timestamp`)
+      .as("questions");
+    // The seller's first message after it, null when they haven't replied
+    const replies = db
+      .select({ askedAt: questions.askedAt, repliedAt: sql`min(${messages.timestamp})`.as("replied_at") })
+      .from(questions)
+      .leftJoin(messages, and(
+        eq(messages.chatId, questions.chatId),
+        eq(messages.senderId, questions.sellerId),
+        gte(messages.timestamp, questions.askedAt),
+      ))
+      .groupBy(questions.chatId, questions.askedAt)
+      .as("replies");
+    const wait = sql`extract(epoch from ${replies.repliedAt} - ${replies.askedAt}) / 60`;
+
+    const [row] = await db
+      .select({
+        total: count(),
+        answered: count(replies.repliedAt),
+        medianMinutes: sql<number | null>`percentile_cont(0.5) within group (order by ${wait})`.mapWith(Number),
+        averageMinutes: sql<number | null>`avg(${wait})`.mapWith(Number),
+      })
+      .from(replies);
+    return {
+      answered: row.answered,
+      unanswered: row.total - row.answered,
+      medianMinutes: row.medianMinutes,
+      averageMinutes: row.averageMinutes,
+    };
+  }
+
+  async getViewConversion(range: DateRange): Promise<AdminAnalytics["conversion"]> {
+    const viewed = and(gte(propertyViews.viewedAt, range.from), lt(propertyViews.viewedAt, range.to));
+    const [{ views }] = await db.select({ views: count() }).from(propertyViews).where(viewed);
+
+    // First view in the range of each listing by each signed-in viewer
+    const viewers = db
+      .select({
+        userId: propertyViews.userId,
+        propertyId: propertyViews.propertyId,
+        firstViewedAt: sql`min(${propertyViews.viewedAt})`.as("first_viewed_at"),
+      })
+      .from(propertyViews)
+      .where(and(viewed, isNotNull(propertyViews.userId)))
+      .groupBy(propertyViews.userId, propertyViews.propertyId)
+      .as("viewers");
+    // How many chats each of them started about the listing after that
+    const viewerChats = db
+      .select({ chatCount: count(chats.id).as("chat_count") })
+      .from(viewers)
+      .leftJoin(chats, and(
+        eq(chats.buyerId, viewers.userId),
+        eq(chats.propertyId, viewers.propertyId),
+        gte(chats.createdAt, viewers.firstViewedAt),
+        lt(chats.createdAt, range.to),
+      ))
+      .groupBy(viewers.userId, viewers.propertyId)
+      .as("viewer_chats");
+    const [row] = await db
+      .select({
+        viewers: count(),
+        converted: sql<number>`count(*) filter (where ${viewerChats.chatCount} > 0)`.mapWith(Number),
+      })
+      .from(viewerChats);
+    return { views, viewers: row.viewers, converted: row.converted };
+  }
+
+  // Favourite methods
+  async getFavouritesByUserId(userId: number): Promise<FavouriteWithProperty[]> {
+    const rows = await db
+      .select({ favourite: favourites, property: properties })
+      .from(favourites)
+      .innerJoin(properties, eq(favourites.propertyId, properties.id))
+      .where(eq(favourites.userId, userId))
+      .orderBy(desc(favourites.createdAt), desc(favourites.id));
+
+    return rows.map(({ favourite, property }) => ({ ...favourite, property }));
+  }
+
+  async getFavouriteUserIds(propertyId: number): Promise<number[]> {
+    const rows = await db
+      .select({ userId: favourites.userId })
+      .from(favourites)
+      .where(eq(favourites.propertyId, propertyId));
+    return rows.map(row => row.userId);
+  }
+
+  async addFavourite(userId: number, propertyId: number): Promise<Favourite> {
+    const property = await this.getPropertyById(propertyId);
+    if (!property) {
+      throw new Error("Property not found");
+    }
+
+    await db
+      .insert(favourites)
+      .values({ userId, propertyId, savedPrice: property.price })
+      .onConflictDoNothing({ target: [favourites.userId, favourites.propertyId] });
+
+    const [favourite] = await db
+      .select()
+      .from(favourites)
+      .where(and(eq(favourites.userId, userId), eq(favourites.propertyId, propertyId)));
+    return favourite;
+  }
+
+  async removeFavourite(userId: number, propertyId: number): Promise<void> {
+    await db
+      .delete(favourites)
+      .where(and(eq(favourites.userId, userId), eq(favourites.propertyId, propertyId)));
+  }
+
+  // Chat methods
+  async getChatById(id: number): Promise<Chat | undefined> {
+    const [chat] = await db.select().from(chats).where(eq(chats.id, id));
+    return chat;
+  }
+
+  async getChatsByBuyerId(buyerId: number): Promise<(Chat & { property: Property | null, seller: User })[]> {
+    const rows = await db
+      .select({ chat: chats, property: properties, seller: users })
+      .from(chats)
+      .leftJoin(properties, eq(chats.propertyId, properties.id))
+      .innerJoin(users, eq(chats.sellerId, users.id))
+      .where(eq(chats.buyerId, buyerId));
+
+    return rows.map(({ chat, property, seller }) => ({ ...chat, property, seller }));
+  }
+
+  async getChatsBySellerId(sellerId: number): Promise<(Chat & { property: Property | null, buyer: User })[]> {
+    const rows = await db
+      .select({ chat: chats, property: properties, buyer: users })
+      .from(chats)
+      .leftJoin(properties, eq(chats.propertyId, properties.id))
+      .innerJoin(users, eq(chats.buyerId, users.id))
+      .where(eq(chats.sellerId, sellerId));
+
+    return rows.map(({ chat, property, buyer }) => ({ ...chat, property, buyer }));
+  }
+
+  async findChat(buyerId: number, sellerId: number, propertyId: number): Promise<Chat | undefined> {
+    const [chat] = await db
+      .select()
+      .from(chats)
+      .where(and(
+        eq(chats.buyerId, buyerId),
+        eq(chats.sellerId, sellerId),
+        eq(chats.propertyId, propertyId)
+      ));
+    return chat;
+  }
+
+  async createChat(data: InsertChat): Promise<Chat> {
+    const [chat] = await db.insert(chats).values(data).returning();
+    return chat;
+  }
+
+  async markChatRead(chatId: number, userId: number, messageId: number): Promise<Chat> {
+    const advance = (participantId: PgColumn, lastReadId: PgColumn) =>
+      sql`case when ${participantId} = ${userId} then greatest(${lastReadId}, ${messageId}) else ${lastReadId} end`;
+    const [chat] = await db
+      .update(chats)
+      .set({
+        buyerLastReadId: advance(chats.buyerId, chats.buyerLastReadId),
+        sellerLastReadId: advance(chats.sellerId, chats.sellerLastReadId),
+      })
+      .where(eq(chats.id, chatId))
+      .returning();
+
+    if (!chat) {
+      throw new Error("Chat not found");
+    }
+    return chat;
+  }
+
+  async getUnreadCounts(userId: number): Promise<Record<number, number>> {
+    const rows = await db
+      .select({ chatId: messages.chatId, count: count() })
+      .from(messages)
+      .innerJoin(chats, eq(chats.id, messages.chatId))
+      .where(and(
+        ne(messages.senderId, userId),
+        or(
+          and(eq(chats.buyerId, userId), gt(messages.id, chats.buyerLastReadId)),
+          and(eq(chats.sellerId, userId), gt(messages.id, chats.sellerLastReadId)),
+        ),
+      ))
+      .groupBy(messages.chatId);
+
+    return Object.fromEntries(rows.map(row => [row.chatId, row.count]));
+  }
+
+  async getChatPartnerIds(userId: number): Promise<number[]> {
+    const rows = await db
+      .selectDistinct({
+        partnerId: sql<number>`case when ${chats.buyerId} = ${userId} then ${chats.sellerId} else ${chats.buyerId} end`,
+      })
+      .from(chats)
+      .where(or(eq(chats.buyerId, userId), eq(chats.sellerId, userId)));
+
+    return rows.map(row => row.partnerId);
+  }
+
+  async transferChats(fromSellerId: number, toSellerId: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      const moved = await tx.update(chats)
+        .set({ sellerId: toSellerId })
+        .where(and(eq(chats.sellerId, fromSellerId), ne(chats.buyerId, toSellerId)))
+        .returning({ id: chats.id });
+      if (!moved.length) return;
+
+      await tx.update(messages)
+        .set({ senderId: toSellerId })
+        .where(and(
+          inArray(messages.chatId, moved.map(chat => chat.id)),
+          eq(messages.senderId, fromSellerId),
+        ));
+    });
+  }
+
+  // Message methods
+  async getMessageById(id: number): Promise<Message | undefined> {
+    const [message] = await db.select().from(messages).where(eq(messages.id, id));
+    return message;
+  }
+
+  async getMessagesByChatId(chatId: number): Promise<Message[]> {
+    return db
+      .select()
+      .from(messages)
+      .where(eq(messages.chatId, chatId))
+      .orderBy(messages.timestamp);
+  }
+
+  async createMessage(data: InsertMessage): Promise<Message> {
+    const [message] = await db.insert(messages).values(data).returning();
+    return message;
+  }
+
+  async getMessagesForUserSince(userId: number, afterId: number, limit: number): Promise<Message[]> {
+    return db
+      .select(getTableColumns(messages))
+      .from(messages)
+      .innerJoin(chats, eq(chats.id, messages.chatId))
+      .where(and(or(eq(chats.buyerId, userId), eq(chats.sellerId, userId)), gt(messages.id, afterId)))
+      .orderBy(messages.id)
+      .limit(limit);
+  }
+
+  async getLatestMessageIdForUser(userId: number): Promise<number> {
+    const [row] = await db
+      .select({ id: sql<number | null>`max(${messages.id})` })
+      .from(messages)
+      .innerJoin(chats, eq(chats.id, messages.chatId))
+      .where(or(eq(chats.buyerId, userId), eq(chats.sellerId, userId)));
+    return Number(row?.id ?? 0);
+  }
+
+  // Saved search methods
+  async getSavedSearchById(id: number): Promise<SavedSearch | undefined> {
+    const [savedSearch] = await db.select().from(savedSearches).where(eq(savedSearches.id, id));
+    return savedSearch;
+  }
+
+  async getSavedSearchesByUserId(userId: number): Promise<SavedSearch[]> {
+    return db.select().from(savedSearches).where(eq(savedSearches.userId, userId));
+  }
+
+  async getAllSavedSearches(): Promise<SavedSearch[]> {
+    return db.select().from(savedSearches);
+  }
+
+  async getSavedSearchByUnsubscribeToken(token: string): Promise<SavedSearch | undefined> {
+    const [savedSearch] = await db
+      .select()
+      .from(savedSearches)
+      .where(eq(savedSearches.unsubscribeToken, token));
+    return savedSearch;
+  }
+
+  async createSavedSearch(data: InsertSavedSearch): Promise<SavedSearch> {
+    const [savedSearch] = await db
+      .insert(savedSearches)
+      .values({ ...data, unsubscribeToken: newUnsubscribeToken() })
+      .returning();
+    return savedSearch;
+  }
+
+  async updateSavedSearch(id: number, data: SavedSearchUpdate): Promise<SavedSearch> {
+    const [savedSearch] = await db
+      .update(savedSearches)
+      .set(data)
+      .where(eq(savedSearches.id, id))
+      .returning();
+
+    if (!savedSearch) {
+      throw new Error("Saved search not found");
+    }
+
+    return savedSearch;
+  }
+
+  async deleteSavedSearch(id: number): Promise<void> {
+    // Its notifications go with it through the foreign key
+    await db.delete(savedSearches).where(eq(savedSearches.id, id));
+  }
+
+  // Notification methods
+  async getNotificationsByUserId(userId: number, limit = 50): Promise<Notification[]> {
+    return db
+      .select()
+      .from(notifications)
+      .where(eq(notifications.userId, userId))
+      .orderBy(desc(notifications.createdAt), desc(notifications.id))
+      .limit(limit);
+  }
+
+  async createNotification(data: InsertNotification): Promise<Notification> {
+    const [notification] = await db.insert(notifications).values(data).returning();
+    return notification;
+  }
+
+  async markNotificationsRead(userId: number, ids?: number[]): Promise<void> {
+    await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(
+        eq(notifications.userId, userId),
+        isNull(notifications.readAt),
+        ids ? inArray(notifications.id, ids) : undefined
+      ));
+  }
+
+  async hasSavedSearchNotification(savedSearchId: number, propertyId: number): Promise<boolean> {
+    const [notification] = await db
+      .select({ id: notifications.id })
+      .from(notifications)
+      .where(and(
+        eq(notifications.savedSearchId, savedSearchId),
+        eq(notifications.propertyId, propertyId)
+      ))
+      .limit(1);
+    return notification !== undefined;
+  }
+
+  async getUnemailedNotifications(savedSearchId: number): Promise<Notification[]> {
+    return db
+      .select()
+      .from(notifications)
+      .where(and(
+        eq(notifications.savedSearchId, savedSearchId),
+        isNull(notifications.emailedAt)
+      ))
+      .orderBy(notifications.id);
+  }
+
+  async markNotificationsEmailed(ids: number[]): Promise<void> {
+    if (!ids.length) return;
+    await db
+      .update(notifications)
+      .set({ emailedAt: new Date() })
+      .where(inArray(notifications.id, ids));
+  }
+}
+
+// STORAGE_DRIVER picks the backend explicitly ("memory" or "database");
+// otherwise the database is used whenever DATABASE_URL is provisioned
+export const storageDriver = process.env.STORAGE_DRIVER ?? (process.env.DATABASE_URL ? "database" : "memory");
+
+function createStorage(driver: string): IStorage {
+  switch (driver) {
+    case "database":
+      return new DatabaseStorage();
+    case "memory":
+      return new MemStorage();
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${driver}"`);
+  }
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage(storageDriver);
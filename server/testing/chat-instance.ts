@@ -0,0 +1,23 @@
+import express from "express";
+import type { AddressInfo } from "net";
+import { useWebSocketProxy } from "./postgres";
+
+// A server instance for the chat bus tests, forked into a process of its
+// own as storage and the chat bus are one per process. Serves the API and
+// chat socket against DATABASE_URL, reached through DATABASE_WS_PROXY, and
+// sends its parent the port once it's listening.
+
+// Before anything that connects is imported
+useWebSocketProxy(process.env.DATABASE_WS_PROXY!);
+
+(async () => {
+  const { registerRoutes } = await import("../routes");
+
+  const app = express();
+  app.use(express.json());
+  const server = await registerRoutes(app);
+
+  server.listen(0, "127.0.0.1", () => {
+    process.send!({ port: (server.address() as AddressInfo).port });
+  });
+})();
@@ -0,0 +1,45 @@
+import express from "express";
+import type { AddressInfo } from "net";
+
+export interface TestServer {
+  // http://host:port
+  url: string;
+  port: number;
+  close(): Promise<void>;
+}
+
+// The API and chat socket as server/index.ts serves them, on a free local
+// port. Routes are imported only now so the caller can choose the storage
+// (STORAGE_DRIVER, DATABASE_URL) first.
+export async function startTestServer(): Promise<TestServer> {
+  const { registerRoutes } = await import("../routes");
+
+  const app = express();
+  app.use(express.json());
+  app.use(express.urlencoded({ extended: false }));
+  const server = await registerRoutes(app);
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    port,
+    close: () => new Promise<void>(resolve => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    }),
+  };
+}
+
+// The session cookie for the user, signed in through the API
+export async function signIn(url: string, username: string, password: string): Promise<string> {
+  const res = await fetch(`${url}/api/login`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ username, password }),
+  });
+  if (!res.ok) {
+    throw new Error(`signing in as ${username} failed with ${res.status}`);
+  }
+  return res.headers.get("set-cookie")!.split(";")[0];
+}
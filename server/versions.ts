@@ -0,0 +1,25 @@
+import type { Property, PropertySnapshot, PropertyFieldChange } from "@shared/schema";
+
+// Listing fields recorded in each version, in the order diffs list them
+const snapshotFields: (keyof PropertySnapshot)[] = [
+  "title", "price", "propertyType", "description", "address", "city", "state",
+  "postcode", "latitude", "longitude", "bedrooms", "bathrooms", "squareFeet",
+  "yearBuilt", "amenities", "images", "contactNumber", "status", "sellerId",
+];
+
+export function toSnapshot(property: Property): PropertySnapshot {
+  const snapshot: Record<string, unknown> = {};
+  for (const field of snapshotFields) {
+    snapshot[field] = property[field];
+  }
+  return snapshot as PropertySnapshot;
+}
+
+// Values are plain JSON (numbers, strings, arrays), so comparing their JSON is exact
+export const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+export function diffSnapshots(from: PropertySnapshot, to: PropertySnapshot): PropertyFieldChange[] {
+  return snapshotFields
+    .filter(field => !sameValue(from[field], to[field]))
+    .map(field => ({ field, from: from[field] ?? null, to: to[field] ?? null }));
+}
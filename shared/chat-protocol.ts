@@ -0,0 +1,99 @@
+import { z } from "zod";
+
+// Frames on the /ws/chat socket. Every frame is a JSON envelope carrying the
+// protocol version `v` and a `type`; the server answers frames of another
+// version with an "unsupported_version" error.
+export const chatProtocolVersion = 1;
+
+// A frame's fields without the envelope's version, as the code sending it
+// builds them. Distributes over the union so each type keeps its own fields.
+type WithoutVersion<T> = T extends unknown ? Omit<T, "v"> : never;
+
+const version = z.literal(chatProtocolVersion);
+const id = z.number().int().positive();
+
+// Timestamps arrive as ISO strings and are parsed back into dates
+const messageSchema = z.object({
+  id,
+  chatId: id,
+  senderId: id,
+  content: z.string(),
+  timestamp: z.coerce.date(),
+});
+
+// Whether someone is online, and when they were last seen if they're not.
+// lastSeenAt is also null for people who hide their presence, or who haven't
+// been seen yet.
+export const presenceSchema = z.object({
+  online: z.boolean(),
+  lastSeenAt: z.coerce.date().nullable(),
+});
+export type Presence = z.infer<typeof presenceSchema>;
+
+// Clients send "typing" at most this often while someone types, and the
+// server drops ones that come faster. Indicators go away when a couple of
+// these pass without another.
+export const typingIntervalMs = 3000;
+
+// Client to server
+export const chatClientFrameSchema = z.discriminatedUnion("type", [
+  // `ref` is chosen by the client and echoed in the ack or error
+  z.object({
+    v: version,
+    type: z.literal("send"),
+    ref: z.string().min(1).max(64),
+    chatId: id,
+    content: z.string().trim().min(1, "Messages can't be empty").max(5000),
+  }),
+  z.object({ v: version, type: z.literal("typing"), chatId: id }),
+  // Everything up to and including messageId has been seen
+  z.object({ v: version, type: z.literal("read"), chatId: id, messageId: id }),
+  // After reconnecting: the messages missed since the newest one seen
+  z.object({ v: version, type: z.literal("resume"), afterMessageId: z.number().int().min(0) }),
+]);
+export type ChatClientFrame = z.infer<typeof chatClientFrameSchema>;
+export type ChatClientEvent = WithoutVersion<ChatClientFrame>;
+
+// Sockets closed with these shouldn't reconnect: the account was suspended or
+// deleted, or a view-as-user session ran out
+export const chatCloseCodes = {
+  sessionExpired: 4401,
+  accountUnavailable: 4403,
+} as const;
+
+export const chatErrorCodes = [
+  "bad_request",
+  "unsupported_version",
+  "forbidden",
+  "not_found",
+  "read_only",
+  "server_error",
+] as const;
+export type ChatErrorCode = typeof chatErrorCodes[number];
+
+// Server to client. Events go to every socket the user has open, so each
+// tab and device stays in step.
+export const chatServerFrameSchema = z.discriminatedUnion("type", [
+  // First frame on every connection, with the newest message in your chats
+  z.object({ v: version, type: z.literal("ready"), lastMessageId: z.number().int().min(0) }),
+  // A new message in one of your chats, from the other participant
+  z.object({ v: version, type: z.literal("message"), message: messageSchema }),
+  // Your "send" was saved
+  z.object({ v: version, type: z.literal("ack"), ref: z.string(), message: messageSchema }),
+  z.object({
+    v: version,
+    type: z.literal("error"),
+    ref: z.string().optional(),
+    code: z.enum(chatErrorCodes),
+    message: z.string(),
+  }),
+  z.object({ v: version, type: z.literal("typing"), chatId: id, userId: id }),
+  // Someone you have a chat with came online or went offline
+  presenceSchema.extend({ v: version, type: z.literal("presence"), userId: id }),
+  z.object({ v: version, type: z.literal("read"), chatId: id, userId: id, messageId: id }),
+  // The answer to "resume", oldest first; complete is false when there were
+  // too many to send and the client should reload its chats instead
+  z.object({ v: version, type: z.literal("resumed"), messages: z.array(messageSchema), complete: z.boolean() }),
+]);
+export type ChatServerFrame = z.infer<typeof chatServerFrameSchema>;
+export type ChatServerEvent = WithoutVersion<ChatServerFrame>;
@@ -0,0 +1,50 @@
+import type { User, UserRole } from "./schema";
+
+// Everything access-controlled in the app, checked on the server by the
+// middleware in server/permissions.ts and used by the client to decide what
+// to show.
+export const permissions = [
+  "listings:create",      // list homes for sale and manage your own listings
+  "listings:manage_any",  // edit, delete and change the status of anyone's listing
+  "listings:moderate",    // review submitted listings; see unpublished listings and their history
+  "favourites:save",
+  "searches:save",
+  "chats:start",          // contact sellers about their listings
+  "users:view",
+  "users:manage_roles",
+  "users:manage",         // suspend, force a password reset and delete accounts
+  "users:impersonate",    // view the app as another user, read-only
+  "audit:view",           // read and export the audit log
+  "analytics:view",
+] as const;
+export type Permission = typeof permissions[number];
+
+export const rolePermissions: Record<UserRole, Permission[]> = {
+  buyer: ["favourites:save", "searches:save", "chats:start"],
+  seller: ["listings:create"],
+  // Lists homes on behalf of their owners
+  agent: ["listings:create"],
+  moderator: ["listings:moderate"],
+  admin: [
+    "listings:manage_any", "listings:moderate",
+    "users:view", "users:manage_roles", "users:manage", "users:impersonate",
+    "audit:view", "analytics:view",
+  ],
+};
+
+export const roleLabels: Record<UserRole, string> = {
+  buyer: "Buyer",
+  seller: "Seller",
+  agent: "Agent",
+  moderator: "Moderator",
+  admin: "Admin",
+};
+
+export function hasPermission(user: Pick<User, "role"> | null | undefined, permission: Permission): boolean {
+  return !!user && (rolePermissions[user.role] ?? []).includes(permission);
+}
+
+// Sellers manage their own listings; admins manage everyone's
+export function canManageListing(user: Pick<User, "id" | "role"> | null | undefined, listing: { sellerId: number }): boolean {
+  return !!user && (user.id === listing.sellerId || hasPermission(user, "listings:manage_any"));
+}
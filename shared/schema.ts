@@ -1,7 +1,14 @@
-import { pgTable, text, serial, integer, boolean, timestamp, doublePrecision } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, doublePrecision, jsonb, index, uniqueIndex, type AnyPgColumn } from "drizzle-orm/pg-core";
+import { relations, sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// What each role may do is in shared/permissions.ts. Admins grant the
+// agent, moderator and admin roles; anyone can sign up as the others.
+export const userRoles = ["buyer", "seller", "agent", "moderator", "admin"] as const;
+export type UserRole = typeof userRoles[number];
+export const selfServiceRoles = ["buyer", "seller", "agent"] as const;
+
 // User schema
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -10,22 +17,162 @@ export const users = pgTable("users", {
   email: text("email").notNull().unique(),
   firstName: text("first_name").notNull(),
   lastName: text("last_name").notNull(),
-  role: text("role").notNull().default("buyer"), // 'buyer' or 'seller'
+  role: text("role").$type<UserRole>().notNull().default("buyer"),
   phoneNumber: text("phone_number"),
+  // Suspended accounts can't sign in; the reason is shown to them when they try
+  suspendedAt: timestamp("suspended_at"),
+  suspensionReason: text("suspension_reason"),
+  // Set by an admin; the user has to choose a new password before anything else
+  mustResetPassword: boolean("must_reset_password").default(false).notNull(),
+  // Kept a little ahead of now while the user has the chat open, so they're
+  // online while it's in the future; once it's passed it's when they were
+  // last seen
+  lastSeenAt: timestamp("last_seen_at"),
+  // Privacy setting: the people they chat with don't see either
+  hidePresence: boolean("hide_presence").default(false).notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
 export const insertUserSchema = createInsertSchema(users).omit({
+  id: true,
+  suspendedAt: true,
+  suspensionReason: true,
+  mustResetPassword: true,
+  lastSeenAt: true,
+  hidePresence: true,
+  createdAt: true,
+}).extend({
+  role: z.enum(userRoles).optional(),
+});
+
+// What happens to a deleted user's listings: deleted with the account, or
+// handed to another seller or agent
+export const userListingPolicies = ["delete", "transfer"] as const;
+export type UserListingPolicy = typeof userListingPolicies[number];
+
+// "View as user" sessions admins start for support. They're read-only and
+// time-limited; endedAt is set when the admin stops or the time runs out.
+// Rows outlive both accounts.
+export const impersonationSessions = pgTable("impersonation_sessions", {
+  id: serial("id").primaryKey(),
+  adminId: integer("admin_id").references(() => users.id, { onDelete: "set null" }),
+  userId: integer("user_id").references(() => users.id, { onDelete: "set null" }),
+  reason: text("reason").notNull(),
+  startedAt: timestamp("started_at").defaultNow().notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  endedAt: timestamp("ended_at"),
+}, (table) => [
+  index("impersonation_sessions_started_idx").on(table.startedAt),
+]);
+
+export const insertImpersonationSessionSchema = createInsertSchema(impersonationSessions).omit({
+  id: true,
+  startedAt: true,
+  endedAt: true,
+});
+
+// Everything written to the audit log, by area
+export const auditActions = [
+  "auth.register", "auth.login", "auth.login_failed", "auth.logout", "auth.password_change",
+  "property.create", "property.update", "property.status_change", "property.renew", "property.delete",
+  "chat.start",
+  "moderation.decision",
+  "user.role_change", "user.suspend", "user.unsuspend", "user.password_reset", "user.delete",
+  "impersonation.start", "impersonation.stop",
+] as const;
+export type AuditAction = typeof auditActions[number];
+
+export const auditTargetTypes = ["user", "property", "chat"] as const;
+export type AuditTargetType = typeof auditTargetTypes[number];
+
+// Append-only record of sign-ins and of changes to listings, chats and
+// accounts. There are no foreign keys so rows never change when the actor
+// or target is deleted; actorUsername is kept for that reason. before and
+// after hold the record either side of the change (passwords stripped).
+export const auditLog = pgTable("audit_log", {
+  id: serial("id").primaryKey(),
+  // Null for anonymous actions such as a failed sign-in
+  actorId: integer("actor_id"),
+  actorUsername: text("actor_username"),
+  action: text("action").$type<AuditAction>().notNull(),
+  targetType: text("target_type").$type<AuditTargetType>(),
+  targetId: integer("target_id"),
+  ip: text("ip"),
+  userAgent: text("user_agent"),
+  before: jsonb("before").$type<Record<string, unknown>>(),
+  after: jsonb("after").$type<Record<string, unknown>>(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("audit_log_created_idx").on(table.createdAt),
+  index("audit_log_actor_idx").on(table.actorId, table.createdAt),
+  index("audit_log_action_idx").on(table.action, table.createdAt),
+]);
+
+export const insertAuditLogSchema = createInsertSchema(auditLog, {
+  action: z.enum(auditActions),
+  targetType: z.enum(auditTargetTypes).nullish(),
+  before: z.record(z.unknown()).nullish(),
+  after: z.record(z.unknown()).nullish(),
+}).omit({
   id: true,
   createdAt: true,
 });
 
+// Full-text search expressions, shared by the indexes below and the storage queries
+// so Postgres can use the indexes. Title outranks address, address outranks description.
+type SearchableColumns = { title: AnyPgColumn; address: AnyPgColumn; description: AnyPgColumn };
+
+export function propertySearchDocument(table: SearchableColumns) {
+  return sql`(setweight(to_tsvector('english', ${table.title}), 'A') || setweight(to_tsvector('english', ${table.address}), 'B') || setweight(to_tsvector('english', ${table.description}), 'C'))`;
+}
+
+// Trigram-matched text used to tolerate typos (requires the pg_trgm extension)
+export function propertyFuzzyText(table: SearchableColumns) {
+  return sql`(${table.title} || ' ' || ${table.address})`;
+}
+
+// Features a listing can be filtered on; stored as the keys below
+export const amenityOptions = [
+  "parking", "garage", "pool", "garden", "balcony", "lift", "furnished",
+  "air_conditioning", "gym", "pets_allowed",
+] as const;
+export type Amenity = typeof amenityOptions[number];
+
+// Listing lifecycle. Buyers only find active and under offer listings in
+// search; sellers see all of their own.
+export const listingStatuses = [
+  "draft", "pending_review", "active", "under_offer", "sold", "expired", "rejected",
+] as const;
+export type ListingStatus = typeof listingStatuses[number];
+export const publicListingStatuses: ListingStatus[] = ["active", "under_offer"];
+
+// Moves a seller can make from each status. Active listings expire on their
+// own once expiresAt passes and renewing puts them back on the market;
+// pending_review listings wait on a moderator, who decides whether they go
+// live, go back to draft for changes or are rejected for good.
+export const listingTransitions: Record<ListingStatus, ListingStatus[]> = {
+  draft: ["pending_review"],
+  pending_review: ["draft"],
+  active: ["under_offer", "sold", "draft"],
+  under_offer: ["active", "sold"],
+  sold: [],
+  expired: ["active"],
+  rejected: [],
+};
+
+export const moderationDecisionTypes = ["approved", "rejected", "changes_requested"] as const;
+export type ModerationDecisionType = typeof moderationDecisionTypes[number];
+
 // Property schema
 export const properties = pgTable("properties", {
   id: serial("id").primaryKey(),
-  sellerId: integer("seller_id").notNull(),
+  sellerId: integer("seller_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   title: text("title").notNull(),
   address: text("address").notNull(),
+  // Normalised from the address by the geocoder; null when it couldn't be resolved
+  city: text("city"),
+  state: text("state"),
+  postcode: text("postcode"),
   price: doublePrecision("price").notNull(),
   contactNumber: text("contact_number").notNull(),
   propertyType: text("property_type").notNull(), // 'plot', 'house', 'apartment', 'land'
@@ -35,35 +182,157 @@ export const properties = pgTable("properties", {
   bathrooms: integer("bathrooms"),
   squareFeet: integer("square_feet"),
   yearBuilt: integer("year_built"),
-  active: boolean("active").default(true).notNull(),
+  amenities: text("amenities").array().notNull().default(sql`'{}'::text[]`),
+  // WGS84 coordinates of the listing's map pin
+  latitude: doublePrecision("latitude"),
+  longitude: doublePrecision("longitude"),
+  status: text("status").$type<ListingStatus>().default("active").notNull(),
+  statusChangedAt: timestamp("status_changed_at").defaultNow().notNull(),
+  // Set while the listing is on the market; null for drafts and once sold
+  expiresAt: timestamp("expires_at"),
+  // The moderator's reason when the listing was last rejected or sent back
+  // for changes; cleared when it's resubmitted or approved
+  moderationNote: text("moderation_note"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
-});
+}, (table) => [
+  index("properties_search_idx").using("gin", propertySearchDocument(table)),
+  index("properties_fuzzy_idx").using("gin", sql`${propertyFuzzyText(table)} gin_trgm_ops`),
+  index("properties_location_idx").on(table.latitude, table.longitude),
+  index("properties_city_idx").on(table.state, table.city),
+  index("properties_amenities_idx").using("gin", table.amenities),
+  index("properties_status_idx").on(table.status, table.expiresAt),
+]);
 
-export const insertPropertySchema = createInsertSchema(properties).omit({
+export const insertPropertySchema = createInsertSchema(properties, {
+  latitude: z.number().min(-90).max(90).nullish(),
+  longitude: z.number().min(-180).max(180).nullish(),
+  amenities: z.array(z.enum(amenityOptions)).optional(),
+  status: z.enum(listingStatuses).optional(),
+}).omit({
   id: true,
+  statusChangedAt: true,
+  moderationNote: true,
   createdAt: true,
   updatedAt: true,
 });
 
+// Every asking price a listing has had, recorded by the storage layer on
+// create and whenever the price changes
+export const propertyPriceHistory = pgTable("property_price_history", {
+  id: serial("id").primaryKey(),
+  propertyId: integer("property_id").notNull().references(() => properties.id, { onDelete: "cascade" }),
+  price: doublePrecision("price").notNull(),
+  recordedAt: timestamp("recorded_at").defaultNow().notNull(),
+}, (table) => [
+  index("property_price_history_property_idx").on(table.propertyId, table.recordedAt),
+]);
+
+// Every status a listing has been through. fromStatus is null for the status
+// it was created with; changedBy is null for automatic expiry.
+export const propertyStatusHistory = pgTable("property_status_history", {
+  id: serial("id").primaryKey(),
+  propertyId: integer("property_id").notNull().references(() => properties.id, { onDelete: "cascade" }),
+  fromStatus: text("from_status").$type<ListingStatus>(),
+  toStatus: text("to_status").$type<ListingStatus>().notNull(),
+  changedBy: integer("changed_by").references(() => users.id, { onDelete: "set null" }),
+  changedAt: timestamp("changed_at").defaultNow().notNull(),
+}, (table) => [
+  index("property_status_history_property_idx").on(table.propertyId, table.changedAt),
+]);
+
+// Every moderation decision, kept after the moderator's account is deleted
+export const moderationDecisions = pgTable("moderation_decisions", {
+  id: serial("id").primaryKey(),
+  propertyId: integer("property_id").notNull().references(() => properties.id, { onDelete: "cascade" }),
+  moderatorId: integer("moderator_id").references(() => users.id, { onDelete: "set null" }),
+  decision: text("decision").$type<ModerationDecisionType>().notNull(),
+  // Required unless approved
+  reason: text("reason"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("moderation_decisions_property_idx").on(table.propertyId, table.createdAt),
+]);
+
+export const insertModerationDecisionSchema = createInsertSchema(moderationDecisions, {
+  decision: z.enum(moderationDecisionTypes),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Listing versions: a full snapshot of the listing after each change,
+// numbered from 1 on create. changedFields lists what differs from the
+// previous version; changedBy is null once that user has been deleted.
+export const propertyVersions = pgTable("property_versions", {
+  id: serial("id").primaryKey(),
+  propertyId: integer("property_id").notNull().references(() => properties.id, { onDelete: "cascade" }),
+  version: integer("version").notNull(),
+  changedBy: integer("changed_by").references(() => users.id, { onDelete: "set null" }),
+  changedFields: text("changed_fields").array().notNull(),
+  snapshot: jsonb("snapshot").$type<PropertySnapshot>().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("property_versions_property_version_idx").on(table.propertyId, table.version),
+]);
+
+// Each time a listing is opened by someone other than its seller or staff;
+// userId is null for visitors who aren't signed in. Used for analytics only.
+export const propertyViews = pgTable("property_views", {
+  id: serial("id").primaryKey(),
+  propertyId: integer("property_id").notNull().references(() => properties.id, { onDelete: "cascade" }),
+  userId: integer("user_id").references(() => users.id, { onDelete: "set null" }),
+  viewedAt: timestamp("viewed_at").defaultNow().notNull(),
+}, (table) => [
+  index("property_views_viewed_idx").on(table.viewedAt),
+  index("property_views_user_idx").on(table.userId, table.propertyId),
+]);
+
+// Favourites schema
+// savedPrice is the asking price when the listing was saved, to show drops since
+export const favourites = pgTable("favourites", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  propertyId: integer("property_id").notNull().references(() => properties.id, { onDelete: "cascade" }),
+  savedPrice: doublePrecision("saved_price").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("favourites_user_property_idx").on(table.userId, table.propertyId),
+  index("favourites_property_idx").on(table.propertyId),
+]);
+
+export const insertFavouriteSchema = createInsertSchema(favourites).omit({
+  id: true,
+  createdAt: true,
+});
+
 // Chat/Message schema
+// propertyId is nulled when the listing is deleted, which leaves the chat read-only
 export const chats = pgTable("chats", {
   id: serial("id").primaryKey(),
-  buyerId: integer("buyer_id").notNull(),
-  sellerId: integer("seller_id").notNull(),
-  propertyId: integer("property_id").notNull(),
+  buyerId: integer("buyer_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  sellerId: integer("seller_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  propertyId: integer("property_id").references(() => properties.id, { onDelete: "set null" }),
   createdAt: timestamp("created_at").defaultNow().notNull(),
+  // The newest message each participant has seen; 0 until they've read any
+  buyerLastReadId: integer("buyer_last_read_id").default(0).notNull(),
+  sellerLastReadId: integer("seller_last_read_id").default(0).notNull(),
 });
 
+// New chats always start from a listing
 export const insertChatSchema = createInsertSchema(chats).omit({
   id: true,
   createdAt: true,
+  buyerLastReadId: true,
+  sellerLastReadId: true,
+}).extend({
+  propertyId: z.number(),
 });
 
 export const messages = pgTable("messages", {
   id: serial("id").primaryKey(),
-  chatId: integer("chat_id").notNull(),
-  senderId: integer("sender_id").notNull(),
+  chatId: integer("chat_id").notNull().references(() => chats.id, { onDelete: "cascade" }),
+  senderId: integer("sender_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   content: text("content").notNull(),
   timestamp: timestamp("timestamp").defaultNow().notNull(),
 });
@@ -73,23 +342,291 @@ export const insertMessageSchema = createInsertSchema(messages).omit({
   timestamp: true,
 });
 
+// Saved search schema
+// query holds the filters as GET /api/properties query parameters
+export const savedSearchFrequencies = ["instant", "daily"] as const;
+export type SavedSearchFrequency = typeof savedSearchFrequencies[number];
+
+export const savedSearches = pgTable("saved_searches", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  query: text("query").notNull(),
+  // instant emails each match as it's listed, daily sends one digest a day
+  frequency: text("frequency").notNull().default("instant"),
+  emailEnabled: boolean("email_enabled").default(true).notNull(),
+  // Secret used by the unsubscribe link in alert emails
+  unsubscribeToken: text("unsubscribe_token").notNull().unique(),
+  lastEmailedAt: timestamp("last_emailed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("saved_searches_user_idx").on(table.userId),
+]);
+
+export const insertSavedSearchSchema = createInsertSchema(savedSearches, {
+  name: z.string().trim().min(1, "Name is required").max(100),
+  frequency: z.enum(savedSearchFrequencies).optional(),
+}).omit({
+  id: true,
+  unsubscribeToken: true,
+  lastEmailedAt: true,
+  createdAt: true,
+});
+
+// In-app notifications. savedSearchId/propertyId are set for saved search
+// matches; emailedAt records when the match went out by email. Watchers of a
+// listing get price drops (with propertyId) and removals (without, as the
+// listing may be gone). Sellers are told when a listing expires and when a
+// moderator decides on it.
+export const notifications = pgTable("notifications", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  type: text("type").notNull(), // 'saved_search_match', 'price_drop', 'listing_deactivated', 'listing_expired', 'listing_moderated'
+  title: text("title").notNull(),
+  body: text("body").notNull(),
+  link: text("link"),
+  savedSearchId: integer("saved_search_id").references(() => savedSearches.id, { onDelete: "cascade" }),
+  propertyId: integer("property_id").references(() => properties.id, { onDelete: "cascade" }),
+  readAt: timestamp("read_at"),
+  emailedAt: timestamp("emailed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("notifications_user_idx").on(table.userId, table.createdAt),
+  index("notifications_saved_search_idx").on(table.savedSearchId, table.propertyId),
+]);
+
+export const insertNotificationSchema = createInsertSchema(notifications).omit({
+  id: true,
+  readAt: true,
+  emailedAt: true,
+  createdAt: true,
+});
+
+// Relations
+export const usersRelations = relations(users, ({ many }) => ({
+  properties: many(properties),
+  buyerChats: many(chats, { relationName: "buyer" }),
+  sellerChats: many(chats, { relationName: "seller" }),
+  messages: many(messages),
+  savedSearches: many(savedSearches),
+  notifications: many(notifications),
+  favourites: many(favourites),
+}));
+
+export const propertiesRelations = relations(properties, ({ one, many }) => ({
+  seller: one(users, { fields: [properties.sellerId], references: [users.id] }),
+  chats: many(chats),
+  favourites: many(favourites),
+  priceHistory: many(propertyPriceHistory),
+  statusHistory: many(propertyStatusHistory),
+  moderationDecisions: many(moderationDecisions),
+  versions: many(propertyVersions),
+  views: many(propertyViews),
+}));
+
+export const moderationDecisionsRelations = relations(moderationDecisions, ({ one }) => ({
+  property: one(properties, { fields: [moderationDecisions.propertyId], references: [properties.id] }),
+  moderator: one(users, { fields: [moderationDecisions.moderatorId], references: [users.id] }),
+}));
+
+export const propertyStatusHistoryRelations = relations(propertyStatusHistory, ({ one }) => ({
+  property: one(properties, { fields: [propertyStatusHistory.propertyId], references: [properties.id] }),
+  changedByUser: one(users, { fields: [propertyStatusHistory.changedBy], references: [users.id] }),
+}));
+
+export const propertyVersionsRelations = relations(propertyVersions, ({ one }) => ({
+  property: one(properties, { fields: [propertyVersions.propertyId], references: [properties.id] }),
+  changedByUser: one(users, { fields: [propertyVersions.changedBy], references: [users.id] }),
+}));
+
+export const propertyViewsRelations = relations(propertyViews, ({ one }) => ({
+  property: one(properties, { fields: [propertyViews.propertyId], references: [properties.id] }),
+  user: one(users, { fields: [propertyViews.userId], references: [users.id] }),
+}));
+
+export const propertyPriceHistoryRelations = relations(propertyPriceHistory, ({ one }) => ({
+  property: one(properties, { fields: [propertyPriceHistory.propertyId], references: [properties.id] }),
+}));
+
+export const favouritesRelations = relations(favourites, ({ one }) => ({
+  user: one(users, { fields: [favourites.userId], references: [users.id] }),
+  property: one(properties, { fields: [favourites.propertyId], references: [properties.id] }),
+}));
+
+export const chatsRelations = relations(chats, ({ one, many }) => ({
+  buyer: one(users, { fields: [chats.buyerId], references: [users.id], relationName: "buyer" }),
+  seller: one(users, { fields: [chats.sellerId], references: [users.id], relationName: "seller" }),
+  property: one(properties, { fields: [chats.propertyId], references: [properties.id] }),
+  messages: many(messages),
+}));
+
+export const messagesRelations = relations(messages, ({ one }) => ({
+  chat: one(chats, { fields: [messages.chatId], references: [chats.id] }),
+  sender: one(users, { fields: [messages.senderId], references: [users.id] }),
+}));
+
+export const savedSearchesRelations = relations(savedSearches, ({ one, many }) => ({
+  user: one(users, { fields: [savedSearches.userId], references: [users.id] }),
+  notifications: many(notifications),
+}));
+
+export const impersonationSessionsRelations = relations(impersonationSessions, ({ one }) => ({
+  admin: one(users, { fields: [impersonationSessions.adminId], references: [users.id], relationName: "impersonator" }),
+  user: one(users, { fields: [impersonationSessions.userId], references: [users.id], relationName: "impersonated" }),
+}));
+
+export const notificationsRelations = relations(notifications, ({ one }) => ({
+  user: one(users, { fields: [notifications.userId], references: [users.id] }),
+  savedSearch: one(savedSearches, { fields: [notifications.savedSearchId], references: [savedSearches.id] }),
+  property: one(properties, { fields: [notifications.propertyId], references: [properties.id] }),
+}));
+
 // Login validation schema
 export const loginSchema = z.object({
   username: z.string().min(3, "Username must be at least 3 characters"),
   password: z.string().min(6, "Password must be at least 6 characters"),
 });
 
+export const passwordChangeSchema = z.object({
+  currentPassword: z.string().min(1, "Enter your current password"),
+  newPassword: z.string().min(6, "Password must be at least 6 characters"),
+});
+
+// Settings users change for themselves; all optional so each can be saved alone
+export const userSettingsSchema = z.object({
+  hidePresence: z.boolean(),
+}).partial();
+
 // Type definitions
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 
+// A user as sent to the client
+export type SafeUser = Omit<User, "password">;
+
+// Another user's profile as anyone can see it, from GET /api/users/:id
+export type PublicUser = Pick<User, "id" | "username" | "firstName" | "lastName" | "role" | "createdAt">;
+
+// The signed-in user from GET /api/user. impersonation is set while an
+// admin is viewing the app as this user.
+export type SessionUser = SafeUser & {
+  impersonation?: { admin: Pick<User, "id" | "username">; expiresAt: string };
+};
+
+export type InsertImpersonationSession = z.infer<typeof insertImpersonationSessionSchema>;
+export type ImpersonationSession = typeof impersonationSessions.$inferSelect;
+
+// Either account is null once deleted
+export type ImpersonationLogEntry = ImpersonationSession & {
+  admin: Pick<User, "id" | "username"> | null;
+  user: Pick<User, "id" | "username"> | null;
+};
+
+export type InsertAuditLogEntry = z.infer<typeof insertAuditLogSchema>;
+export type AuditLogEntry = typeof auditLog.$inferSelect;
+
 export type InsertProperty = z.infer<typeof insertPropertySchema>;
 export type Property = typeof properties.$inferSelect;
 
+// Listing as returned by property search; relevance is set for text searches
+// and distance (in km, null without a map pin) when searching around a point
+export type PropertySearchResult = Property & { relevance?: number; distance?: number | null };
+
+// Lightweight marker for plotting search results on a map
+export type PropertyPin = Pick<Property, "id" | "title" | "price" | "propertyType"> & {
+  latitude: number;
+  longitude: number;
+};
+
+// price_per_sqft is cheapest first, with listings lacking a size last
+export const propertySortOptions = [
+  "newest", "price_asc", "price_desc", "price_per_sqft", "relevance", "distance",
+] as const;
+export type PropertySort = typeof propertySortOptions[number];
+
+export type PriceHistoryEntry = typeof propertyPriceHistory.$inferSelect;
+export type StatusHistoryEntry = typeof propertyStatusHistory.$inferSelect;
+
+// The listing fields kept in each version
+export type PropertySnapshot = Omit<Property, "id" | "statusChangedAt" | "expiresAt" | "moderationNote" | "createdAt" | "updatedAt">;
+export type PropertyVersion = typeof propertyVersions.$inferSelect;
+
+// One field that differs between two versions
+export interface PropertyFieldChange {
+  field: keyof PropertySnapshot;
+  from: unknown;
+  to: unknown;
+}
+
+export type InsertModerationDecision = z.infer<typeof insertModerationDecisionSchema>;
+export type ModerationDecision = typeof moderationDecisions.$inferSelect;
+
+// A decision as listed in the moderation log; moderator is null once deleted
+export type ModerationLogEntry = ModerationDecision & {
+  property: Pick<Property, "id" | "title">;
+  moderator: Pick<User, "id" | "username"> | null;
+};
+
+// A listing waiting for review. submittedFrom is the status it was in
+// before (null for a new listing); changedFields lists what a seller edited
+// on a live listing.
+export type ModerationQueueItem = Property & {
+  sellerName: string;
+  submittedFrom: ListingStatus | null;
+  changedFields: string[];
+};
+
+// Admin analytics for a range of whole days (YYYY-MM-DD, both included).
+// Listing figures cover listings created in the range.
+export interface DailyActivity {
+  date: string;
+  users: number;
+  listings: number;
+  chats: number;
+  messages: number;
+  views: number;
+}
+
+export interface AdminAnalytics {
+  from: string;
+  to: string;
+  // Every day in the range, oldest first
+  daily: DailyActivity[];
+  listingsByType: { propertyType: string; count: number }[];
+  listingsByStatus: { status: ListingStatus; count: number }[];
+  // Areas with the most listings, by city
+  medianPriceByArea: { area: string; listings: number; medianPrice: number }[];
+  // From a buyer's first message in a chat to the seller's first reply, for
+  // chats whose first buyer message was in the range
+  responseTimes: {
+    answered: number;
+    unanswered: number;
+    medianMinutes: number | null;
+    averageMinutes: number | null;
+  };
+  // viewers counts signed-in users per listing they viewed; converted is
+  // how many of them went on to start a chat about it in the range
+  conversion: { views: number; viewers: number; converted: number };
+}
+
+export type InsertFavourite = z.infer<typeof insertFavouriteSchema>;
+export type Favourite = typeof favourites.$inferSelect;
+
+// A favourite with the listing it points at, as listed on the saved homes page
+export type FavouriteWithProperty = Favourite & { property: Property };
+
 export type InsertChat = z.infer<typeof insertChatSchema>;
 export type Chat = typeof chats.$inferSelect;
 
 export type InsertMessage = z.infer<typeof insertMessageSchema>;
 export type Message = typeof messages.$inferSelect;
 
+export type InsertSavedSearch = z.infer<typeof insertSavedSearchSchema>;
+export type SavedSearch = typeof savedSearches.$inferSelect;
+
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+export type Notification = typeof notifications.$inferSelect;
+
 export type LoginCredentials = z.infer<typeof loginSchema>;
+export type PasswordChange = z.infer<typeof passwordChangeSchema>;
+export type UserSettings = z.infer<typeof userSettingsSchema>;